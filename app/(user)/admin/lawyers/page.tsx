@@ -0,0 +1,5 @@
+import LawyerAdminPage from '@/lib/features/admin/presentation/pages/lawyer-admin-page'
+
+export default function LawyerAdminPageRoute() {
+  return <LawyerAdminPage />
+}
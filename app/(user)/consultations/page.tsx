@@ -0,0 +1,5 @@
+import ConsultationRequestsPage from '@/lib/features/consultations/presentation/pages/consultation-requests-page'
+
+export default function ConsultationRequestsPageRoute() {
+  return <ConsultationRequestsPage />
+}
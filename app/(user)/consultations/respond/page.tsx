@@ -0,0 +1,5 @@
+import ConsultationResponsePage from '@/lib/features/consultations/presentation/pages/consultation-response-page'
+
+export default function ConsultationResponsePageRoute() {
+  return <ConsultationResponsePage />
+}
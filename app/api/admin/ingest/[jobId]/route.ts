@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth } from '@/lib/shared/utils/auth/admin-guard'
+import { IngestionJobService } from '@/lib/shared/data/services/ingestion-job-service'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = withAdminAuth('ingest.status', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) => {
+  try {
+    const { jobId } = await params
+    const jobService = new IngestionJobService()
+    const job = await jobService.getJob(jobId)
+
+    if (!job) {
+      return NextResponse.json(
+        { ok: false, error: 'Ingestion job not found' },
+        { status: 404 }
+      )
+    }
+
+    // A job whose worker died never reports again; it is failed here when polled
+    return NextResponse.json({ ok: true, job: await jobService.failIfStale(job) })
+  } catch (error: any) {
+    console.error('Error fetching ingestion job:', error)
+    return NextResponse.json(
+      { ok: false, error: error?.message || 'Failed to fetch ingestion job' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth } from '@/lib/shared/utils/auth/admin-guard'
+import { LawyerService } from '@/lib/features/chat/data/services/lawyer-service'
+import { lawyerUpdateSchema } from '@/lib/shared/validations'
+import { validateRequest } from '@/lib/shared/utils/validation'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Partial update; `{ "active": false }` deactivates the lawyer
+export const PATCH = withAdminAuth('lawyers.update', async (
+  request: NextRequest,
+  { params }: RouteContext,
+  admin
+) => {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const validation = validateRequest(lawyerUpdateSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { ok: false, error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      )
+    }
+
+    const lawyerService = new LawyerService()
+    const existing = await lawyerService.exists(id)
+    if (!existing.data) {
+      return NextResponse.json({ ok: false, error: 'Lawyer not found' }, { status: 404 })
+    }
+
+    admin.setAuditDetails({ lawyerId: id, fields: Object.keys(validation.data) })
+    const lawyer = await lawyerService.updateLawyer(id, validation.data)
+    if (!lawyer) {
+      return NextResponse.json({ ok: false, error: 'Failed to update lawyer' }, { status: 500 })
+    }
+
+    return NextResponse.json({ ok: true, lawyer })
+  } catch (error: any) {
+    console.error('Error updating lawyer:', error)
+    return NextResponse.json(
+      { ok: false, error: error?.message || 'Failed to update lawyer' },
+      { status: 500 }
+    )
+  }
+})
+
+// Removes the lawyer for good; deactivate instead to keep the record
+export const DELETE = withAdminAuth('lawyers.delete', async (
+  _request: NextRequest,
+  { params }: RouteContext,
+  admin
+) => {
+  try {
+    const { id } = await params
+    const lawyerService = new LawyerService()
+    const existing = await lawyerService.exists(id)
+    if (!existing.data) {
+      return NextResponse.json({ ok: false, error: 'Lawyer not found' }, { status: 404 })
+    }
+
+    admin.setAuditDetails({ lawyerId: id })
+    const result = await lawyerService.delete(id)
+    if (!result.success) {
+      return NextResponse.json(
+        { ok: false, error: result.error || 'Failed to delete lawyer' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error('Error deleting lawyer:', error)
+    return NextResponse.json(
+      { ok: false, error: error?.message || 'Failed to delete lawyer' },
+      { status: 500 }
+    )
+  }
+})
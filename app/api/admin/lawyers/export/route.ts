@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { withAdminAuth } from '@/lib/shared/utils/auth/admin-guard'
+import { LawyerService } from '@/lib/features/chat/data/services/lawyer-service'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = withAdminAuth('lawyers.export', async () => {
+  try {
+    const csv = await new LawyerService().exportCsv()
+    const date = new Date().toISOString().slice(0, 10)
+
+    return new Response(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="lawyers-${date}.csv"`
+      }
+    })
+  } catch (error: any) {
+    console.error('Error exporting lawyers:', error)
+    return NextResponse.json(
+      { ok: false, error: error?.message || 'Failed to export lawyers' },
+      { status: 500 }
+    )
+  }
+})
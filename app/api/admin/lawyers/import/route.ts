@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth } from '@/lib/shared/utils/auth/admin-guard'
+import { LawyerService } from '@/lib/features/chat/data/services/lawyer-service'
+
+export const dynamic = 'force-dynamic'
+
+// Body: the CSV file as sent by the export (text/csv)
+export const POST = withAdminAuth('lawyers.import', async (request: NextRequest, _context, admin) => {
+  try {
+    const csv = await request.text()
+    if (!csv.trim()) {
+      return NextResponse.json({ ok: false, error: 'The CSV file is empty' }, { status: 400 })
+    }
+
+    const result = await new LawyerService().importCsv(csv)
+    admin.setAuditDetails({ created: result.created, updated: result.updated, errors: result.errors.length })
+
+    if (result.errors.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: 'Validation failed', details: result.errors },
+        { status: 400 }
+      )
+    }
+    return NextResponse.json({ ok: true, created: result.created, updated: result.updated })
+  } catch (error: any) {
+    console.error('Error importing lawyers:', error)
+    return NextResponse.json(
+      { ok: false, error: error?.message || 'Failed to import lawyers' },
+      { status: 500 }
+    )
+  }
+})
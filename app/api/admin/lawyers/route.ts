@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth } from '@/lib/shared/utils/auth/admin-guard'
+import { LawyerService } from '@/lib/features/chat/data/services/lawyer-service'
+import { lawyerSchema } from '@/lib/shared/validations'
+import { validateRequest } from '@/lib/shared/utils/validation'
+
+export const dynamic = 'force-dynamic'
+
+// The whole directory, including inactive lawyers
+export const GET = withAdminAuth('lawyers.list', async () => {
+  try {
+    const lawyers = await new LawyerService().getAllLawyers(true)
+    return NextResponse.json({ ok: true, lawyers })
+  } catch (error: any) {
+    console.error('Error listing lawyers:', error)
+    return NextResponse.json(
+      { ok: false, error: error?.message || 'Failed to list lawyers' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = withAdminAuth('lawyers.create', async (request: NextRequest, _context, admin) => {
+  try {
+    const body = await request.json().catch(() => null)
+    const validation = validateRequest(lawyerSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { ok: false, error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      )
+    }
+
+    const lawyer = await new LawyerService().createLawyer(validation.data)
+    if (!lawyer) {
+      return NextResponse.json({ ok: false, error: 'Failed to create lawyer' }, { status: 500 })
+    }
+
+    admin.setAuditDetails({ lawyerId: lawyer.id, name: lawyer.name })
+    return NextResponse.json({ ok: true, lawyer }, { status: 201 })
+  } catch (error: any) {
+    console.error('Error creating lawyer:', error)
+    return NextResponse.json(
+      { ok: false, error: error?.message || 'Failed to create lawyer' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth } from '@/lib/shared/utils/auth/admin-guard'
+import { UsageService } from '@/lib/shared/data/services/usage-service'
+
+export const dynamic = 'force-dynamic'
+
+const DEFAULT_DAYS = 30
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function daysAgo(days: number) {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+// Token usage and estimated cost per user and day: ?from=YYYY-MM-DD&to=YYYY-MM-DD&uid=...
+export const GET = withAdminAuth('usage.summary', async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const to = searchParams.get('to') || daysAgo(0)
+    const from = searchParams.get('from') || daysAgo(DEFAULT_DAYS - 1)
+    const uid = searchParams.get('uid') || undefined
+
+    if (!DAY_PATTERN.test(from) || !DAY_PATTERN.test(to) || from > to) {
+      return NextResponse.json(
+        { ok: false, error: 'from and to must be YYYY-MM-DD dates with from <= to' },
+        { status: 400 }
+      )
+    }
+
+    const days = await new UsageService().summarize({ from, to, uid })
+    const totals = days.reduce(
+      (sum, day) => ({
+        requests: sum.requests + day.requests,
+        total: sum.total + day.total,
+        usd: sum.usd + day.cost.usd,
+        chf: sum.chf + day.cost.chf,
+      }),
+      { requests: 0, total: 0, usd: 0, chf: 0 }
+    )
+
+    return NextResponse.json({
+      ok: true,
+      from,
+      to,
+      days,
+      totals: {
+        requests: totals.requests,
+        tokens: totals.total,
+        cost: { usd: Math.round(totals.usd * 10_000) / 10_000, chf: Math.round(totals.chf * 10_000) / 10_000 },
+      },
+    })
+  } catch (error: any) {
+    console.error('Error summarising token usage:', error)
+    return NextResponse.json(
+      { ok: false, error: error?.message || 'Failed to summarise token usage' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,14 +1,80 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { SwissLegalService } from '@/lib/features/chat/data/services/swiss-legal-service'
 import { ChatConversationService } from '@/lib/features/chat/data/services/chat-conversation-service'
+import { UsageService } from '@/lib/shared/data/services/usage-service'
+import type { RAGResponse } from '@/lib/shared/data/services/base-rag-service'
+import { StreamingResponse } from '@/lib/shared/utils/streaming'
+import { validateFirebaseToken } from '@/lib/shared/utils/auth/firebase-auth'
+import { resolveQuestionLanguage } from '@/lib/shared/utils/language-detection'
+import { assessSafety } from '@/lib/shared/data/safety/safety-checker'
 import type { AssistantResponseV2 } from '@/lib/shared/types/llm-response'
 import type { ChatMessageRequest, ChatMessageResponse } from '@/lib/features/chat/data/types/chat-types'
 
-export async function POST(request: NextRequest): Promise<NextResponse<ChatMessageResponse>> {
+// Convert RAG response to AssistantResponseV2 format, with the safety notices for the question
+function toResponseV2(ragResponse: RAGResponse, question: string): AssistantResponseV2 {
+  const safety = assessSafety({
+    question,
+    answer: ragResponse.answer,
+    language: ragResponse.language,
+    legalAnswer: ragResponse.sources.length > 0
+  })
+  const lawyerRecommendations = ragResponse.lawyerRecommendations || []
+
+  return {
+    status: 'complete',
+    message: {
+      textMd: ragResponse.answer,
+      blocks: ragResponse.blocks,
+      language: ragResponse.language
+    },
+    citations: ragResponse.citations,
+    sources: ragResponse.sources,
+    followUps: ragResponse.followUps,
+    metrics: ragResponse.metrics,
+    ...(safety && { safety }),
+    ...(lawyerRecommendations.length > 0 && { lawyerRecommendations })
+  }
+}
+
+// Saves the answer with its metrics and books its token usage to the user
+async function saveAssistantMessage(
+  conversationService: ChatConversationService,
+  userId: string,
+  conversationId: string,
+  responseV2: AssistantResponseV2
+) {
+  const saved = await conversationService.addMessage({
+    conversation_id: conversationId,
+    role: 'assistant',
+    content: responseV2.message.textMd,
+    sources: responseV2.sources,
+    confidence: responseV2.metrics.confidence,
+    citations: responseV2.citations,
+    follow_ups: responseV2.followUps,
+    metrics: responseV2.metrics,
+    response_version: 2,
+    language: responseV2.message.language,
+    blocks: responseV2.message.blocks,
+    safety: responseV2.safety,
+    lawyer_recommendations: responseV2.lawyerRecommendations
+  })
+  await new UsageService().record(userId, conversationId, saved?.id || null, responseV2.metrics)
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<ChatMessageResponse> | Response> {
   try {
+    const auth = await validateFirebaseToken(request)
+    if (!auth.user) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Unauthorized' 
+      }, { status: 401 })
+    }
+    const userId = auth.user.id
+
     // Parse request body directly
     const body: ChatMessageRequest = await request.json()
-    const { message, conversationId } = body
+    const { message, conversationId, stream = false } = body
 
     // Add debugging to track conversation ID flow
     console.log('Received request:', { 
@@ -24,26 +90,34 @@ export async function POST(request: NextRequest): Promise<NextResponse<ChatMessa
       }, { status: 400 })
     }
 
-    // Initialize Swiss Legal Service (OpenAI)
+    // Initialize Swiss Legal Service (provider comes from LLM_PROVIDER)
     const legalService = new SwissLegalService({
-      llmModel: process.env.OPENAI_LLM_MODEL || 'gpt-4o-mini',
-      embedModel: process.env.OPENAI_EMBED_MODEL || 'text-embedding-3-small',
+      llmModel: process.env.LLM_MODEL || process.env.OPENAI_LLM_MODEL || 'gpt-4o-mini',
+      embedModel: process.env.EMBED_MODEL || process.env.OPENAI_EMBED_MODEL || 'text-embedding-3-small',
       pineconeApiKey: process.env.PINECONE_API_KEY || '',
       indexName: process.env.PINECONE_INDEX || 'swiss-legal-openai-1536',
       domainKeywords: [],
       domainName: 'Swiss Legal System',
-      documentPath: './public/docs/swiss_legal.pdf',
       chunkSize: 1200,
       chunkOverlap: 300
     })
 
     // Get or create conversation
+    const conversationService = new ChatConversationService()
     let currentConversationId = conversationId
-    if (!currentConversationId) {
+    if (currentConversationId) {
+      // Never let a caller append to someone else's conversation
+      const conversation = await conversationService.getConversationForUser(currentConversationId, userId)
+      if (!conversation) {
+        return NextResponse.json({ 
+          success: false, 
+          error: 'Conversation not found' 
+        }, { status: 404 })
+      }
+    } else {
       console.log('Creating new conversation - conversationId was:', conversationId)
-      const conversationService = new ChatConversationService()
       const conversation = await conversationService.createConversation(
-        'anonymous-user', // Use anonymous user for now
+        userId,
         message.substring(0, 50) + (message.length > 50 ? '...' : '')
       )
 
@@ -62,7 +136,6 @@ export async function POST(request: NextRequest): Promise<NextResponse<ChatMessa
 
     // Fetch conversation messages BEFORE saving the current message
     let conversationMessages: any[] = []
-    const conversationService = new ChatConversationService()
     if (currentConversationId) {
       try {
         const messagesResponse = await conversationService.getMessagesByConversationId(currentConversationId)
@@ -86,40 +159,45 @@ export async function POST(request: NextRequest): Promise<NextResponse<ChatMessa
     await conversationService.addMessage({
       conversation_id: currentConversationId,
       role: 'user',
-      content: message
+      content: message,
+      language: resolveQuestionLanguage(message, conversationMessages)
     })
 
     console.log('Conversation messages:', conversationMessages.length)
     console.log('Conversation messages:', conversationMessages)
 
+    // Stream tokens over SSE as the LLM produces them
+    if (stream) {
+      const streamConversationId = currentConversationId
+      const sseStream = StreamingResponse.createStream(async (writer) => {
+        writer.metadata({ conversationId: streamConversationId })
+
+        const ragResponse = await legalService.query(message, conversationMessages, {
+          onToken: writer.token,
+          onMetadata: (metadata) => writer.metadata({ conversationId: streamConversationId, ...metadata })
+        })
+
+        // An answer the user never received is neither saved nor billed
+        if (writer.aborted) {
+          console.log(`Client disconnected; answer in conversation ${streamConversationId} not saved`)
+          return
+        }
+
+        const responseV2 = toResponseV2(ragResponse, message)
+        await saveAssistantMessage(conversationService, userId, streamConversationId, responseV2)
+        writer.complete(responseV2)
+      })
+
+      return StreamingResponse.toResponse(sseStream)
+    }
+
     // Process the RAG query
     try {
       const ragResponse = await legalService.query(message, conversationMessages)
-      
-      // Convert RAG response to AssistantResponseV2 format
-      const responseV2: AssistantResponseV2 = {
-        status: 'complete',
-        message: {
-          textMd: ragResponse.answer
-        },
-        citations: ragResponse.citations,
-        sources: ragResponse.sources,
-        followUps: ragResponse.followUps,
-        metrics: ragResponse.metrics
-      }
+      const responseV2 = toResponseV2(ragResponse, message)
 
       // Save AI response with v2 format
-      await conversationService.addMessage({
-        conversation_id: currentConversationId,
-        role: 'assistant',
-        content: responseV2.message.textMd,
-        sources: responseV2.sources,
-        confidence: responseV2.metrics.confidence,
-        citations: responseV2.citations,
-        follow_ups: responseV2.followUps,
-        metrics: responseV2.metrics,
-        response_version: 2
-      })
+      await saveAssistantMessage(conversationService, userId, currentConversationId, responseV2)
 
       // Return the response with proper typing
       const response: ChatMessageResponse = {
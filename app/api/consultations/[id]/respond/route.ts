@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ConsultationService, canTransition } from '@/lib/features/consultations/data/services/consultation-service'
+import { consultationResponseSchema } from '@/lib/shared/validations'
+import { validateRequestBody, isValidationSuccess } from '@/lib/shared/utils/validation'
+
+// The lawyer's side: no account, the secret token from their email authorises them
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const token = request.nextUrl.searchParams.get('token') || ''
+    const consultationService = new ConsultationService()
+    const consultation = token ? await consultationService.getRequestByToken(id, token) : null
+    if (!consultation) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+    }
+    return NextResponse.json({ request: consultationService.toResponseView(consultation) })
+  } catch (error) {
+    console.error('Error fetching consultation request:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const validation = await validateRequestBody(request, consultationResponseSchema)
+    if (!isValidationSuccess(validation)) {
+      return validation
+    }
+
+    const { id } = await params
+    const { token, status, reply } = validation.data
+    const consultationService = new ConsultationService()
+    const consultation = await consultationService.getRequestByToken(id, token)
+    if (!consultation) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+    }
+    if (!canTransition(consultation.status, status)) {
+      return NextResponse.json({ error: `The request is already ${consultation.status}` }, { status: 409 })
+    }
+
+    const updated = await consultationService.setStatus(id, status, reply)
+    if (!updated) {
+      return NextResponse.json({ error: 'Failed to update request' }, { status: 500 })
+    }
+    return NextResponse.json({ request: consultationService.toResponseView(updated) })
+  } catch (error) {
+    console.error('Error responding to consultation request:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ConsultationService, canTransition } from '@/lib/features/consultations/data/services/consultation-service'
+import { validateFirebaseToken } from '@/lib/shared/utils/auth/firebase-auth'
+import { consultationUpdateSchema } from '@/lib/shared/validations'
+import { validateRequestBody, isValidationSuccess } from '@/lib/shared/utils/validation'
+
+// Closes the user's own request
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await validateFirebaseToken(request)
+    if (!auth.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const validation = await validateRequestBody(request, consultationUpdateSchema)
+    if (!isValidationSuccess(validation)) {
+      return validation
+    }
+
+    const { id } = await params
+    const consultationService = new ConsultationService()
+    const consultation = await consultationService.getRequestForUser(id, auth.user.id)
+    if (!consultation) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+    }
+    if (!canTransition(consultation.status, validation.data.status)) {
+      return NextResponse.json({ error: `A ${consultation.status} request can't be closed` }, { status: 409 })
+    }
+
+    const updated = await consultationService.setStatus(id, validation.data.status)
+    if (!updated) {
+      return NextResponse.json({ error: 'Failed to update request' }, { status: 500 })
+    }
+    return NextResponse.json({ request: consultationService.toListItem(updated) })
+  } catch (error) {
+    console.error('Error updating consultation request:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ConsultationService } from '@/lib/features/consultations/data/services/consultation-service'
+import { LawyerService } from '@/lib/features/chat/data/services/lawyer-service'
+import { ChatConversationService } from '@/lib/features/chat/data/services/chat-conversation-service'
+import { validateFirebaseToken } from '@/lib/shared/utils/auth/firebase-auth'
+import { consultationRequestSchema } from '@/lib/shared/validations'
+import { validateRequestBody, isValidationSuccess } from '@/lib/shared/utils/validation'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await validateFirebaseToken(request)
+    if (!auth.user) {
+      return NextResponse.json({ requests: [], error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const consultationService = new ConsultationService()
+    const requests = await consultationService.getRequestsForUser(auth.user.id)
+    return NextResponse.json({ requests: requests.map(item => consultationService.toListItem(item)) })
+  } catch (error) {
+    console.error('Error fetching consultation requests:', error)
+    return NextResponse.json({ requests: [], error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await validateFirebaseToken(request)
+    if (!auth.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const validation = await validateRequestBody(request, consultationRequestSchema)
+    if (!isValidationSuccess(validation)) {
+      return validation
+    }
+    const input = validation.data
+
+    const lawyerResult = await new LawyerService().getById(input.lawyerId)
+    const lawyer = lawyerResult.success ? lawyerResult.data : undefined
+    if (!lawyer || lawyer.active === false) {
+      return NextResponse.json({ error: 'Lawyer not found' }, { status: 404 })
+    }
+
+    if (input.conversationId) {
+      const conversation = await new ChatConversationService().getConversationForUser(input.conversationId, auth.user.id)
+      if (!conversation) {
+        return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+      }
+    }
+
+    const consultationService = new ConsultationService()
+    try {
+      const consultation = await consultationService.createRequest({
+        userId: auth.user.id,
+        userEmail: auth.user.email,
+        lawyer,
+        input,
+        // APP_URL when the app runs behind a proxy that changes the host
+        appUrl: process.env.APP_URL || request.nextUrl.origin
+      })
+      return NextResponse.json({ request: consultationService.toListItem(consultation) }, { status: 201 })
+    } catch (error) {
+      console.error('Error sending consultation request:', error)
+      return NextResponse.json({ error: 'Failed to notify the lawyer' }, { status: 502 })
+    }
+  } catch (error) {
+    console.error('Error creating consultation request:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { ChatConversationService } from '@/lib/features/chat/data/services/chat-conversation-service'
+import { ChatConversationService, fromStoredBlocks } from '@/lib/features/chat/data/services/chat-conversation-service'
+import { validateFirebaseToken } from '@/lib/shared/utils/auth/firebase-auth'
 import type { ConversationMessagesResponse } from '@/lib/features/chat/data/types/chat-types'
 
 export async function GET(
@@ -7,8 +8,18 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ): Promise<NextResponse<ConversationMessagesResponse>> {
   try {
+    const auth = await validateFirebaseToken(request)
+    if (!auth.user) {
+      return NextResponse.json({ messages: [], error: 'Unauthorized' }, { status: 401 })
+    }
+
     const { id: conversationId } = await params
     const conversationService = new ChatConversationService()
+    const conversation = await conversationService.getConversationForUser(conversationId, auth.user.id)
+    if (!conversation) {
+      return NextResponse.json({ messages: [], error: 'Conversation not found' }, { status: 404 })
+    }
+
     const messages = await conversationService.getMessagesByConversationId(conversationId)
 
     // Transform to API response format
@@ -22,6 +33,10 @@ export async function GET(
         follow_ups: msg.followUps || [],
         metrics: msg.metrics || { confidence: 0, processingTime: 0 },
         response_version: msg.responseVersion || 1,
+        language: msg.language || undefined,
+        blocks: msg.blocks ? fromStoredBlocks(msg.blocks) : undefined,
+        safety: msg.safety || undefined,
+        lawyer_recommendations: msg.lawyerRecommendations || undefined,
         created_at: msg.createdAt?.toISOString() || new Date().toISOString()
       }))
     }
@@ -1,13 +1,61 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { ChatConversationService } from '@/lib/features/chat/data/services/chat-conversation-service'
+import { validateFirebaseToken } from '@/lib/shared/utils/auth/firebase-auth'
+import type { ConversationResponse } from '@/lib/features/chat/data/types/chat-types'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ConversationResponse>> {
+  try {
+    const auth = await validateFirebaseToken(request)
+    if (!auth.user) {
+      return NextResponse.json({ conversation: null, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: conversationId } = await params
+    const conversationService = new ChatConversationService()
+    const conversation = await conversationService.getConversationForUser(conversationId, auth.user.id)
+    if (!conversation) {
+      return NextResponse.json({ conversation: null, error: 'Conversation not found' }, { status: 404 })
+    }
+
+    const response: ConversationResponse = {
+      conversation: {
+        id: conversation.id!,
+        title: conversation.title || 'Untitled Conversation',
+        created_at: conversation.createdAt?.toISOString() || new Date().toISOString(),
+        updated_at: conversation.updatedAt?.toISOString() || new Date().toISOString()
+      }
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error fetching conversation:', error)
+    return NextResponse.json(
+      { conversation: null, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
 
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await validateFirebaseToken(request)
+    if (!auth.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const { id: conversationId } = await params
     const conversationService = new ChatConversationService()
+    const conversation = await conversationService.getConversationForUser(conversationId, auth.user.id)
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
     const success = await conversationService.deleteConversation(conversationId)
 
     if (!success) {
@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { ChatConversationService } from '@/lib/features/chat/data/services/chat-conversation-service'
+import { validateFirebaseToken } from '@/lib/shared/utils/auth/firebase-auth'
 import type { ConversationListResponse, CreateConversationRequest, CreateConversationResponse } from '@/lib/features/chat/data/types/chat-types'
 
 export async function GET(request: NextRequest): Promise<NextResponse<ConversationListResponse>> {
   try {
+    const auth = await validateFirebaseToken(request)
+    if (!auth.user) {
+      return NextResponse.json({ conversations: [], error: 'Unauthorized' }, { status: 401 })
+    }
+
     const conversationService = new ChatConversationService()
-    const conversations = await conversationService.getConversationsByUserId('anonymous-user')
+    const conversations = await conversationService.getConversationsByUserId(auth.user.id)
 
     // Transform to API response format
     const response: ConversationListResponse = {
@@ -30,6 +36,11 @@ export async function GET(request: NextRequest): Promise<NextResponse<Conversati
 // Add POST method for creating conversations
 export async function POST(request: NextRequest): Promise<NextResponse<CreateConversationResponse>> {
   try {
+    const auth = await validateFirebaseToken(request)
+    if (!auth.user) {
+      return NextResponse.json({ conversation: null as any, error: 'Unauthorized' }, { status: 401 })
+    }
+
     const body: CreateConversationRequest = await request.json()
     const { title } = body
 
@@ -38,7 +49,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<CreateCon
     }
 
     const conversationService = new ChatConversationService()
-    const conversation = await conversationService.createConversation('anonymous-user', title)
+    const conversation = await conversationService.createConversation(auth.user.id, title)
 
     if (!conversation) {
       return NextResponse.json({ conversation: null as any }, { status: 500 })
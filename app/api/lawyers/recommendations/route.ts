@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { LawyerService } from '@/lib/features/chat/data/services/lawyer-service'
+import { lawyerRecommendationSchema } from '@/lib/shared/validations'
+import { validateRequestBody, isValidationSuccess } from '@/lib/shared/utils/validation'
+
+export async function POST(request: NextRequest) {
+  try {
+    const validation = await validateRequestBody(request, lawyerRecommendationSchema)
+    if (!isValidationSuccess(validation)) {
+      return validation
+    }
+
+    const lawyerService = new LawyerService()
+    const recommendations = await lawyerService.getRecommendations(validation.data)
+
+    return NextResponse.json({ recommendations })
+  } catch (error) {
+    console.error('Error recommending lawyers:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
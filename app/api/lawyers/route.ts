@@ -1,34 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { LawyerService } from '@/lib/features/chat/data/services/lawyer-service'
+import { findLocation } from '@/lib/shared/data/geo/swiss-locations'
 import { lawyerSearchSchema } from '@/lib/shared/validations'
 import { validateQueryParams, createValidationErrorResponse } from '@/lib/shared/utils/validation'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    
+
     // Validate query parameters
     const validation = validateQueryParams(searchParams, lawyerSearchSchema)
     if (!validation.success) {
       return createValidationErrorResponse(validation.errors)
     }
-    
-    const { q: query } = validation.data
-    
+
+    const search = validation.data
+
+    // Distances are measured from the city or postcode
+    const origin = findLocation(search) || undefined
+    if ((search.postcode || search.city) && !origin) {
+      return createValidationErrorResponse([{
+        field: search.postcode ? 'postcode' : 'city',
+        message: search.postcode ? 'Unknown Swiss postcode' : 'Unknown Swiss city'
+      }])
+    }
+
     const lawyerService = new LawyerService()
-    const lawyers = await lawyerService.getAllLawyers()
-    
-    // Filter lawyers based on query if provided
-    const filteredLawyers = query 
-      ? lawyers.filter(lawyer => 
-          lawyer.name.toLowerCase().includes(query.toLowerCase()) ||
-          lawyer.specialties.some(specialty => 
-            specialty.toLowerCase().includes(query.toLowerCase())
-          )
-        )
-      : lawyers
-    
-    return NextResponse.json({ lawyers: filteredLawyers })
+    const result = await lawyerService.searchLawyers({ ...search, origin })
+
+    return NextResponse.json({
+      ...result,
+      ...(origin && { origin: { postcode: origin.postcode, city: origin.locality, canton: origin.canton } })
+    })
   } catch (error) {
     console.error('Error fetching lawyers:', error)
     return NextResponse.json(
@@ -36,4 +39,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
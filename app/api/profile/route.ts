@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UserProfileService, type UserProfile } from '@/lib/shared/data/services/user-profile-service'
+import { validateFirebaseToken } from '@/lib/shared/utils/auth/firebase-auth'
+import { profileUpdateSchema } from '@/lib/shared/validations'
+import { validateRequestBody, isValidationSuccess } from '@/lib/shared/utils/validation'
+
+function toProfileResponse(profile: UserProfile | null) {
+  return {
+    username: profile?.username ?? null,
+    full_name: profile?.full_name ?? null,
+    avatar_url: profile?.avatar_url ?? null,
+    locale: profile?.locale ?? null
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await validateFirebaseToken(request)
+    if (!auth.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const profile = await new UserProfileService().getProfile(auth.user.id)
+    return NextResponse.json({ profile: toProfileResponse(profile) })
+  } catch (error) {
+    console.error('Error fetching profile:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await validateFirebaseToken(request)
+    if (!auth.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const validation = await validateRequestBody(request, profileUpdateSchema)
+    if (!isValidationSuccess(validation)) {
+      return validation
+    }
+
+    const profile = await new UserProfileService().updateProfile(auth.user.id, validation.data)
+    if (!profile) {
+      return NextResponse.json({ error: 'Failed to update profile' }, { status: 500 })
+    }
+
+    return NextResponse.json({ profile: toProfileResponse(profile) })
+  } catch (error) {
+    console.error('Error updating profile:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,7 +1,10 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { cookies, headers } from "next/headers";
 import "./globals.css";
 import { AuthProvider } from "@/lib/shared/hooks/use-auth";
+import { I18nProvider } from "@/lib/shared/hooks/use-i18n";
+import { LOCALE_COOKIE, isLocale, negotiateLocale } from "@/lib/shared/i18n";
 import { Toaster } from "sonner";
 
 const geistSans = Geist({
@@ -19,19 +22,27 @@ export const metadata: Metadata = {
   description: "Get personalized legal advice for Swiss law with AI-powered assistance and lawyer recommendations",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // The switcher's cookie, else the browser's languages; the profile takes over after sign-in
+  const cookieLocale = (await cookies()).get(LOCALE_COOKIE)?.value;
+  const locale = isLocale(cookieLocale)
+    ? cookieLocale
+    : negotiateLocale((await headers()).get("accept-language"));
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         <AuthProvider>
-          {children}
-          <Toaster richColors position="top-right" />
+          <I18nProvider initialLocale={locale}>
+            {children}
+            <Toaster richColors position="top-right" />
+          </I18nProvider>
         </AuthProvider>
       </body>
     </html>
@@ -0,0 +1,285 @@
+'use client'
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { Download, Pencil, Plus, Upload } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Sheet, SheetContent } from '@/components/ui/sheet'
+import { auth } from '@/lib/shared/core/config'
+import { cn } from '@/lib/shared/utils/cn'
+import type { Lawyer } from '@/lib/features/chat/data/services/lawyer-service'
+import { LawyerForm } from './lawyer-form'
+
+type ApiError = { field?: string; message: string; row?: number }
+
+// Calls an /api/admin route with the signed-in user's ID token
+async function adminFetch(path: string, init: RequestInit = {}) {
+  const token = await auth.currentUser?.getIdToken()
+  return fetch(path, {
+    ...init,
+    headers: { ...init.headers, ...(token && { Authorization: `Bearer ${token}` }) }
+  })
+}
+
+export function LawyerAdmin() {
+  const [lawyers, setLawyers] = useState<Lawyer[]>([])
+  const [loading, setLoading] = useState(true)
+  const [forbidden, setForbidden] = useState(false)
+  const [query, setQuery] = useState('')
+  // undefined: sheet closed, null: new lawyer
+  const [editing, setEditing] = useState<Lawyer | null | undefined>(undefined)
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+  const [importErrors, setImportErrors] = useState<ApiError[]>([])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const loadLawyers = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await adminFetch('/api/admin/lawyers')
+      if (response.status === 401 || response.status === 403) {
+        setForbidden(true)
+        return
+      }
+      const data = await response.json()
+      if (!data.ok) throw new Error(data.error)
+      setLawyers(data.lawyers)
+    } catch (error) {
+      console.error('Error loading lawyers:', error)
+      toast.error('Failed to load lawyers')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    // The ID token is only available once Firebase has restored the session
+    return auth.onAuthStateChanged((user) => {
+      if (user) loadLawyers()
+    })
+  }, [loadLawyers])
+
+  const filtered = useMemo(() => {
+    const normalized = query.trim().toLowerCase()
+    if (!normalized) return lawyers
+    return lawyers.filter((lawyer) =>
+      [lawyer.name, lawyer.email, lawyer.canton, lawyer.barRegistrationNumber, ...lawyer.specialties]
+        .some((value) => value?.toLowerCase().includes(normalized))
+    )
+  }, [lawyers, query])
+
+  const openEditor = (lawyer: Lawyer | null) => {
+    setFormErrors({})
+    setEditing(lawyer)
+  }
+
+  const saveLawyer = async (payload: Record<string, unknown>) => {
+    setSaving(true)
+    try {
+      const response = editing?.id
+        ? await adminFetch(`/api/admin/lawyers/${editing.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload)
+          })
+        : await adminFetch('/api/admin/lawyers', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload)
+          })
+      const data = await response.json()
+      if (!data.ok) {
+        const details: ApiError[] = data.details || []
+        setFormErrors(Object.fromEntries(details.map((detail) => [detail.field?.split('.')[0], detail.message])))
+        toast.error(data.error || 'Failed to save lawyer')
+        return
+      }
+      toast.success(editing?.id ? 'Lawyer updated' : 'Lawyer added')
+      setEditing(undefined)
+      await loadLawyers()
+    } catch (error) {
+      console.error('Error saving lawyer:', error)
+      toast.error('Failed to save lawyer')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setActive = async (lawyer: Lawyer, active: boolean) => {
+    const response = await adminFetch(`/api/admin/lawyers/${lawyer.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ active })
+    })
+    const data = await response.json().catch(() => ({ ok: false }))
+    if (!data.ok) {
+      toast.error(data.error || 'Failed to update lawyer')
+      return
+    }
+    setLawyers((prev) => prev.map((item) => (item.id === lawyer.id ? data.lawyer : item)))
+  }
+
+  const exportCsv = async () => {
+    const response = await adminFetch('/api/admin/lawyers/export')
+    if (!response.ok) {
+      toast.error('Failed to export lawyers')
+      return
+    }
+    const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'lawyers.csv'
+    const url = URL.createObjectURL(await response.blob())
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const importCsv = async (file: File) => {
+    setImportErrors([])
+    const response = await adminFetch('/api/admin/lawyers/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/csv' },
+      body: await file.text()
+    })
+    const data = await response.json().catch(() => ({ ok: false }))
+    if (!data.ok) {
+      setImportErrors(data.details || [])
+      toast.error(data.error || 'Failed to import lawyers')
+      return
+    }
+    toast.success(`Imported ${data.created} new and ${data.updated} updated lawyers`)
+    await loadLawyers()
+  }
+
+  if (forbidden) {
+    return <p className="p-8 text-center text-gray-600">Only administrators can manage the lawyer directory.</p>
+  }
+
+  return (
+    <div className="mx-auto max-w-6xl p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold text-gray-900">Lawyer directory</h1>
+          <p className="text-sm text-gray-500">
+            {lawyers.length} lawyers, {lawyers.filter((lawyer) => lawyer.active === false).length} inactive
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Input
+            placeholder="Search name, email, canton, specialty"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="w-64"
+          />
+          <Button variant="outline" onClick={exportCsv}>
+            <Download className="h-4 w-4" />
+            Export CSV
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4" />
+            Import CSV
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              e.target.value = ''
+              if (file) importCsv(file)
+            }}
+          />
+          <Button onClick={() => openEditor(null)}>
+            <Plus className="h-4 w-4" />
+            Add lawyer
+          </Button>
+        </div>
+      </div>
+
+      {importErrors.length > 0 && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+          <p className="font-medium">The import was rejected. Nothing was saved.</p>
+          <ul className="mt-1 list-disc pl-5">
+            {importErrors.slice(0, 20).map((error, index) => (
+              <li key={index}>
+                {error.row ? `Row ${error.row}` : 'Header'}, {error.field}: {error.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-md border bg-white">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="px-3 py-2 font-medium">Name</th>
+              <th className="px-3 py-2 font-medium">Location</th>
+              <th className="px-3 py-2 font-medium">Specialties</th>
+              <th className="px-3 py-2 font-medium">Languages</th>
+              <th className="px-3 py-2 font-medium">Bar no.</th>
+              <th className="px-3 py-2 font-medium">Status</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {loading && lawyers.length === 0 ? (
+              <tr><td colSpan={7} className="px-3 py-6 text-center text-gray-500">Loading lawyers...</td></tr>
+            ) : filtered.length === 0 ? (
+              <tr><td colSpan={7} className="px-3 py-6 text-center text-gray-500">No lawyers found</td></tr>
+            ) : (
+              filtered.map((lawyer) => {
+                const active = lawyer.active !== false
+                return (
+                  <tr key={lawyer.id} className={cn('border-t', !active && 'text-gray-400')}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium">{lawyer.name}</div>
+                      <div className="text-xs text-gray-500">{lawyer.email}</div>
+                    </td>
+                    <td className="px-3 py-2">{[lawyer.city, lawyer.canton].filter(Boolean).join(', ') || '–'}</td>
+                    <td className="px-3 py-2">{lawyer.specialties.join(', ')}</td>
+                    <td className="px-3 py-2 uppercase">{lawyer.languages.join(' ')}</td>
+                    <td className="px-3 py-2">{lawyer.barRegistrationNumber || '–'}</td>
+                    <td className="px-3 py-2">
+                      <Badge variant={active ? 'default' : 'secondary'}>{active ? 'Active' : 'Inactive'}</Badge>
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openEditor(lawyer)}>
+                          <Pencil className="h-3 w-3" />
+                          Edit
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setActive(lawyer, !active)}>
+                          {active ? 'Deactivate' : 'Activate'}
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <Sheet open={editing !== undefined} onOpenChange={(open) => !open && setEditing(undefined)}>
+        <SheetContent side="right" className="w-full max-w-md overflow-y-auto p-6">
+          <h2 className="mb-4 text-lg font-semibold">{editing?.id ? `Edit ${editing.name}` : 'Add lawyer'}</h2>
+          {editing !== undefined && (
+            <LawyerForm
+              key={editing?.id || 'new'}
+              lawyer={editing || undefined}
+              submitting={saving}
+              errors={formErrors}
+              onSubmit={saveLawyer}
+              onCancel={() => setEditing(undefined)}
+            />
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  )
+}
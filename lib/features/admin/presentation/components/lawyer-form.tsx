@@ -0,0 +1,183 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { CANTONS } from '@/lib/shared/types/canton'
+import { PRACTICE_AREAS } from '@/lib/shared/types/lawyer'
+import { LOCALES, LOCALE_LABELS } from '@/lib/shared/i18n'
+import type { Lawyer } from '@/lib/features/chat/data/services/lawyer-service'
+
+// Optional fields; cleared ones are sent as null when editing
+const OPTIONAL_FIELDS = [
+  'phone', 'website', 'photoUrl', 'address', 'postcode', 'city', 'barRegistrationNumber',
+  'availability', 'rating', 'reviewCount', 'experienceYears'
+] as const
+
+type FormValues = Record<'name' | 'email' | 'specialties' | 'canton' | typeof OPTIONAL_FIELDS[number], string> & {
+  languages: string[]
+  acceptsLegalAid: boolean
+  active: boolean
+}
+
+interface LawyerFormProps {
+  // Absent when creating a lawyer
+  lawyer?: Lawyer
+  submitting?: boolean
+  // Field errors from the API, keyed by field name
+  errors?: Record<string, string>
+  onSubmit: (payload: Record<string, unknown>) => void
+  onCancel: () => void
+}
+
+function toFormValues(lawyer?: Lawyer): FormValues {
+  const text = (value: unknown) => (value === undefined || value === null ? '' : String(value))
+  return {
+    name: text(lawyer?.name),
+    email: text(lawyer?.email),
+    specialties: (lawyer?.specialties || []).join(', '),
+    canton: text(lawyer?.canton),
+    languages: lawyer?.languages || [],
+    acceptsLegalAid: lawyer?.acceptsLegalAid === true,
+    active: lawyer?.active !== false,
+    ...Object.fromEntries(OPTIONAL_FIELDS.map((field) => [field, text(lawyer?.[field])]))
+  } as FormValues
+}
+
+const NUMBER_FIELDS = new Set(['rating', 'reviewCount', 'experienceYears'])
+
+export function LawyerForm({ lawyer, submitting, errors = {}, onSubmit, onCancel }: LawyerFormProps) {
+  const [values, setValues] = useState<FormValues>(() => toFormValues(lawyer))
+  const editing = Boolean(lawyer?.id)
+
+  const set = (field: keyof FormValues, value: FormValues[keyof FormValues]) =>
+    setValues((prev) => ({ ...prev, [field]: value }))
+
+  const toggleLanguage = (language: string) =>
+    set('languages', values.languages.includes(language)
+      ? values.languages.filter((code) => code !== language)
+      : [...values.languages, language])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const payload: Record<string, unknown> = {
+      name: values.name,
+      email: values.email,
+      specialties: values.specialties.split(',').map((item) => item.trim()).filter(Boolean),
+      canton: values.canton,
+      languages: values.languages,
+      acceptsLegalAid: values.acceptsLegalAid,
+      active: values.active
+    }
+    for (const field of OPTIONAL_FIELDS) {
+      const value = values[field].trim()
+      if (value) payload[field] = NUMBER_FIELDS.has(field) ? Number(value) : value
+      else if (editing) payload[field] = null
+    }
+    onSubmit(payload)
+  }
+
+  const field = (name: typeof OPTIONAL_FIELDS[number] | 'name' | 'email', label: string, type = 'text') => (
+    <div className="grid gap-1">
+      <Label htmlFor={`lawyer-${name}`}>{label}</Label>
+      <Input
+        id={`lawyer-${name}`}
+        type={type}
+        step={type === 'number' ? 'any' : undefined}
+        value={values[name]}
+        aria-invalid={Boolean(errors[name])}
+        onChange={(e) => set(name, e.target.value)}
+      />
+      {errors[name] && <p className="text-xs text-red-600">{errors[name]}</p>}
+    </div>
+  )
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+      {field('name', 'Name')}
+      {field('email', 'Email', 'email')}
+      {field('phone', 'Phone', 'tel')}
+      {field('website', 'Website', 'url')}
+      {field('photoUrl', 'Photo URL', 'url')}
+
+      <div className="grid gap-1">
+        <Label htmlFor="lawyer-specialties">Specialties (comma-separated)</Label>
+        <Input
+          id="lawyer-specialties"
+          list="lawyer-practice-areas"
+          value={values.specialties}
+          aria-invalid={Boolean(errors.specialties)}
+          onChange={(e) => set('specialties', e.target.value)}
+        />
+        <datalist id="lawyer-practice-areas">
+          {PRACTICE_AREAS.map((area) => <option key={area} value={area} />)}
+        </datalist>
+        {errors.specialties && <p className="text-xs text-red-600">{errors.specialties}</p>}
+      </div>
+
+      <div className="grid gap-1">
+        <Label htmlFor="lawyer-canton">Canton</Label>
+        <select
+          id="lawyer-canton"
+          className="h-9 rounded-md border bg-transparent px-2 text-sm"
+          value={values.canton}
+          onChange={(e) => set('canton', e.target.value)}
+        >
+          <option value="">–</option>
+          {CANTONS.map((canton) => <option key={canton} value={canton}>{canton}</option>)}
+        </select>
+        {errors.canton && <p className="text-xs text-red-600">{errors.canton}</p>}
+      </div>
+
+      <fieldset className="grid gap-1">
+        <legend className="text-sm font-medium">Languages</legend>
+        <div className="flex flex-wrap gap-3">
+          {LOCALES.map((language) => (
+            <label key={language} className="flex items-center gap-1 text-sm">
+              <input
+                type="checkbox"
+                checked={values.languages.includes(language)}
+                onChange={() => toggleLanguage(language)}
+              />
+              {LOCALE_LABELS[language]}
+            </label>
+          ))}
+        </div>
+        {errors.languages && <p className="text-xs text-red-600">{errors.languages}</p>}
+      </fieldset>
+
+      {field('address', 'Address')}
+      <div className="grid grid-cols-[6rem_1fr] gap-2">
+        {field('postcode', 'Postcode')}
+        {field('city', 'City')}
+      </div>
+      {field('barRegistrationNumber', 'Bar registration number')}
+      {field('availability', 'Availability')}
+      {field('rating', 'Rating (0–5)', 'number')}
+      {field('reviewCount', 'Reviews', 'number')}
+      {field('experienceYears', 'Years of experience', 'number')}
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={values.acceptsLegalAid}
+          onChange={(e) => set('acceptsLegalAid', e.target.checked)}
+        />
+        Accepts legal aid cases
+      </label>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={values.active} onChange={(e) => set('active', e.target.checked)} />
+        Active (shown to users)
+      </label>
+
+      <div className="flex justify-end gap-2 pt-2">
+        <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button type="submit" disabled={submitting}>
+          {submitting ? 'Saving...' : editing ? 'Save changes' : 'Add lawyer'}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,11 @@
+import { LawyerAdmin } from '../components/lawyer-admin'
+import { ProtectedPageGuard } from '@/lib/shared/components/auth-guard'
+
+export default async function LawyerAdminPage() {
+  // Admin rights are checked by the /api/admin routes the page calls
+  return (
+    <ProtectedPageGuard>
+      <LawyerAdmin />
+    </ProtectedPageGuard>
+  )
+}
@@ -17,6 +17,8 @@ import { toast } from 'sonner'
 import { useAuth } from '@/lib/shared/hooks/use-auth'
 import { useAuthNavigation } from '@/lib/shared/hooks/use-navigation'
 import { setAuthCookie } from '@/lib/shared/utils/cookie-utils'
+import { LocaleSwitcher } from '@/lib/shared/components/locale-switcher'
+import { useTranslations } from '@/lib/shared/hooks/use-i18n'
 
 export function LoginForm({
   className,
@@ -29,6 +31,7 @@ export function LoginForm({
   const router = useRouter()
   const { refreshUser } = useAuth()
   const { navigateToChat } = useAuthNavigation()
+  const t = useTranslations('login')
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -38,7 +41,7 @@ export function LoginForm({
     try {
       // Check if Firebase is properly configured
       if (!auth) {
-        const errorMsg = 'Firebase is not properly configured. Please check your environment variables.'
+        const errorMsg = t('notConfigured')
         setError(errorMsg)
         toast.error(errorMsg)
         return
@@ -61,25 +64,25 @@ export function LoginForm({
         // Refresh the auth context to update the user state
         await refreshUser()
         
-        toast.success('Successfully signed in!')
+        toast.success(t('success'))
         
         // Use the custom navigation hook
         await navigateToChat()
       }
     } catch (err: any) {
       console.error('Login error:', err)
-      const errorMessage = err.message || 'An unexpected error occurred'
+      const errorMessage = err.message || t('unexpectedError')
       setError(errorMessage)
       
       // Show specific error messages
       if (err.code === 'auth/user-not-found') {
-        toast.error('No account found with this email address')
+        toast.error(t('userNotFound'))
       } else if (err.code === 'auth/wrong-password') {
-        toast.error('Incorrect password')
+        toast.error(t('wrongPassword'))
       } else if (err.code === 'auth/invalid-email') {
-        toast.error('Invalid email address')
+        toast.error(t('invalidEmail'))
       } else if (err.code === 'auth/too-many-requests') {
-        toast.error('Too many failed attempts. Please try again later')
+        toast.error(t('tooManyRequests'))
       } else {
         toast.error(errorMessage)
       }
@@ -92,9 +95,9 @@ export function LoginForm({
     <form className={cn("flex flex-col gap-6", className)} onSubmit={handleSubmit} {...props}>
       <FieldGroup>
         <div className="flex flex-col items-center gap-1 text-center">
-          <h1 className="text-2xl font-bold">Login to your account</h1>
+          <h1 className="text-2xl font-bold">{t('title')}</h1>
           <p className="text-muted-foreground text-sm text-balance">
-            Enter your email below to login to your account
+            {t('description')}
           </p>
         </div>
         
@@ -114,7 +117,7 @@ export function LoginForm({
         )}
         
         <Field>
-          <FieldLabel htmlFor="email">Email</FieldLabel>
+          <FieldLabel htmlFor="email">{t('email')}</FieldLabel>
           <Input 
             id="email" 
             type="email" 
@@ -127,12 +130,12 @@ export function LoginForm({
         </Field>
         <Field>
           <div className="flex items-center">
-            <FieldLabel htmlFor="password">Password</FieldLabel>
+            <FieldLabel htmlFor="password">{t('password')}</FieldLabel>
             <a
               href="#"
               className="ml-auto text-sm underline-offset-4 hover:underline"
             >
-              Forgot your password?
+              {t('forgotPassword')}
             </a>
           </div>
           <Input 
@@ -146,18 +149,21 @@ export function LoginForm({
         </Field>
         <Field>
           <Button type="submit" disabled={loading}>
-            {loading ? 'Signing in...' : 'Login'}
+            {loading ? t('submitting') : t('submit')}
           </Button>
         </Field>
         <FieldSeparator></FieldSeparator>
         <Field>
           <FieldDescription className="text-center">
-            Don&apos;t have an account?{" "}
+            {t('noAccount')}{" "}
             <a href="/signup" className="underline underline-offset-4">
-              Sign up
+              {t('signUp')}
             </a>
           </FieldDescription>
         </Field>
+        <Field>
+          <LocaleSwitcher className="justify-center" />
+        </Field>
       </FieldGroup>
     </form>
   )
@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button'
 import { useSearchParams, useRouter } from 'next/navigation'
 import { useState, useEffect } from 'react'
 import { Scale, Mail, ArrowLeft } from 'lucide-react'
+import { useTranslations } from '@/lib/shared/hooks/use-i18n'
 
 export function OTPVerificationForm() {
   const searchParams = useSearchParams()
@@ -17,6 +18,7 @@ export function OTPVerificationForm() {
   const [isLoading, setIsLoading] = useState(false)
   const [email, setEmail] = useState<string | null>(null)
   const [otpError, setOtpError] = useState<string | null>(null)
+  const t = useTranslations('otp')
 
   useEffect(() => {
     // Get email from URL params or try to get from current session
@@ -34,13 +36,13 @@ export function OTPVerificationForm() {
   const getErrorMessage = (errorCode: string) => {
     switch (errorCode) {
       case 'missing-token':
-        return 'Please enter the verification code.'
+        return t('missingToken')
       case 'invalid-token':
-        return 'Invalid verification code. Please try again.'
+        return t('invalidToken')
       case 'missing-email':
-        return 'Email address is missing.'
+        return t('missingEmail')
       case 'resend-failed':
-        return 'Failed to resend verification code. Please try again.'
+        return t('resendFailed')
       default:
         return null
     }
@@ -49,7 +51,7 @@ export function OTPVerificationForm() {
   const getSuccessMessage = (successCode: string) => {
     switch (successCode) {
       case 'otp-resent':
-        return 'Verification code has been resent to your email.'
+        return t('resent')
       default:
         return null
     }
@@ -67,10 +69,10 @@ export function OTPVerificationForm() {
     try {
       // Firebase doesn't have a direct resend OTP method for email verification
       // This would typically be handled by the backend or a custom implementation
-      setOtpError('Please check your email for the verification code.')
+      setOtpError(t('checkEmail'))
     } catch (error) {
       console.error('Error resending OTP:', error)
-      setOtpError('Failed to resend verification code. Please try again.')
+      setOtpError(t('resendFailed'))
     } finally {
       setIsResending(false)
     }
@@ -93,11 +95,11 @@ export function OTPVerificationForm() {
         localStorage.setItem('firebase_token', firebaseToken)
         router.push('/chat')
       } else {
-        setOtpError('Please verify your email by clicking the link sent to your inbox.')
+        setOtpError(t('verifyByLink'))
       }
     } catch (error) {
       console.error('OTP verification error:', error)
-      setOtpError('Verification failed. Please try again.')
+      setOtpError(t('verificationFailed'))
     } finally {
       setIsLoading(false)
     }
@@ -118,13 +120,13 @@ export function OTPVerificationForm() {
             <CardContent className="p-6">
               <div className="text-center space-y-4">
                 <div className="bg-red-50 text-red-600 p-3 rounded-lg">
-                  <p>Email address is required for verification.</p>
+                  <p>{t('emailRequired')}</p>
                 </div>
                 <Button 
                   onClick={() => router.push('/login')}
                   className="w-full"
                 >
-                  Back to Login
+                  {t('backToLogin')}
                 </Button>
               </div>
             </CardContent>
@@ -154,10 +156,10 @@ export function OTPVerificationForm() {
               </div>
             </div>
             <CardTitle className="text-2xl text-center font-semibold">
-              Verify your email
+              {t('title')}
             </CardTitle>
             <p className="text-sm text-secondary-foreground text-center">
-              We've sent a 6-digit verification code to
+              {t('sentTo')}
             </p>
             <p className="text-sm font-medium text-center text-primary">
               {email}
@@ -179,7 +181,7 @@ export function OTPVerificationForm() {
             <form className="space-y-4" action={handleVerifyOTP}>
               <div className="space-y-2">
                 <label htmlFor="token" className="text-sm font-medium">
-                  Verification Code
+                  {t('codeLabel')}
                 </label>
                 <Input 
                   id="token" 
@@ -192,7 +194,7 @@ export function OTPVerificationForm() {
                   disabled={isLoading}
                 />
                 <p className="text-xs text-muted-foreground text-center">
-                  Enter the 6-digit code from your email
+                  {t('codeHint')}
                 </p>
               </div>
               
@@ -202,7 +204,7 @@ export function OTPVerificationForm() {
                 size="lg"
                 disabled={isLoading}
               >
-                {isLoading ? 'Verifying...' : 'Verify Email'}
+                {isLoading ? t('verifying') : t('verify')}
               </Button>
             </form>
             
@@ -213,7 +215,7 @@ export function OTPVerificationForm() {
                 </div>
                 <div className="relative flex justify-center text-xs uppercase">
                   <span className="bg-background px-2 text-muted-foreground">
-                    Didn't receive the code?
+                    {t('noCode')}
                   </span>
                 </div>
               </div>
@@ -226,7 +228,7 @@ export function OTPVerificationForm() {
                   disabled={isResending}
                   className="w-full"
                 >
-                  {isResending ? 'Resending...' : 'Resend Code'}
+                  {isResending ? t('resending') : t('resend')}
                 </Button>
                 
                 <button
@@ -235,7 +237,7 @@ export function OTPVerificationForm() {
                   className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-primary transition-colors"
                 >
                   <ArrowLeft className="size-4" />
-                  Back to Login
+                  {t('backToLogin')}
                 </button>
               </div>
             </div>
@@ -18,6 +18,8 @@ import { toast } from 'sonner'
 import { useAuth } from '@/lib/shared/hooks/use-auth'
 import { useAuthNavigation } from '@/lib/shared/hooks/use-navigation'
 import { setAuthCookie } from '@/lib/shared/utils/cookie-utils'
+import { LocaleSwitcher } from '@/lib/shared/components/locale-switcher'
+import { useTranslations } from '@/lib/shared/hooks/use-i18n'
 
 export function SignupForm({
   className,
@@ -32,6 +34,7 @@ export function SignupForm({
   const router = useRouter()
   const { refreshUser } = useAuth()
   const { navigateToChat } = useAuthNavigation()
+  const t = useTranslations('signup')
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -54,22 +57,22 @@ export function SignupForm({
         // Refresh the auth context to update the user state
         await refreshUser()
         
-        toast.success('Account created successfully!')
+        toast.success(t('success'))
         
         // Use the custom navigation hook
         await navigateToChat()
       }
     } catch (err: any) {
-      const errorMessage = err.message || 'An unexpected error occurred'
+      const errorMessage = err.message || t('unexpectedError')
       setError(errorMessage)
       
       // Show specific error messages
       if (err.code === 'auth/email-already-in-use') {
-        toast.error('An account with this email already exists')
+        toast.error(t('emailInUse'))
       } else if (err.code === 'auth/invalid-email') {
-        toast.error('Invalid email address')
+        toast.error(t('invalidEmail'))
       } else if (err.code === 'auth/weak-password') {
-        toast.error('Password is too weak. Please choose a stronger password')
+        toast.error(t('weakPassword'))
       } else {
         toast.error(errorMessage)
       }
@@ -82,9 +85,9 @@ export function SignupForm({
     <form className={cn("flex flex-col gap-6", className)} onSubmit={handleSubmit} {...props}>
       <FieldGroup>
         <div className="flex flex-col items-center gap-1 text-center">
-          <h1 className="text-2xl font-bold">Create your account</h1>
+          <h1 className="text-2xl font-bold">{t('title')}</h1>
           <p className="text-muted-foreground text-sm text-balance">
-            Enter your details below to create your account
+            {t('description')}
           </p>
         </div>
 
@@ -95,11 +98,11 @@ export function SignupForm({
         )}
 
         <Field>
-          <FieldLabel htmlFor="fullName">Full Name</FieldLabel>
+          <FieldLabel htmlFor="fullName">{t('fullName')}</FieldLabel>
           <Input
             id="fullName"
             type="text"
-            placeholder="John Doe"
+            placeholder={t('fullNamePlaceholder')}
             value={fullName}
             onChange={(e) => setFullName(e.target.value)}
             required
@@ -108,7 +111,7 @@ export function SignupForm({
         </Field>
 
         <Field>
-          <FieldLabel htmlFor="username">Username</FieldLabel>
+          <FieldLabel htmlFor="username">{t('username')}</FieldLabel>
           <Input
             id="username"
             type="text"
@@ -121,7 +124,7 @@ export function SignupForm({
         </Field>
 
         <Field>
-          <FieldLabel htmlFor="email">Email</FieldLabel>
+          <FieldLabel htmlFor="email">{t('email')}</FieldLabel>
           <Input
             id="email"
             type="email"
@@ -134,7 +137,7 @@ export function SignupForm({
         </Field>
 
         <Field>
-          <FieldLabel htmlFor="password">Password</FieldLabel>
+          <FieldLabel htmlFor="password">{t('password')}</FieldLabel>
           <Input
             id="password"
             type="password"
@@ -147,7 +150,7 @@ export function SignupForm({
 
         <Field>
           <Button type="submit" disabled={loading}>
-            {loading ? 'Creating account...' : 'Create account'}
+            {loading ? t('submitting') : t('submit')}
           </Button>
         </Field>
 
@@ -155,12 +158,15 @@ export function SignupForm({
         
         <Field>
           <FieldDescription className="text-center">
-            Already have an account?{" "}
+            {t('hasAccount')}{" "}
             <a href="/login" className="underline underline-offset-4">
-              Sign in
+              {t('signIn')}
             </a>
           </FieldDescription>
         </Field>
+        <Field>
+          <LocaleSwitcher className="justify-center" />
+        </Field>
       </FieldGroup>
     </form>
   )
@@ -4,9 +4,11 @@ import { AlertTriangle, Home, RefreshCw } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { useRouter } from 'next/navigation'
+import { useTranslations } from '@/lib/shared/hooks/use-i18n'
 
 export default function ErrorPage() {
   const router = useRouter()
+  const t = useTranslations('errorPage')
 
   const handleRefresh = () => {
     window.location.reload()
@@ -24,21 +26,21 @@ export default function ErrorPage() {
             <AlertTriangle className="h-6 w-6 text-red-600" />
           </div>
           <CardTitle className="text-2xl font-bold text-gray-900">
-            Something went wrong
+            {t('title')}
           </CardTitle>
         </CardHeader>
         <CardContent className="text-center space-y-4">
           <p className="text-gray-600">
-            We encountered an unexpected error. Please try again or contact support if the problem persists.
+            {t('description')}
           </p>
           <div className="flex flex-col sm:flex-row gap-3">
             <Button onClick={handleRefresh} variant="outline" className="flex-1">
               <RefreshCw className="h-4 w-4 mr-2" />
-              Try Again
+              {t('tryAgain')}
             </Button>
             <Button onClick={handleGoHome} className="flex-1">
               <Home className="h-4 w-4 mr-2" />
-              Go Home
+              {t('goHome')}
             </Button>
           </div>
         </CardContent>
@@ -0,0 +1,41 @@
+import type { CorpusDocument } from '@/lib/shared/types/corpus'
+
+// Documents ingested for the Swiss legal assistant. Entries whose file is
+// missing are skipped at ingestion time, so new laws can be registered
+// before their PDF is added to public/docs.
+export const SWISS_LEGAL_CORPUS: CorpusDocument[] = [
+  {
+    id: 'swiss-legal',
+    title: 'Swiss Legal Code',
+    language: 'de',
+    filePath: 'public/docs/swiss_legal.pdf',
+    jurisdiction: 'CH'
+  },
+  {
+    id: 'zgb',
+    title: 'Swiss Civil Code',
+    shortTitle: 'ZGB',
+    srNumber: '210',
+    language: 'de',
+    filePath: 'public/docs/zgb_de.pdf',
+    jurisdiction: 'CH'
+  },
+  {
+    id: 'or',
+    title: 'Swiss Code of Obligations',
+    shortTitle: 'OR',
+    srNumber: '220',
+    language: 'de',
+    filePath: 'public/docs/or_de.pdf',
+    jurisdiction: 'CH'
+  },
+  {
+    id: 'stgb',
+    title: 'Swiss Criminal Code',
+    shortTitle: 'StGB',
+    srNumber: '311.0',
+    language: 'de',
+    filePath: 'public/docs/stgb_de.pdf',
+    jurisdiction: 'CH'
+  }
+]
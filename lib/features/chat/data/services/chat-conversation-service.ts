@@ -1,6 +1,20 @@
 import { BaseAdminService } from '@/lib/shared/data/services/base_admin_service'
-import type { Citation, ResponseMetrics, EnhancedSource } from '@/lib/shared/types/llm-response'
-import type { Conversation, Message, AssistantResponseV2 } from '../types/chat-types'
+import type { Citation, ResponseMetrics, EnhancedSource, MessageBlock, SafetyInfo } from '@/lib/shared/types/llm-response'
+import type { LanguageCode } from '@/lib/shared/types/corpus'
+import type { LawyerRecommendation } from '@/lib/shared/types/lawyer'
+import type { Conversation, Message, AssistantResponseV2, StoredMessageBlock } from '../types/chat-types'
+
+export function toStoredBlocks(blocks: MessageBlock[]): StoredMessageBlock[] {
+  return blocks.map((block) =>
+    block.type === 'table' ? { ...block, rows: block.rows.map((cells) => ({ cells })) } : block
+  );
+}
+
+export function fromStoredBlocks(blocks: StoredMessageBlock[]): MessageBlock[] {
+  return blocks.map((block) =>
+    block.type === 'table' ? { ...block, rows: block.rows.map((row) => row.cells) } : block
+  );
+}
 
 export class ChatConversationService {
   private conversationService: BaseAdminService<Conversation>;
@@ -21,6 +35,14 @@ export class ChatConversationService {
     return result.success ? result.data || [] : [];
   }
 
+  // Null when the conversation doesn't exist or belongs to another user, so
+  // callers can answer both with the same 404
+  async getConversationForUser(conversationId: string, userId: string): Promise<Conversation | null> {
+    const result = await this.conversationService.getById(conversationId);
+    if (!result.success || !result.data) return null;
+    return result.data.userId === userId ? result.data : null;
+  }
+
   async updateConversationTitle(conversationId: string, title: string): Promise<Conversation | null> {
     const result = await this.conversationService.update(conversationId, { title });
     return result.success ? (result.data || null) : null;
@@ -36,6 +58,10 @@ export class ChatConversationService {
     follow_ups?: string[]
     metrics?: ResponseMetrics
     response_version?: number
+    language?: LanguageCode
+    blocks?: MessageBlock[]
+    safety?: SafetyInfo
+    lawyer_recommendations?: LawyerRecommendation[]
   }): Promise<Message | null> {
     const messagePayload: Omit<Message, 'id' | 'createdAt' | 'updatedAt'> = {
       conversationId: messageData.conversation_id,
@@ -46,7 +72,11 @@ export class ChatConversationService {
       citations: messageData.citations || null,
       followUps: messageData.follow_ups || null,
       metrics: messageData.metrics || null,
-      responseVersion: messageData.response_version || 1
+      responseVersion: messageData.response_version || 1,
+      language: messageData.language || null,
+      blocks: messageData.blocks ? toStoredBlocks(messageData.blocks) : null,
+      safety: messageData.safety || null,
+      lawyerRecommendations: messageData.lawyer_recommendations || null
     };
 
     const result = await this.messageService.create(messagePayload);
@@ -69,7 +99,11 @@ export class ChatConversationService {
       citations: response.citations || null,
       followUps: response.followUps || null,
       metrics: response.metrics || null,
-      responseVersion: 2
+      responseVersion: 2,
+      language: response.message.language || null,
+      blocks: response.message.blocks ? toStoredBlocks(response.message.blocks) : null,
+      safety: response.safety || null,
+      lawyerRecommendations: response.lawyerRecommendations || null
     };
 
     const result = await this.messageService.create(messagePayload);
@@ -0,0 +1,75 @@
+import { Document } from '@langchain/core/documents'
+import type { IngestionProgress, IngestionStage } from '@/lib/shared/data/services/base-rag-service'
+import type { IngestionJob, IngestionJobService } from '@/lib/shared/data/services/ingestion-job-service'
+import { SwissLegalService } from './swiss-legal-service'
+
+// Indexed by test-mode jobs instead of the registered PDFs
+const TEST_DOCUMENTS = [
+  new Document({
+    pageContent: `Swiss Civil Code (ZGB) - Article 1: Sources of Law\n\nThe law governs all matters for which it contains a provision either in its wording or according to its proper meaning.`,
+    metadata: { source: 'Swiss Civil Code', page: 1, section: 'General Provisions' }
+  })
+]
+
+function requireEnv(name: string) {
+  const v = process.env[name]
+  if (!v) throw new Error(`Missing required env var: ${name}`)
+  return v
+}
+
+// Models come from the environment; index, store and chunking from the job
+function createLegalService(job: IngestionJob): SwissLegalService {
+  const embeddingProvider = process.env.EMBEDDING_PROVIDER || process.env.LLM_PROVIDER || 'openai'
+  if (embeddingProvider === 'openai') requireEnv('OPENAI_API_KEY')
+  const vectorStore = job.vectorStore === 'local' ? 'local' : 'pinecone'
+
+  return new SwissLegalService({
+    llmModel: process.env.LLM_MODEL || process.env.OPENAI_LLM_MODEL || 'gpt-4o-mini',
+    embedModel: process.env.EMBED_MODEL || process.env.OPENAI_EMBED_MODEL || 'text-embedding-3-small',
+    pineconeApiKey: vectorStore === 'pinecone' ? requireEnv('PINECONE_API_KEY') : '',
+    indexName: job.indexName,
+    domainKeywords: [],
+    domainName: 'Swiss Legal System',
+    chunkSize: job.request.chunkSize,
+    chunkOverlap: job.request.chunkOverlap,
+    vectorStore
+  })
+}
+
+/**
+ * Runs a job claimed with IngestionJobService.claimNextJob to the end and
+ * records its progress and outcome on it. Failures end up on the job, so this
+ * never throws.
+ */
+export async function runIngestionJob(jobService: IngestionJobService, job: IngestionJob): Promise<void> {
+  const jobId = job.id!
+  let currentStage: IngestionStage | null = null
+
+  try {
+    const legalService = createLegalService(job)
+    const onProgress = async (progress: IngestionProgress) => {
+      currentStage = progress.stage
+      await jobService.updateProgress(jobId, progress)
+    }
+
+    const result = job.request.mode === 'pdf'
+      ? await legalService.processDocument(undefined, {
+          documentIds: job.request.documentIds ?? undefined,
+          force: job.request.force,
+          onProgress
+        })
+      : await legalService.processDocument(TEST_DOCUMENTS, { force: job.request.force, onProgress })
+
+    if (result.success) {
+      await jobService.markSucceeded(jobId, result.stats)
+    } else {
+      await jobService.markFailed(jobId, { message: result.message, stage: currentStage })
+    }
+  } catch (error) {
+    console.error(`Ingestion job ${jobId} failed:`, error)
+    await jobService.markFailed(jobId, {
+      message: error instanceof Error ? error.message : 'Ingestion failed',
+      stage: currentStage
+    })
+  }
+}
@@ -1,33 +1,49 @@
+import { admin } from '@/lib/shared/core/admin-config'
 import { BaseAdminService } from '@/lib/shared/data/services/base_admin_service'
+import { distanceKm, findByLocality, findByPostcode, type SwissLocation } from '@/lib/shared/data/geo/swiss-locations'
+import { parseCsv, toCsv, unescapeFormula } from '@/lib/shared/utils/csv'
+import type { ValidationError } from '@/lib/shared/utils/validation'
+import { lawyerSchema, type LawyerInput, type LawyerSearchInput, type LawyerUpdateInput } from '@/lib/shared/validations/lawyers'
+import type { Canton } from '@/lib/shared/types/canton'
+import type { LanguageCode } from '@/lib/shared/types/corpus'
+import type { LawyerRecommendation, PracticeArea } from '@/lib/shared/types/lawyer'
 
-interface Lawyer {
+// A document in the `lawyers` collection
+export interface Lawyer {
   id?: string;
   name: string;
   email: string;
   phone?: string;
   website?: string;
+  photoUrl?: string;
+  // Lowercase practice areas from PRACTICE_AREAS, e.g. "family law", "criminal law"
   specialties: string[];
+  canton?: Canton;
+  address?: string;
+  // Four-digit Swiss postcode of the office; locates the lawyer for distance search
+  postcode?: string;
+  city?: string;
+  // Free-text location, kept for entries without an address
   location?: string;
-  languages: string[];
+  languages: LanguageCode[];
+  barRegistrationNumber?: string;
+  availability?: string;
   rating?: number;
+  reviewCount?: number;
   experienceYears?: number;
+  // Takes cases under legal aid (unentgeltliche Rechtspflege)
+  acceptsLegalAid?: boolean;
+  // Inactive lawyers stay in the directory but are hidden from users; missing means active
+  active?: boolean;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-export interface LawyerRecommendation {
-  id: string
-  name: string
-  specialties: string[]
-  rating: number
-  phone?: string
-  email?: string
-  address?: string
-  availability?: string
-  experience?: string
-  languages?: string[]
-  relevanceScore: number
-  matchReasons: string[]
+export interface LawyerImportResult {
+  created: number
+  updated: number
+  // Nothing is written when any row is invalid or the write fails. Rows count from 1 below the header, which is row 0.
+  errors: Array<ValidationError & { row: number }>
 }
 
 export interface RecommendationRequest {
@@ -40,6 +56,50 @@ export interface RecommendationRequest {
     userQuestion?: string
   }>
   userQuestion: string
+  // Practice areas already known, e.g. from the model's referral; added to those detected in the text
+  practiceAreas?: string[]
+  canton?: Canton
+  // Only lawyers who speak this language
+  language?: LanguageCode
+  specialty?: string
+  limit?: number
+}
+
+export interface LawyerSearchRequest extends LawyerSearchInput {
+  // The resolved city or postcode; distances are measured from here
+  origin?: SwissLocation
+}
+
+export interface LawyerSearchResult {
+  // Distance from the origin, when one is given
+  lawyers: Array<Lawyer & { distanceKm?: number }>
+  total: number
+  page: number
+  pageSize: number
+}
+
+const DEFAULT_RECOMMENDATION_LIMIT = 5
+const DEFAULT_SEARCH_RADIUS_KM = 25
+const DEFAULT_SEARCH_PAGE_SIZE = 20
+
+// Column order of the CSV export; the import accepts them in any order
+const CSV_COLUMNS = [
+  'id', 'name', 'email', 'phone', 'website', 'photoUrl', 'specialties', 'canton', 'address', 'postcode', 'city',
+  'languages', 'barRegistrationNumber', 'availability', 'rating', 'reviewCount', 'experienceYears',
+  'acceptsLegalAid', 'active'
+] as const
+const CSV_REQUIRED_COLUMNS = ['name', 'email', 'specialties', 'canton', 'languages'] as const
+// Separates specialties and languages within a cell, whichever delimiter the file uses
+const CSV_LIST_SEPARATOR = '|'
+// Firestore's limit of writes per batch; an import is written in one batch
+const CSV_MAX_ROWS = 500
+
+// Why Firestore would reject the id as a document id, or null when it is fine
+function documentIdError(id: string): string | null {
+  if (id.includes('/')) return 'Id must not contain "/"'
+  if (id === '.' || id === '..' || /^__.*__$/.test(id)) return 'Id is reserved by Firestore'
+  if (Buffer.byteLength(id, 'utf8') > 1500) return 'Id must be at most 1500 bytes'
+  return null
 }
 
 export class LawyerService extends BaseAdminService<Lawyer> {
@@ -47,139 +107,304 @@ export class LawyerService extends BaseAdminService<Lawyer> {
     super('lawyers')
   }
 
+  // Throws when the directory can't be read, so callers can tell a failed query from no matches
   async getRecommendations(request: RecommendationRequest): Promise<LawyerRecommendation[]> {
-    try {
-      // Return sample lawyer recommendations
-      const sampleLawyers = [
-        {
-          id: '1',
-          name: 'Dr. Markus Weber',
-          specialties: ['family law', 'divorce', 'child custody'],
-          rating: 4.8,
-          phone: '+41 44 123 4567',
-          email: 'markus.weber@law.ch',
-          address: 'Bahnhofstrasse 1, 8001 Zürich',
-          availability: 'Mon-Fri 9:00-17:00',
-          experience: '15+ years',
-          languages: ['German', 'English', 'French'],
-          image: null,
-          location: 'Zurich, Switzerland',
-          relevanceScore: 4.5,
-          matchReasons: ['Specializes in family law', 'High customer rating']
-        },
-        {
-          id: '2',
-          name: 'Maria Rodriguez',
-          specialties: ['family law', 'adoption', 'domestic violence'],
-          rating: 4.6,
-          phone: '+41 44 234 5678',
-          email: 'maria.rodriguez@law.ch',
-          address: 'Rue du Rhône 10, 1204 Genève',
-          availability: 'Mon-Fri 8:30-18:00',
-          experience: '12+ years',
-          languages: ['French', 'Spanish', 'English'],
-          image: null,
-          location: 'Geneva, Switzerland',
-          relevanceScore: 4.2,
-          matchReasons: ['Specializes in family law', 'Extensive experience']
-        },
-        {
-          id: '3',
-          name: 'Thomas Schmidt',
-          specialties: ['real estate law', 'property disputes', 'construction law'],
-          rating: 4.5,
-          phone: '+41 44 345 6789',
-          email: 'thomas.schmidt@law.ch',
-          address: 'Limmatquai 2, 8001 Zürich',
-          availability: 'Mon-Fri 9:00-17:30',
-          experience: '18+ years',
-          languages: ['German', 'English'],
-          image: null,
-          location: 'Zurich, Switzerland',
-          relevanceScore: 3.8,
-          matchReasons: ['Specializes in real estate law']
-        },
-        {
-          id: '4',
-          name: 'Anna Müller',
-          specialties: ['criminal law', 'traffic violations', 'employment law'],
-          rating: 4.6,
-          phone: '+41 44 456 7890',
-          email: 'anna.mueller@law.ch',
-          address: 'Bundesplatz 1, 3000 Bern',
-          availability: 'Mon-Fri 8:00-18:00',
-          experience: '14+ years',
-          languages: ['German', 'French', 'Italian'],
-          image: null,
-          location: 'Bern, Switzerland',
-          relevanceScore: 4.0,
-          matchReasons: ['Specializes in criminal law', 'High customer rating']
-        },
-        {
-          id: '5',
-          name: 'Pierre Dubois',
-          specialties: ['corporate law', 'contracts', 'business law'],
-          rating: 4.9,
-          phone: '+41 44 567 8901',
-          email: 'pierre.dubois@law.ch',
-          address: 'Place de la Gare 1, 1003 Lausanne',
-          availability: 'Mon-Fri 9:00-17:00',
-          experience: '20+ years',
-          languages: ['French', 'English', 'German'],
-          image: null,
-          location: 'Lausanne, Switzerland',
-          relevanceScore: 4.7,
-          matchReasons: ['Specializes in corporate law', 'High customer rating', 'Extensive experience']
+    // Canton is the only filter Firestore applies; language and specialty are matched below
+    const lawyers = await this.fetchLawyers(request.canton)
+
+    const topics = [...new Set([
+      ...(request.practiceAreas || []).map(area => area.toLowerCase()),
+      ...this.extractLegalTopics(request.conversationHistory, request.userQuestion)
+    ])]
+    const specialty = request.specialty?.toLowerCase()
+    if (specialty && !topics.includes(specialty)) {
+      topics.unshift(specialty)
+    }
+
+    const candidates = lawyers.filter(lawyer =>
+      this.isActive(lawyer) &&
+      (!request.language || lawyer.languages?.includes(request.language)) &&
+      (!specialty || this.hasSpecialty(lawyer, [specialty])) &&
+      // Without recognisable topics every lawyer qualifies and rating decides
+      (topics.length === 0 || this.hasSpecialty(lawyer, topics))
+    )
+
+    return candidates
+      .map(lawyer => this.toRecommendation(lawyer, topics))
+      .sort((a, b) => b.relevanceScore - a.relevanceScore || b.rating - a.rating)
+      .slice(0, request.limit ?? DEFAULT_RECOMMENDATION_LIMIT)
+  }
+
+  /**
+   * Filters the directory by the structured search parameters. Only the canton
+   * is filtered in Firestore; the directory is small enough to match the rest in
+   * memory. With an origin, lawyers farther than the radius (25 km by default)
+   * or without a known location are left out.
+   */
+  async searchLawyers(request: LawyerSearchRequest): Promise<LawyerSearchResult> {
+    const lawyers = await this.fetchLawyers(request.canton)
+
+    const query = request.q?.toLowerCase()
+    const specialty = request.specialty?.toLowerCase()
+    const topics = [specialty, query].filter((topic): topic is string => Boolean(topic))
+    const { origin } = request
+    const radius = request.radiusKm ?? DEFAULT_SEARCH_RADIUS_KM
+
+    const matches = lawyers
+      .filter(lawyer =>
+        this.isActive(lawyer) &&
+        (!query ||
+          lawyer.name.toLowerCase().includes(query) ||
+          (lawyer.specialties || []).some(item => item.toLowerCase().includes(query))) &&
+        (!request.language || lawyer.languages?.includes(request.language)) &&
+        (!specialty || this.hasSpecialty(lawyer, [specialty])) &&
+        (request.minRating === undefined || (lawyer.rating ?? 0) >= request.minRating) &&
+        (!request.legalAid || lawyer.acceptsLegalAid === true)
+      )
+      .map(lawyer => {
+        const location = origin ? this.locate(lawyer) : null
+        return {
+          lawyer,
+          // Whole kilometres; the postcode table places localities to about 1 km
+          distance: origin && location ? Math.round(distanceKm(origin, location)) : undefined,
+          score: this.calculateRelevanceScore(lawyer, topics)
         }
-      ]
+      })
+      .filter(({ distance }) => !origin || (distance !== undefined && distance <= radius))
 
-      return sampleLawyers as LawyerRecommendation[]
+    const byDistance = (a: { distance?: number }, b: { distance?: number }) =>
+      (a.distance ?? Infinity) - (b.distance ?? Infinity)
+    const byRelevance = (a: { lawyer: Lawyer; score: number }, b: { lawyer: Lawyer; score: number }) =>
+      b.score - a.score || (b.lawyer.rating ?? 0) - (a.lawyer.rating ?? 0)
+    const sort = request.sort ?? (origin ? 'distance' : 'relevance')
+    matches.sort((a, b) =>
+      (sort === 'distance' ? byDistance(a, b) || byRelevance(a, b) : byRelevance(a, b) || byDistance(a, b)) ||
+      a.lawyer.name.localeCompare(b.lawyer.name)
+    )
 
-    } catch (error) {
-      console.error('Error in getRecommendations:', error)
-      return []
+    const page = request.page ?? 1
+    const pageSize = request.pageSize ?? DEFAULT_SEARCH_PAGE_SIZE
+    return {
+      lawyers: matches
+        .slice((page - 1) * pageSize, page * pageSize)
+        .map(({ lawyer, distance }) => (distance === undefined ? lawyer : { ...lawyer, distanceKm: distance })),
+      total: matches.length,
+      page,
+      pageSize
     }
   }
 
   async getLawyersBySpecialty(specialty: string): Promise<Lawyer[]> {
     try {
       const result = await this.search('specialties', specialty, 'array-contains')
-      return result.success ? result.data || [] : []
+      return result.success ? (result.data || []).filter(lawyer => this.isActive(lawyer)) : []
     } catch (error) {
       console.error('Error fetching lawyers by specialty:', error)
       return []
     }
   }
 
-  async getAllLawyers(): Promise<Lawyer[]> {
+  // Admins also see inactive lawyers
+  async getAllLawyers(includeInactive = false): Promise<Lawyer[]> {
     try {
-      const result = await this.getAll()
-      return result.success ? result.data || [] : []
+      const result = await this.getAll({ orderBy: [{ field: 'name', direction: 'asc' }] })
+      const lawyers = result.success ? result.data || [] : []
+      return includeInactive ? lawyers : lawyers.filter(lawyer => this.isActive(lawyer))
     } catch (error) {
       console.error('Error fetching all lawyers:', error)
       return []
     }
   }
 
-  private extractLegalTopics(conversationHistory: any[], userQuestion: string): string[] {
+  async createLawyer(input: LawyerInput): Promise<Lawyer | null> {
+    const result = await this.create(this.withoutUndefined(input) as Lawyer)
+    if (!result.success) {
+      console.error('Error creating lawyer:', result.error)
+    }
+    return result.success ? result.data || null : null
+  }
+
+  // Returns null if the lawyer doesn't exist or the update fails
+  async updateLawyer(id: string, update: LawyerUpdateInput): Promise<Lawyer | null> {
+    const data: Record<string, any> = {}
+    for (const [field, value] of Object.entries(update)) {
+      if (value === null) data[field] = admin.firestore.FieldValue.delete()
+      else if (value !== undefined) data[field] = value
+    }
+
+    const result = await this.update(id, data)
+    if (!result.success) {
+      console.error(`Error updating lawyer ${id}:`, result.error)
+    }
+    return result.success ? result.data || null : null
+  }
+
+  async exportCsv(): Promise<string> {
+    const lawyers = await this.getAllLawyers(true)
+    const rows = lawyers.map(lawyer =>
+      CSV_COLUMNS.map(column => {
+        const value = column === 'active' ? this.isActive(lawyer) : lawyer[column]
+        return Array.isArray(value) ? value.join(CSV_LIST_SEPARATOR) : String(value ?? '')
+      })
+    )
+    return toCsv([[...CSV_COLUMNS], ...rows])
+  }
+
+  /**
+   * Creates the lawyers of a CSV export-format file, and replaces those whose
+   * `id` column names an existing lawyer; empty cells clear the field. All rows
+   * are validated first and written in one batch, so an import is all or nothing.
+   */
+  async importCsv(csv: string): Promise<LawyerImportResult> {
+    const [header = [], ...records] = parseCsv(csv)
+    const columns = header.map(column => column.trim())
+    const missing = CSV_REQUIRED_COLUMNS.filter(column => !columns.includes(column))
+    if (missing.length > 0) {
+      return {
+        created: 0,
+        updated: 0,
+        errors: missing.map(field => ({ row: 0, field, message: 'Missing column' }))
+      }
+    }
+
+    if (records.length > CSV_MAX_ROWS) {
+      return {
+        created: 0,
+        updated: 0,
+        errors: [{ row: 0, field: 'rows', message: `At most ${CSV_MAX_ROWS} rows can be imported at once` }]
+      }
+    }
+
+    const errors: LawyerImportResult['errors'] = []
+    const rows: Array<{ id?: string; lawyer: LawyerInput }> = []
+    const ids = new Set<string>()
+    records.forEach((cells, index) => {
+      const raw: Record<string, string> = {}
+      columns.forEach((column, i) => { raw[column] = unescapeFormula((cells[i] ?? '').trim()) })
+
+      const idError = raw.id ? documentIdError(raw.id) || (ids.has(raw.id) ? 'Id appears in an earlier row' : null) : null
+      if (idError) {
+        errors.push({ row: index + 1, field: 'id', message: idError })
+      }
+      if (raw.id) ids.add(raw.id)
+
+      const validation = lawyerSchema.safeParse(this.fromCsvRecord(raw))
+      if (!validation.success) {
+        errors.push(...validation.error.errors.map(error => ({
+          row: index + 1,
+          field: error.path.join('.'),
+          message: error.message
+        })))
+      } else {
+        rows.push({ id: raw.id || undefined, lawyer: validation.data })
+      }
+    })
+    if (errors.length > 0) {
+      return { created: 0, updated: 0, errors }
+    }
+
+    // Replaced lawyers keep their creation date
+    const collection = this.getCollection()
+    const refs = rows.map(({ id }) => (id ? collection.doc(id) : collection.doc()))
+    const snapshots = refs.length > 0 ? await collection.firestore.getAll(...refs) : []
+
+    const batch = collection.firestore.batch()
+    const now = new Date()
+    let created = 0
+    let updated = 0
+    rows.forEach(({ lawyer }, index) => {
+      const existing = snapshots[index].exists ? snapshots[index].data() : undefined
+      // set without merge, so fields emptied in the file are removed
+      batch.set(refs[index], {
+        ...this.withoutUndefined(lawyer),
+        id: refs[index].id,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now
+      })
+      if (existing) updated++
+      else created++
+    })
+    await batch.commit()
+    return { created, updated, errors: [] }
+  }
+
+  private fromCsvRecord(raw: Record<string, string>): Record<string, unknown> {
+    const list = (cell?: string) =>
+      (cell || '').split(CSV_LIST_SEPARATOR).map(item => item.trim()).filter(Boolean)
+    const flag = (cell: string | undefined, fallback: boolean) => {
+      const value = (cell || '').toLowerCase()
+      if (['true', 'yes', '1'].includes(value)) return true
+      if (['false', 'no', '0'].includes(value)) return false
+      return fallback
+    }
+
+    return {
+      ...raw,
+      specialties: list(raw.specialties),
+      languages: list(raw.languages).map(language => language.toLowerCase()),
+      canton: raw.canton?.toUpperCase(),
+      acceptsLegalAid: flag(raw.acceptsLegalAid, false),
+      active: flag(raw.active, true)
+    }
+  }
+
+  // Firestore rejects undefined fields
+  private withoutUndefined<T extends object>(data: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined)
+    ) as Partial<T>
+  }
+
+  /**
+   * The whole directory, or one canton of it. The empty orderBy keeps getAll from
+   * ordering by createdAt, which together with the canton filter would need a
+   * composite index; the single-field index on `canton` serves this query.
+   */
+  private async fetchLawyers(canton?: Canton): Promise<Lawyer[]> {
+    const result = await this.getAll({
+      orderBy: [],
+      ...(canton && { where: [{ field: 'canton', operator: '==' as const, value: canton }] })
+    })
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to fetch lawyers')
+    }
+    return result.data || []
+  }
+
+  private isActive(lawyer: Lawyer): boolean {
+    return lawyer.active !== false
+  }
+
+  // The postcode field, else a postcode in the address ("Bahnhofstrasse 1, 8001 Zürich"), else the city
+  private locate(lawyer: Lawyer): SwissLocation | null {
+    const postcode = lawyer.postcode || lawyer.address?.match(/\b(\d{4})\s+\p{L}/u)?.[1]
+    return (postcode && findByPostcode(postcode)) || (lawyer.city && findByLocality(lawyer.city)) || null
+  }
+
+  private extractLegalTopics(conversationHistory: RecommendationRequest['conversationHistory'], userQuestion: string): string[] {
     const topics: string[] = []
     const allText = [...conversationHistory.map(msg => msg.content), userQuestion].join(' ').toLowerCase()
     
-    const legalKeywords = {
-      'family law': ['family', 'marriage', 'divorce', 'custody', 'adoption', 'child support', 'alimony', 'familienrecht', 'ehe', 'scheidung', 'sorgerecht'],
-      'criminal law': ['criminal', 'crime', 'theft', 'fraud', 'assault', 'murder', 'strafrecht', 'diebstahl', 'betrug', 'körperverletzung'],
+    const legalKeywords: Record<PracticeArea, string[]> = {
+      'family law': ['family', 'marriage', 'divorce', 'custody', 'adoption', 'child support', 'alimony', 'familienrecht', 'ehe', 'scheidung', 'sorgerecht', 'droit de garde', 'pension alimentaire', 'divorzio', 'affidamento', 'alimenti'],
+      'criminal law': ['criminal', 'crime', 'theft', 'fraud', 'assault', 'murder', 'strafrecht', 'diebstahl', 'betrug', 'körperverletzung', 'pénal', 'escroquerie', 'penale', 'furto', 'truffa'],
       'corporate law': ['business', 'company', 'corporate', 'contract', 'employment', 'arbeitsrecht', 'vertragsrecht', 'gesellschaftsrecht'],
-      'real estate': ['property', 'real estate', 'rent', 'lease', 'immobilienrecht', 'mietrecht', 'pacht'],
-      'immigration law': ['immigration', 'visa', 'citizenship', 'asylum', 'ausländerrecht', 'einbürgerung', 'visum'],
-      'tax law': ['tax', 'taxation', 'steuerrecht', 'steuer', 'steuerhinterziehung'],
+      'real estate': ['property', 'real estate', 'rent', 'lease', 'immobilienrecht', 'mietrecht', 'pacht', 'miete', 'contrat de bail', 'le loyer', 'locazione', 'affitto'],
+      'immigration law': ['immigration', 'visa', 'citizenship', 'asylum', 'ausländerrecht', 'einbürgerung', 'visum', 'naturalisation', 'asile', 'naturalizzazione', 'asilo'],
+      'tax law': ['tax', 'taxation', 'steuerrecht', 'steuer', 'steuerhinterziehung', 'impôt', 'imposta'],
       'insurance law': ['insurance', 'versicherung', 'krankenkasse', 'unfallversicherung'],
-      'inheritance law': ['inheritance', 'will', 'estate', 'erbrecht', '[erbschaft', 'testament'],
-      'contract law': ['contract', 'agreement', 'vertragsrecht', 'vertrag'],
-      'labor law': ['employment', 'work', 'labor', 'arbeitsrecht', 'arbeit']
+      'inheritance law': ['inheritance', 'last will', 'estate', 'erbrecht', 'erbschaft', 'testament', 'succession', 'successione', 'eredità'],
+      'contract law': ['contract', 'agreement', 'vertragsrecht', 'vertrag', 'contrat', 'contratto'],
+      'labor law': ['employment', 'work', 'labor', 'arbeitsrecht', 'arbeit', 'kündigung', 'licenciement', 'travail', 'licenziamento', 'lavoro']
     }
 
+    // Keywords start a word. Longer ones may go on ("scheidung" in "scheidungsverfahren", "divorce" in
+    // "divorced"); short ones must be the whole word, so "rent" doesn't match "current" nor "ehe" "gehen"
+    const mentions = (keyword: string) =>
+      new RegExp(`(?<![\\p{L}\\p{N}])${keyword}${keyword.length < 5 ? '(?![\\p{L}\\p{N}])' : ''}`, 'u').test(allText)
+
     for (const [category, keywords] of Object.entries(legalKeywords)) {
-      if (keywords.some(keyword => allText.includes(keyword))) {
+      if (keywords.some(mentions)) {
         topics.push(category)
       }
     }
@@ -187,14 +412,46 @@ export class LawyerService extends BaseAdminService<Lawyer> {
     return topics
   }
 
+  private toRecommendation(lawyer: Lawyer, topics: string[]): LawyerRecommendation {
+    const recommendation: LawyerRecommendation = {
+      id: lawyer.id!,
+      name: lawyer.name,
+      specialties: lawyer.specialties || [],
+      rating: lawyer.rating ?? 0,
+      phone: lawyer.phone,
+      email: lawyer.email,
+      website: lawyer.website,
+      photoUrl: lawyer.photoUrl,
+      address: lawyer.address || lawyer.location,
+      canton: lawyer.canton,
+      availability: lawyer.availability,
+      experience: lawyer.experienceYears ? `${lawyer.experienceYears}+ years` : undefined,
+      languages: lawyer.languages || [],
+      relevanceScore: this.calculateRelevanceScore(lawyer, topics),
+      matchReasons: this.getMatchReasons(lawyer, topics)
+    }
+    // Recommendations are stored with the chat message
+    return this.withoutUndefined(recommendation) as LawyerRecommendation
+  }
+
+  // Topics are category names such as "family law"; specialties match them in either direction
+  private specialtyMatches(specialty: string, topic: string): boolean {
+    const normalizedSpecialty = specialty.toLowerCase()
+    const normalizedTopic = topic.toLowerCase()
+    return normalizedSpecialty.includes(normalizedTopic) || normalizedTopic.includes(normalizedSpecialty)
+  }
+
+  private hasSpecialty(lawyer: Lawyer, topics: string[]): boolean {
+    return (lawyer.specialties || []).some(specialty => topics.some(topic => this.specialtyMatches(specialty, topic)))
+  }
+
   private calculateRelevanceScore(lawyer: Lawyer, topics: string[]): number {
     let score = 0
     const lawyerSpecialties = lawyer.specialties || []
 
     for (const topic of topics) {
       for (const specialty of lawyerSpecialties) {
-        if (specialty.toLowerCase().includes(topic.toLowerCase()) || 
-            topic.toLowerCase().includes(specialty.toLowerCase())) {
+        if (this.specialtyMatches(specialty, topic)) {
           score += 1
         }
       }
@@ -205,8 +462,8 @@ export class LawyerService extends BaseAdminService<Lawyer> {
       score += 0.5
     }
 
-    // Bonus for lawyers with many reviews (if review_count exists)
-    if ((lawyer as any).review_count && (lawyer as any).review_count > 50) {
+    // Bonus for lawyers with many reviews
+    if (lawyer.reviewCount && lawyer.reviewCount > 50) {
       score += 0.3
     }
 
@@ -219,8 +476,7 @@ export class LawyerService extends BaseAdminService<Lawyer> {
 
     for (const topic of topics) {
       for (const specialty of lawyerSpecialties) {
-        if (specialty.toLowerCase().includes(topic.toLowerCase()) || 
-            topic.toLowerCase().includes(specialty.toLowerCase())) {
+        if (this.specialtyMatches(specialty, topic)) {
           reasons.push(`Specializes in ${specialty}`)
         }
       }
@@ -230,7 +486,7 @@ export class LawyerService extends BaseAdminService<Lawyer> {
       reasons.push('High customer rating')
     }
 
-    if ((lawyer as any).review_count && (lawyer as any).review_count > 50) {
+    if (lawyer.reviewCount && lawyer.reviewCount > 50) {
       reasons.push('Extensive experience')
     }
 
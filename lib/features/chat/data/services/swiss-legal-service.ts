@@ -1,11 +1,88 @@
 import { BaseRAGService, type BaseRAGConfig } from '@/lib/shared/data/services/base-rag-service'
+import { formatArticleReference, getPageNumber } from '@/lib/shared/utils/document-metadata'
+import { LANGUAGE_NAMES } from '@/lib/shared/utils/language-detection'
+import type { LanguageCode } from '@/lib/shared/types/corpus'
+import type { LawyerRecommendation, LawyerReferral } from '@/lib/shared/types/lawyer'
+import { SWISS_LEGAL_CORPUS } from '../corpus/swiss-legal-corpus'
+import { LawyerService } from './lawyer-service'
 
 export interface SwissLegalConfig extends BaseRAGConfig {}
 
+const NO_INFORMATION_MESSAGES: Record<LanguageCode, string> = {
+  en: `# I'd be happy to help you! 🤝
+
+I'd be happy to help you with your legal question! To provide you with the most accurate information, could you please provide more details about your specific situation?
+
+## Please provide more details:
+
+- **Area of Law**: What specific area of Swiss law are you asking about?
+- **Situation**: What is your particular situation or concern?
+- **Procedure**: Are you looking for information about a specific legal procedure?
+
+*Once I understand your question better, I can provide more targeted legal information. I can also recommend qualified Swiss lawyers who specialize in your area of concern.*`,
+  de: `# Ich helfe Ihnen gerne! 🤝
+
+Ich helfe Ihnen gerne bei Ihrer Rechtsfrage! Damit ich Ihnen möglichst genaue Informationen geben kann, beschreiben Sie bitte Ihre Situation etwas genauer.
+
+## Bitte geben Sie mehr Details an:
+
+- **Rechtsgebiet**: Um welches Gebiet des Schweizer Rechts geht es?
+- **Situation**: Was ist Ihre konkrete Situation oder Ihr Anliegen?
+- **Verfahren**: Suchen Sie Informationen zu einem bestimmten rechtlichen Verfahren?
+
+*Sobald ich Ihre Frage besser verstehe, kann ich Ihnen gezieltere rechtliche Informationen geben. Ich kann Ihnen auch qualifizierte Schweizer Anwältinnen und Anwälte für Ihr Anliegen empfehlen.*`,
+  fr: `# Je vous aide volontiers ! 🤝
+
+Je vous aide volontiers pour votre question juridique ! Afin de vous donner les informations les plus précises possibles, pourriez-vous décrire votre situation plus en détail ?
+
+## Veuillez préciser :
+
+- **Domaine du droit** : Quel domaine du droit suisse votre question concerne-t-elle ?
+- **Situation** : Quelle est votre situation ou votre préoccupation concrète ?
+- **Procédure** : Cherchez-vous des informations sur une procédure juridique particulière ?
+
+*Dès que j'aurai mieux compris votre question, je pourrai vous donner des informations juridiques plus ciblées. Je peux aussi vous recommander des avocates et avocats suisses qualifiés dans le domaine concerné.*`,
+  it: `# Sono felice di aiutarla! 🤝
+
+Sono felice di aiutarla con la sua domanda giuridica! Per fornirle informazioni il più possibile precise, potrebbe descrivere la sua situazione in modo più dettagliato?
+
+## Per favore fornisca più dettagli:
+
+- **Ambito del diritto**: Quale ambito del diritto svizzero riguarda la sua domanda?
+- **Situazione**: Qual è la sua situazione o preoccupazione concreta?
+- **Procedura**: Cerca informazioni su una specifica procedura giuridica?
+
+*Non appena avrò compreso meglio la sua domanda, potrò fornirle informazioni giuridiche più mirate. Posso anche consigliarle avvocate e avvocati svizzeri qualificati nel settore che la riguarda.*`
+}
+
+const GREETINGS: Record<LanguageCode, string> = {
+  en: `# Hello! 👋
+
+I'm **Mis Rächt**, your Swiss Legal Assistant. I can help you with Swiss legal questions and connect you with qualified lawyers when needed.
+
+*What legal question can I help you with today?*`,
+  de: `# Grüezi! 👋
+
+Ich bin **Mis Rächt**, Ihr Assistent für Schweizer Recht. Ich beantworte Ihre Rechtsfragen und vermittle Ihnen bei Bedarf qualifizierte Anwältinnen und Anwälte.
+
+*Bei welcher Rechtsfrage kann ich Ihnen heute helfen?*`,
+  fr: `# Bonjour ! 👋
+
+Je suis **Mis Rächt**, votre assistant juridique pour le droit suisse. Je réponds à vos questions juridiques et vous mets en relation avec des avocates et avocats qualifiés si nécessaire.
+
+*Pour quelle question juridique puis-je vous aider aujourd'hui ?*`,
+  it: `# Buongiorno! 👋
+
+Sono **Mis Rächt**, il suo assistente per il diritto svizzero. Rispondo alle sue domande giuridiche e, se necessario, la metto in contatto con avvocate e avvocati qualificati.
+
+*Con quale domanda giuridica posso aiutarla oggi?*`
+}
+
 export class SwissLegalService extends BaseRAGService {
   constructor(config: SwissLegalConfig) {
     super({
       ...config,
+      documents: config.documents || SWISS_LEGAL_CORPUS,
       domainKeywords: [
         'swiss law',
         'schweiz',
@@ -55,6 +132,13 @@ export class SwissLegalService extends BaseRAGService {
         'pflegekind',
         'erbschaft',
         'testament',
+        'droit',
+        'loi',
+        'tribunal',
+        'diritto',
+        'legge',
+        'tribunale',
+        'avvocato',
         'pacht',
         'miete',
         'kündigung',
@@ -684,27 +768,49 @@ export class SwissLegalService extends BaseRAGService {
     })
   }
 
-  protected getNoInformationMessage(): string {
-    return `# I'd be happy to help you! 🤝
-
-I'd be happy to help you with your legal question! To provide you with the most accurate information, could you please provide more details about your specific situation?
-
-## Please provide more details:
-
-- **Area of Law**: What specific area of Swiss law are you asking about?
-- **Situation**: What is your particular situation or concern?
-- **Procedure**: Are you looking for information about a specific legal procedure?
-
-*Once I understand your question better, I can provide more targeted legal information. I can also recommend qualified Swiss lawyers who specialize in your area of concern.*`
+  protected getNoInformationMessage(language: LanguageCode): string {
+    return NO_INFORMATION_MESSAGES[language]
   }
 
   // Override to provide better greeting responses
-  async handleGreeting(): Promise<string> {
-    return `# Hello! 👋
+  async handleGreeting(language: LanguageCode = 'en'): Promise<string> {
+    return GREETINGS[language]
+  }
 
-I'm **Mis Rächt**, your Swiss Legal Assistant. I can help you with Swiss legal questions and connect you with qualified lawyers when needed.
+  // Recommend lawyers from the directory, anywhere in Switzerland if none practise in the canton
+  protected async findLawyers(
+    referral: LawyerReferral,
+    question: string,
+    conversationMessages: any[] | undefined,
+    language: LanguageCode
+  ): Promise<LawyerRecommendation[]> {
+    const lawyerService = new LawyerService()
+    const request = {
+      conversationHistory: (conversationMessages || []).map((msg) => ({
+        role: msg.role === 'user' ? 'user' as const : 'assistant' as const,
+        content: String(msg.content || '')
+      })),
+      userQuestion: question,
+      practiceAreas: referral.practiceAreas
+    }
 
-*What legal question can I help you with today?*`
+    // Lawyers in the canton who speak the question's language first; each filter is dropped in turn
+    // when nothing matches, the language before the canton. A failed lookup leaves the answer without lawyers
+    const attempts = [
+      ...(referral.canton ? [{ canton: referral.canton, language }, { canton: referral.canton }] : []),
+      { language },
+      {}
+    ]
+    try {
+      for (const filters of attempts) {
+        const lawyers = await lawyerService.getRecommendations({ ...request, ...filters })
+        if (lawyers.length > 0) return lawyers
+      }
+      return []
+    } catch (error) {
+      console.error('Error finding lawyers:', error)
+      return []
+    }
   }
 
   protected buildContext(docs: any[], conversationMessages?: any[]): string {
@@ -732,9 +838,17 @@ I'm **Mis Rächt**, your Swiss Legal Assistant. I can help you with Swiss legal
     // Add document context if available
     if (docs && docs.length > 0) {
       const contextParts = docs.map((doc, index) => {
-        const source = doc.metadata?.source || 'Legal Document'
-        const page = doc.metadata?.loc?.pageNumber || 'Unknown'
-        return `[Source ${index + 1}: ${source}, Page ${page}]
+        const metadata = doc.metadata || {}
+        const reference = [metadata.documentShortTitle, metadata.srNumber && `SR ${metadata.srNumber}`]
+          .filter(Boolean)
+          .join(', ')
+        const source = metadata.documentTitle
+          ? `${metadata.documentTitle}${reference ? ` (${reference})` : ''}`
+          : metadata.source || 'Legal Document'
+        const page = getPageNumber(metadata) || 'Unknown'
+        const article = formatArticleReference(metadata)
+        const heading = metadata.headingPath ? `\n${metadata.headingPath}` : ''
+        return `[Source ${index + 1}: ${article ? `${article} – ` : ''}${source}, Page ${page}]${heading}
 ${doc.pageContent}`
       })
       
@@ -744,13 +858,13 @@ ${doc.pageContent}`
     return contextString
   }
 
-  protected getDomainPrompt(context: string, question: string): string {
+  protected getDomainPrompt(context: string, question: string, language: LanguageCode): string {
     return `You are a Swiss legal expert called Mis Rächt. Answer the user's question directly and comprehensively based on Swiss law.
 
 IMPORTANT INSTRUCTIONS:
 1. Answer the legal question directly without mentioning your AI role or capabilities
 2. Provide helpful information based on your knowledge of Swiss law
-3. Never mention that you are using referenced documents or sources - just provide the information naturally
+3. Never talk about the referenced documents or sources in prose - provide the information naturally and cite the numbered sources inline with [n] markers
 4. If you don't have enough information to answer fully, ask follow-up questions to better understand their needs
 5. Be precise and accurate in your legal explanations
 6. Use proper Swiss legal terminology when appropriate
@@ -768,6 +882,7 @@ IMPORTANT INSTRUCTIONS:
    - The legal question clearly requires professional legal assistance after gathering context
    - Professional legal representation is genuinely needed based on the complexity
    - Do NOT automatically recommend lawyers without understanding the full context
+10. NEVER name lawyers or law firms, and never give phone numbers, email addresses or street addresses of lawyers. When a lawyer is needed, say so and which area of law they should practise; matching lawyers from a verified directory are shown with your answer.
 
 CRITICAL FORMATTING REQUIREMENT:
 - ALWAYS format your response in markdown
@@ -783,23 +898,8 @@ ${context}
 
 QUESTION: ${question}
 
-Use the conversation history (if provided above) to provide context-aware responses and build upon previous discussions. Bitte antworten Sie direkt und umfassend auf die Frage. Verwenden Sie Markdown-Formatierung und geben Sie präzise rechtliche Informationen basierend auf dem Schweizer Rechtssystem.
-
-If you recommend lawyers, provide them in this JSON format:
-{
-  "lawyerRecommendations": [
-    {
-      "name": "Dr. Markus Weber",
-      "specialties": ["family law", "divorce", "child custody"],
-      "rating": 4.8,
-      "phone": "+41 44 123 4567",
-      "email": "markus.weber@law.ch",
-      "address": "Bahnhofstrasse 1, 8001 Zürich",
-      "availability": "Mon-Fri 9:00-17:00",
-      "experience": "15+ years",
-      "languages": ["German", "English", "French"]
-    }
-  ]
-}`
+Use the conversation history (if provided above) to provide context-aware responses and build upon previous discussions. Answer the question directly and comprehensively, with precise legal information based on the Swiss legal system.
+
+LANGUAGE: The user wrote in ${LANGUAGE_NAMES[language]}. Write your entire answer in ${LANGUAGE_NAMES[language]}, even where the legal documents above are in another language; translate what you take from them and use the official names and abbreviations of Swiss statutes in that language (e.g. the ZGB is the CC in French and Italian, the OR is the CO).`
   }
 }
@@ -1,4 +1,6 @@
-import type { Citation, ResponseMetrics, EnhancedSource, AssistantResponseV2 } from '@/lib/shared/types/llm-response'
+import type { Citation, ResponseMetrics, EnhancedSource, AssistantResponseV2, MessageBlock, SafetyInfo } from '@/lib/shared/types/llm-response'
+import type { LanguageCode } from '@/lib/shared/types/corpus'
+import type { LawyerRecommendation } from '@/lib/shared/types/lawyer'
 
 // Base interfaces for database entities
 export interface Conversation {
@@ -20,14 +22,25 @@ export interface Message {
   followUps?: string[] | null
   metrics?: ResponseMetrics | null
   responseVersion?: number
+  // Detected language of the question, which the answer is written in
+  language?: LanguageCode | null
+  blocks?: StoredMessageBlock[] | null
+  safety?: SafetyInfo | null
+  lawyerRecommendations?: LawyerRecommendation[] | null
   createdAt?: Date
   updatedAt?: Date
 }
 
+// Firestore can't store nested arrays, so table rows are kept as objects
+export type StoredMessageBlock =
+  | Exclude<MessageBlock, { type: 'table' }>
+  | { type: 'table'; headers: string[]; rows: { cells: string[] }[] }
+
 // API request/response interfaces
 export interface ChatMessageRequest {
   message: string
   conversationId?: string | null
+  stream?: boolean
 }
 
 export interface ChatMessageResponse {
@@ -39,6 +52,12 @@ export interface ChatMessageResponse {
 
 export interface ConversationListResponse {
   conversations: ConversationListItem[]
+  error?: string
+}
+
+export interface ConversationResponse {
+  conversation: ConversationListItem | null
+  error?: string
 }
 
 export interface ConversationListItem {
@@ -50,6 +69,7 @@ export interface ConversationListItem {
 
 export interface ConversationMessagesResponse {
   messages: MessageListItem[]
+  error?: string
 }
 
 export interface MessageListItem {
@@ -61,6 +81,10 @@ export interface MessageListItem {
   follow_ups?: string[]
   metrics?: ResponseMetrics
   response_version?: number
+  language?: LanguageCode
+  blocks?: MessageBlock[]
+  safety?: SafetyInfo
+  lawyer_recommendations?: LawyerRecommendation[]
   created_at: string
 }
 
@@ -70,7 +94,8 @@ export interface CreateConversationRequest {
 
 export interface CreateConversationResponse {
   conversation: Conversation
+  error?: string
 }
 
 // Re-export from shared types for convenience
-export type { AssistantResponseV2, Citation, ResponseMetrics, EnhancedSource } from '@/lib/shared/types/llm-response'
+export type { AssistantResponseV2, Citation, ResponseMetrics, EnhancedSource, MessageBlock, SafetyInfo } from '@/lib/shared/types/llm-response'
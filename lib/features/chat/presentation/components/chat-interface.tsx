@@ -11,20 +11,30 @@ import { ConfidenceIndicator } from './confidence-indicator'
 import { SourcesPanel } from './sources-panel'
 import { FollowUpSuggestions } from './follow-up-suggestions'
 import { MarkdownMessage } from './markdown-message'
+import { MessageBlocks } from './message-blocks'
+import { SafetyBanner, SafetyDisclaimer } from './safety-banner'
+import { ConsultationRequestSheet } from '@/lib/features/consultations/presentation/components/consultation-request-sheet'
 import { Send, Trash } from 'lucide-react'
 import { auth } from '@/lib/shared/core/config'
+import { setAuthCookie } from '@/lib/shared/utils/cookie-utils'
 import { migrateMessageToV2, isLegacyMessage } from '@/lib/shared/utils/migration/response-migration'
-import type { EnhancedSource, Citation, ResponseMetrics } from '@/lib/shared/types/llm-response'
+import { StreamingResponse } from '@/lib/shared/utils/streaming'
+import { useLocale, useTranslations } from '@/lib/shared/hooks/use-i18n'
+import { formatDate, formatTime, relativeDay } from '@/lib/shared/i18n'
+import type { LawyerRecommendation } from '@/lib/shared/types/lawyer'
+import type { EnhancedSource, Citation, ResponseMetrics, AssistantResponseV2, MessageBlock, SafetyInfo } from '@/lib/shared/types/llm-response'
 
 interface Message {
   role: 'user' | 'assistant'
   content: string
+  blocks?: MessageBlock[]
   sources?: EnhancedSource[]
   confidence?: number
   citations?: Citation[]
   followUps?: string[]
   metrics?: ResponseMetrics
-  lawyerRecommendations?: any[] // TODO: Define a proper type for lawyer recommendations
+  safety?: SafetyInfo
+  lawyerRecommendations?: LawyerRecommendation[]
   responseVersion?: number // 1 = legacy, 2 = new format
 }
 
@@ -42,11 +52,19 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
   const [loadingMessages, setLoadingMessages] = useState(false)
   const [typingMessage, setTypingMessage] = useState<Message | null>(null)
   const [userHasScrolledUp, setUserHasScrolledUp] = useState(false)
-  const [conversationTitle, setConversationTitle] = useState<string>('Chat')
+  // null until a conversation is loaded; shown as the localised default title
+  const [conversationTitle, setConversationTitle] = useState<string | null>(null)
   const [conversationUpdatedAt, setConversationUpdatedAt] = useState<string | null>(null)
+  const [highlightedCitation, setHighlightedCitation] = useState<{ messageIndex: number; marker: number } | null>(null)
+  // The lawyer a consultation is being requested from, and the message that recommended them
+  const [consultation, setConsultation] = useState<{ lawyer: LawyerRecommendation; messageIndex: number } | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const scrollContainerRef = useRef<HTMLDivElement>(null)
+  // Conversation whose messages still have to be loaded when the token arrives
+  const pendingConversationRef = useRef<string | null>(propConversationId || null)
   const [token, setToken] = useState<string | null>(null)
+  const locale = useLocale()
+  const t = useTranslations('chat')
 
   useEffect(() => {
     const getToken = async () => {
@@ -55,15 +73,15 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
         setToken(firebaseToken)
         
         // Set cookie for middleware
-        document.cookie = `firebase_token=${firebaseToken}; path=/; max-age=86400; secure; samesite=strict`
+        setAuthCookie(firebaseToken)
       } else {
         // Try to get token from localStorage if user is not currently signed in
         const storedToken = localStorage.getItem('firebase_token')
         if (storedToken) {
           setToken(storedToken)
           
-          // Set cookie for middleware
-          document.cookie = `firebase_token=${storedToken}; path=/; max-age=86400; secure; samesite=strict`
+          // Set cookie for middleware; an expired token sets none
+          setAuthCookie(storedToken)
         }
       }
     }
@@ -74,54 +92,22 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }
 
-  const typeMessage = (message: Message, onComplete?: () => void) => {
-    const fullText = message.content
-    let currentText = ''
-    let index = 0
-    
-    setTypingMessage({ ...message, content: '' })
-    
-    // Faster typing with adaptive chunk size for longer messages
-    const totalLength = fullText.length
-    const charsPerTick = totalLength > 800 ? 6 : totalLength > 400 ? 4 : totalLength > 200 ? 2 : 1
-    const intervalMs = 12
-
-    const typeInterval = setInterval(() => {
-      if (index < fullText.length) {
-        const nextIndex = Math.min(index + charsPerTick, fullText.length)
-        currentText += fullText.slice(index, nextIndex)
-        setTypingMessage({ ...message, content: currentText })
-        index = nextIndex
-      } else {
-        clearInterval(typeInterval)
-        setTypingMessage(null)
-        setMessages(prev => [...prev, { ...message, content: fullText }])
-        onComplete?.()
-      }
-    }, intervalMs)
+  const handleCitationClick = (messageIndex: number, marker: number) => {
+    setHighlightedCitation({ messageIndex, marker })
+    // Clear the highlight so the same marker can be clicked again
+    setTimeout(() => {
+      setHighlightedCitation((current) =>
+        current?.messageIndex === messageIndex && current.marker === marker ? null : current
+      )
+    }, 2000)
   }
 
   const formatHeaderDate = (date: Date) => {
-    const now = new Date()
-    const isSameDay =
-      date.getFullYear() === now.getFullYear() &&
-      date.getMonth() === now.getMonth() &&
-      date.getDate() === now.getDate()
-
-    const yesterday = new Date(now)
-    yesterday.setDate(now.getDate() - 1)
-    const isYesterday =
-      date.getFullYear() === yesterday.getFullYear() &&
-      date.getMonth() === yesterday.getMonth() &&
-      date.getDate() === yesterday.getDate()
-
-    const hours = String(date.getHours()).padStart(2, '0')
-    const minutes = String(date.getMinutes()).padStart(2, '0')
-    const timePart = `${hours}:${minutes}H`
-
-    if (isSameDay) return `Today at ${timePart}`
-    if (isYesterday) return `Yesterday at ${timePart}`
-    return `${date.toLocaleDateString()} at ${timePart}`
+    const time = formatTime(date, locale)
+    const day = relativeDay(date)
+    if (day === 'today') return t('updatedToday', { time })
+    if (day === 'yesterday') return t('updatedYesterday', { time })
+    return t('updatedOn', { date: formatDate(date, locale), time })
   }
 
   useEffect(() => {
@@ -152,29 +138,32 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
     }
   }, [typingMessage, userHasScrolledUp])
 
-  // Load messages when conversationId changes
+  // Load messages when conversationId changes, once the token is there
   useEffect(() => {
     if (propConversationId !== conversationId) {
       console.log('Conversation ID changed:', { from: conversationId, to: propConversationId })
       setConversationId(propConversationId || undefined)
-      if (propConversationId) {
-        loadMessages(propConversationId)
-      } else {
+      pendingConversationRef.current = propConversationId || null
+      if (!propConversationId) {
         setMessages([])
       }
     }
-  }, [propConversationId])
+    if (token && pendingConversationRef.current) {
+      loadMessages(pendingConversationRef.current)
+      pendingConversationRef.current = null
+    }
+  }, [propConversationId, token])
 
   // Load conversation metadata (title, updated time) when conversationId changes
   useEffect(() => {
     const loadConversationMeta = async () => {
       if (!conversationId || !token) {
-        setConversationTitle('Chat')
+        setConversationTitle(null)
         setConversationUpdatedAt(null)
         return
       }
       try {
-        const response = await fetch('/api/conversations', {
+        const response = await fetch(`/api/conversations/${conversationId}`, {
           headers: {
             'Authorization': `Bearer ${token}`,
             'Content-Type': 'application/json'
@@ -182,9 +171,9 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
         })
         if (response.ok) {
           const data = await response.json()
-          const conv = (data.conversations || []).find((c: any) => c.id === conversationId)
+          const conv = data.conversation
           if (conv) {
-            setConversationTitle(conv.title || 'Chat')
+            setConversationTitle(conv.title || null)
             setConversationUpdatedAt(conv.updated_at || conv.created_at || null)
           }
         }
@@ -213,11 +202,13 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
           return {
             role: msg.role,
             content: msg.content,
+            blocks: msg.blocks,
             sources: msg.sources,
             confidence: msg.confidence,
             citations: msg.citations,
             followUps: msg.follow_ups,
             metrics: msg.metrics,
+            safety: msg.safety,
             lawyerRecommendations: msg.lawyer_recommendations,
             responseVersion: msg.response_version || 2
           }
@@ -247,49 +238,74 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
+          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
         },
-        body: JSON.stringify({ message: input, conversationId }),
+        body: JSON.stringify({ message: input, conversationId, stream: true }),
       })
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         throw new Error(`HTTP error! status: ${response.status}`)
       }
 
-      const data = await response.json()
+      let streamedText = ''
+      let finalResponse: AssistantResponseV2 | null = null
+      let streamError: string | null = null
 
-      if (data.success) {
-        // ALWAYS update conversation ID from response to ensure sync
-        if (data.conversationId) {
-          setConversationId(data.conversationId)
-          onConversationChange?.(data.conversationId)
+      await StreamingResponse.consume(response.body, ({ type, data }) => {
+        switch (type) {
+          case 'metadata':
+            // ALWAYS update conversation ID from response to ensure sync
+            if (data.conversationId && data.conversationId !== conversationId) {
+              setConversationId(data.conversationId)
+              onConversationChange?.(data.conversationId)
+            }
+            break
+          case 'token':
+            streamedText += data.token
+            setTypingMessage({ role: 'assistant', content: streamedText })
+            break
+          case 'complete':
+            finalResponse = data as AssistantResponseV2
+            break
+          case 'error':
+            streamError = data.error
+            break
         }
+      })
 
-        // Create the assistant message from the response
-        const assistantMessage: Message = {
-          role: 'assistant',
-          content: data.data.message.textMd,
-          sources: data.data.sources,
-          confidence: data.data.metrics.confidence,
-          citations: data.data.citations,
-          followUps: data.data.followUps,
-          metrics: data.data.metrics,
-          responseVersion: 2
-        }
+      if (!finalResponse) {
+        throw new Error(streamError || 'Failed to get response')
+      }
 
-        // Type the message with animation
-        typeMessage(assistantMessage)
-      } else {
-        throw new Error(data.error || 'Failed to get response')
+      const completed: AssistantResponseV2 = finalResponse
+
+      // Create the assistant message from the final response
+      const assistantMessage: Message = {
+        role: 'assistant',
+        content: completed.message.textMd,
+        blocks: completed.message.blocks,
+        sources: completed.sources,
+        confidence: completed.metrics.confidence,
+        citations: completed.citations,
+        followUps: completed.followUps,
+        metrics: completed.metrics,
+        safety: completed.safety,
+        lawyerRecommendations: completed.lawyerRecommendations,
+        responseVersion: 2
       }
+
+      setMessages(prev => [...prev, assistantMessage])
     } catch (error) {
       console.error('Error sending message:', error)
       const errorMessage: Message = {
         role: 'assistant',
-        content: "I'm sorry, I encountered an error. Please try again."
+        content: t('error')
       }
-      typeMessage(errorMessage)
+      setMessages(prev => [...prev, errorMessage])
     } finally {
+      setTypingMessage(null)
       setLoading(false)
     }
   }
@@ -299,8 +315,8 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
       <div className="border-b bg-white">
         <div className="max-w-5xl mx-auto p-4 flex items-start justify-between">
           <div>
-            <h2 className="text-lg font-semibold text-gray-900">{conversationTitle}</h2>
-            <p className="text-sm text-gray-500">Quick answers about Swiss law and procedures.</p>
+            <h2 className="text-lg font-semibold text-gray-900">{conversationTitle || t('defaultTitle')}</h2>
+            <p className="text-sm text-gray-500">{t('subtitle')}</p>
             <p className="text-xs text-gray-400 mt-1">{formatHeaderDate(conversationUpdatedAt ? new Date(conversationUpdatedAt) : new Date())}</p>
             {process.env.NODE_ENV === 'development' && conversationId && (
               <p className="text-xs text-blue-500 mt-1">Conv ID: {conversationId.substring(0, 8)}...</p>
@@ -308,7 +324,7 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
           </div>
           <button
             type="button"
-            aria-label="Delete conversation"
+            aria-label={t('deleteConversation')}
             className="p-2 rounded-md hover:bg-gray-100 text-gray-600 disabled:opacity-50"
             disabled={!conversationId}
             onClick={async () => {
@@ -317,13 +333,14 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
                 const resp = await fetch(`/api/conversations/${conversationId}`, { 
                   method: 'DELETE',
                   headers: {
+                    'Authorization': `Bearer ${token}`,
                     'Content-Type': 'application/json'
                   }
                 })
                 if (resp.ok) {
                   setMessages([])
                   setConversationId(undefined)
-                  setConversationTitle('Chat')
+                  setConversationTitle(null)
                   setConversationUpdatedAt(null)
                   onConversationChange?.(null)
                 }
@@ -340,14 +357,14 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
         {loadingMessages ? (
           <div className="flex items-center justify-center h-full">
             <div className="text-center text-gray-500">
-              Loading conversation...
+              {t('loadingConversation')}
             </div>
           </div>
         ) : messages.length === 0 && !loadingMessages ? (
           <div className="flex items-center justify-center h-full">
             <div className="text-center">
-              <p className="text-gray-700 mb-2">Ask me about Swiss law and legal procedures.</p>
-              <p className="text-sm text-gray-500">I can also suggest relevant Swiss lawyers.</p>
+              <p className="text-gray-700 mb-2">{t('emptyTitle')}</p>
+              <p className="text-sm text-gray-500">{t('emptyHint')}</p>
             </div>
           </div>
         ) : (
@@ -376,11 +393,18 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
             >
               {msg.role === 'assistant' ? (
                 <div>
-                  <MarkdownMessage 
-                    content={msg.content} 
+                  <SafetyBanner safety={msg.safety} />
+
+                  <MessageBlocks
+                    blocks={msg.blocks}
+                    textMd={msg.content}
                     citations={msg.citations}
+                    sources={msg.sources}
                     className="text-sm"
+                    onCitationClick={(marker) => handleCitationClick(index, marker)}
                   />
+
+                  <SafetyDisclaimer safety={msg.safety} />
                   
                   {msg.responseVersion === 2 && (
                     <>
@@ -392,6 +416,9 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
                       <SourcesPanel 
                         sources={msg.sources || []} 
                         citations={msg.citations || []}
+                        highlightedMarker={
+                          highlightedCitation?.messageIndex === index ? highlightedCitation.marker : null
+                        }
                       />
                       
                       <FollowUpSuggestions 
@@ -409,7 +436,10 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
                   )}
                   
                   {msg.lawyerRecommendations && msg.lawyerRecommendations.length > 0 && (
-                    <LawyerRecommendations lawyers={msg.lawyerRecommendations} />
+                    <LawyerRecommendations
+                      lawyers={msg.lawyerRecommendations}
+                      onRequestConsultation={(lawyer) => setConsultation({ lawyer, messageIndex: index })}
+                    />
                   )}
                 </div>
               ) : (
@@ -419,19 +449,19 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
             {msg.role === 'user' && (
               <Avatar>
                 <AvatarImage src="/user-avatar.png" alt="User" />
-                <AvatarFallback>You</AvatarFallback>
+                <AvatarFallback>{t('you')}</AvatarFallback>
               </Avatar>
             )}
           </div>
         ))}
-        {loading && (
+        {loading && !typingMessage && (
           <div className="flex justify-start items-start gap-3">
             <Avatar>
               <AvatarImage src="/ai-avatar.png" alt="AI" />
               <AvatarFallback>AI</AvatarFallback>
             </Avatar>
             <div className="max-w-[70%] p-3 rounded-lg bg-gray-100 rounded-bl-none">
-              <p className="text-sm animate-pulse">Thinking...</p>
+              <p className="text-sm animate-pulse">{t('thinking')}</p>
             </div>
           </div>
         )}
@@ -442,14 +472,14 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
               <AvatarFallback>AI</AvatarFallback>
             </Avatar>
             <div className="max-w-[70%] p-3 rounded-lg bg-gray-100 rounded-bl-none">
-              <p className="text-sm whitespace-pre-wrap">{typingMessage.content}</p>
+              <MarkdownMessage content={typingMessage.content} className="text-sm" />
               <div className="inline-block w-2 h-4 bg-gray-600 animate-pulse ml-1"></div>
             </div>
           </div>
         )}
         {typingMessage && userHasScrolledUp && (
           <div className="fixed bottom-20 left-1/2 transform -translate-x-1/2 bg-primary text-white px-4 py-2 rounded-full text-sm shadow-lg z-10">
-            AI is typing...
+            {t('typing')}
           </div>
         )}
             <div ref={messagesEndRef} />
@@ -460,7 +490,7 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
         <div className="max-w-5xl mx-auto">
           <form onSubmit={handleSendMessage} className="flex w-full space-x-2">
             <Input
-              placeholder="Ask anything"
+              placeholder={t('inputPlaceholder')}
               value={input}
               onChange={(e) => setInput(e.target.value)}
               disabled={loading}
@@ -470,23 +500,32 @@ export function ChatInterface({ userId, conversationId: propConversationId, onCo
               type="submit" 
               disabled={loading || !input.trim()}
               className="h-12 px-6 rounded-lg"
-              aria-label="Send message"
+              aria-label={t('sendLabel')}
             >
               {loading ? (
                 <>
                   <Send className="w-4 h-4 mr-2" />
-                  Sending...
+                  {t('sending')}
                 </>
               ) : (
                 <>
                   <Send className="w-4 h-4 mr-2" />
-                  Send
+                  {t('send')}
                 </>
               )}
             </Button>
           </form>
         </div>
       </div>
+      <ConsultationRequestSheet
+        lawyer={consultation?.lawyer ?? null}
+        conversationId={conversationId}
+        messages={messages.map(({ role, content }) => ({ role, content }))}
+        // The question and the answer that recommended the lawyer
+        initialSelection={consultation ? [consultation.messageIndex - 1, consultation.messageIndex] : []}
+        token={token}
+        onClose={() => setConsultation(null)}
+      />
     </div>
   )
 }
@@ -1,7 +1,17 @@
 'use client'
 
 import { Badge } from '@/components/ui/badge'
-import type { ResponseMetrics } from '@/lib/shared/types/llm-response'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { useTranslations } from '@/lib/shared/hooks/use-i18n'
+import type { ConfidenceBreakdown, ResponseMetrics } from '@/lib/shared/types/llm-response'
+
+// Display order of the breakdown rows; the catalog keys match the signal names
+const BREAKDOWN_SIGNALS: (keyof ConfidenceBreakdown)[] = [
+  'retrievalSimilarity',
+  'rerankerAgreement',
+  'citationCoverage',
+  'faithfulness',
+]
 
 interface ConfidenceIndicatorProps {
   confidence: number
@@ -9,6 +19,8 @@ interface ConfidenceIndicatorProps {
 }
 
 export function ConfidenceIndicator({ confidence, metrics }: ConfidenceIndicatorProps) {
+  const t = useTranslations('confidence')
+
   const getConfidenceColor = (conf: number) => {
     if (conf > 0.8) return 'bg-green-100 text-green-800 border-green-200'
     if (conf > 0.5) return 'bg-yellow-100 text-yellow-800 border-yellow-200'
@@ -16,19 +28,44 @@ export function ConfidenceIndicator({ confidence, metrics }: ConfidenceIndicator
   }
 
   const getConfidenceLabel = (conf: number) => {
-    if (conf > 0.8) return 'High confidence'
-    if (conf > 0.5) return 'Medium confidence'
-    return 'Low confidence'
+    if (conf > 0.8) return t('high')
+    if (conf > 0.5) return t('medium')
+    return t('low')
   }
 
+  const breakdown = metrics?.confidenceBreakdown
+  const badge = (
+    <Badge 
+      variant="outline" 
+      className={`${getConfidenceColor(confidence)} border${breakdown ? ' cursor-help' : ''}`}
+    >
+      {getConfidenceLabel(confidence)} ({(confidence * 100).toFixed(0)}%)
+    </Badge>
+  )
+
   return (
     <div className="flex items-center gap-3 text-xs text-gray-500 mt-2">
-      <Badge 
-        variant="outline" 
-        className={`${getConfidenceColor(confidence)} border`}
-      >
-        {getConfidenceLabel(confidence)} ({(confidence * 100).toFixed(0)}%)
-      </Badge>
+      {breakdown ? (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            {badge}
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            <div className="space-y-0.5">
+              {BREAKDOWN_SIGNALS
+                .filter((signal) => breakdown[signal] !== undefined)
+                .map((signal) => (
+                  <div key={signal} className="flex justify-between gap-4">
+                    <span>{t(signal)}</span>
+                    <span className="tabular-nums">{(breakdown[signal]! * 100).toFixed(0)}%</span>
+                  </div>
+                ))}
+            </div>
+          </TooltipContent>
+        </Tooltip>
+      ) : (
+        badge
+      )}
       
       {metrics?.processingTime && (
         <span className="text-gray-400">
@@ -38,7 +75,7 @@ export function ConfidenceIndicator({ confidence, metrics }: ConfidenceIndicator
       
       {metrics?.tokenUsage?.total && (
         <span className="text-gray-400">
-          {metrics.tokenUsage.total} tokens
+          {t('tokens', { count: metrics.tokenUsage.total })}
         </span>
       )}
     </div>
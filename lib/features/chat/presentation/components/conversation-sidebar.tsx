@@ -16,10 +16,14 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog'
-import { Plus, MessageSquare, Trash2, Calendar, LogOut, User, Loader2 } from 'lucide-react'
+import Link from 'next/link'
+import { Plus, MessageSquare, Trash2, Calendar, LogOut, User, Loader2, Inbox } from 'lucide-react'
 import { cn } from '@/lib/shared/utils/cn'
 import { auth } from '@/lib/shared/core/config'
 import { useRouter } from 'next/navigation'
+import { LocaleSwitcher } from '@/lib/shared/components/locale-switcher'
+import { useLocale, useTranslations } from '@/lib/shared/hooks/use-i18n'
+import { formatDate as formatLocaleDate, formatTime, relativeDay } from '@/lib/shared/i18n'
 
 interface Conversation {
   id: string
@@ -51,6 +55,8 @@ export function ConversationSidebar({
   const [user, setUser] = useState<any>(null)
   const [token, setToken] = useState<string | null>(null)
   const router = useRouter()
+  const locale = useLocale()
+  const t = useTranslations('sidebar')
 
   useEffect(() => {
     const getAuthData = async () => {
@@ -84,8 +90,10 @@ export function ConversationSidebar({
   
 
   useEffect(() => {
+    // The token arrives asynchronously; don't call the API before it's there
+    if (!token) return
     loadConversations()
-  }, [userId])
+  }, [userId, token])
 
   const loadConversations = async () => {
     try {
@@ -145,27 +153,11 @@ export function ConversationSidebar({
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
-    const now = new Date()
-
-    const isSameDay =
-      date.getFullYear() === now.getFullYear() &&
-      date.getMonth() === now.getMonth() &&
-      date.getDate() === now.getDate()
-
-    const yesterday = new Date(now)
-    yesterday.setDate(now.getDate() - 1)
-    const isYesterday =
-      date.getFullYear() === yesterday.getFullYear() &&
-      date.getMonth() === yesterday.getMonth() &&
-      date.getDate() === yesterday.getDate()
-
-    const hours = String(date.getHours()).padStart(2, '0')
-    const minutes = String(date.getMinutes()).padStart(2, '0')
-    const timePart = `${hours}:${minutes}H`
-
-    if (isSameDay) return `Today, ${timePart}`
-    if (isYesterday) return `Yesterday, ${timePart}`
-    return `${date.toLocaleDateString()}, ${timePart}`
+    const time = formatTime(date, locale)
+    const day = relativeDay(date)
+    if (day === 'today') return t('updatedToday', { time })
+    if (day === 'yesterday') return t('updatedYesterday', { time })
+    return t('updatedOn', { date: formatLocaleDate(date, locale), time })
   }
 
   const handleLogoutClick = () => {
@@ -190,14 +182,14 @@ export function ConversationSidebar({
     <div className="w-64 bg-white border-r border-gray-200 flex flex-col h-screen">
       <div className="p-4 border-b border-gray-200">
         <h1 className="text-lg font-semibold text-gray-900 mb-3">
-          Swiss Legal Assistant
+          {t('appTitle')}
         </h1>
         <Button
           onClick={onNewConversation}
           className="w-full justify-start gap-2 h-10 font-medium"
         >
           <Plus className="h-4 w-4" />
-          New chat
+          {t('newChat')}
         </Button>
       </div>
 
@@ -205,15 +197,15 @@ export function ConversationSidebar({
         {loading ? (
           <div className="flex-1 flex items-center justify-center">
             <div className="text-center text-gray-500 py-4">
-              Loading conversations...
+              {t('loading')}
             </div>
           </div>
         ) : conversations.length === 0 ? (
           <div className="flex-1 flex items-center justify-center">
             <div className="text-center text-gray-500 py-8">
               <MessageSquare className="h-12 w-12 mx-auto mb-4 text-gray-300" />
-              <p className="text-sm">No conversations yet</p>
-              <p className="text-xs text-gray-400 mt-1">Start a new conversation to get started</p>
+              <p className="text-sm">{t('emptyTitle')}</p>
+              <p className="text-xs text-gray-400 mt-1">{t('emptyHint')}</p>
             </div>
           </div>
         ) : (
@@ -271,13 +263,20 @@ export function ConversationSidebar({
           </Avatar>
           <div className="flex-1 min-w-0">
             <p className="text-sm font-medium text-gray-900 truncate">
-              {user?.full_name || user?.username || 'User'}
+              {user?.full_name || user?.username || t('userFallback')}
             </p>
             <p className="text-xs text-gray-500 truncate">
               {user?.email}
             </p>
           </div>
         </div>
+        <LocaleSwitcher className="mb-2 px-3" />
+        <Button asChild variant="ghost" size="sm" className="w-full justify-start gap-2 text-gray-600">
+          <Link href="/consultations">
+            <Inbox className="h-4 w-4" />
+            {t('myRequests')}
+          </Link>
+        </Button>
         <Button
           variant="ghost"
           size="sm"
@@ -285,7 +284,7 @@ export function ConversationSidebar({
           className="w-full justify-start gap-2 text-gray-600 hover:text-red-600"
         >
           <LogOut className="h-4 w-4" />
-          Logout
+          {t('logout')}
         </Button>
       </div>
 
@@ -293,15 +292,15 @@ export function ConversationSidebar({
       <AlertDialog open={showLogoutDialog} onOpenChange={setShowLogoutDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Confirm Logout</AlertDialogTitle>
+            <AlertDialogTitle>{t('logoutTitle')}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to logout? You will need to sign in again to access your conversations.
+              {t('logoutDescription')}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
             <AlertDialogAction onClick={confirmLogout}>
-              Logout
+              {t('logout')}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -311,15 +310,15 @@ export function ConversationSidebar({
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Conversation</AlertDialogTitle>
+            <AlertDialogTitle>{t('deleteTitle')}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this conversation? This action cannot be undone.
+              {t('deleteDescription')}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
             <AlertDialogAction onClick={confirmDeleteConversation}>
-              Delete
+              {t('delete')}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
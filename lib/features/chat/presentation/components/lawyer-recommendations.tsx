@@ -1,45 +1,30 @@
 'use client'
 
 import React from 'react'
-import Image from 'next/image'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { MapPin, Check } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { MapPin, Check, Send } from 'lucide-react'
+import { useTranslations } from '@/lib/shared/hooks/use-i18n'
+import type { LawyerRecommendation } from '@/lib/shared/types/lawyer'
 
-interface Lawyer {
-  name: string
-  specialties: string[]
-  rating: number
-  phone?: string
-  email?: string
-  address?: string
-  availability?: string
-  experience?: string
-  languages?: string[]
-  image?: string
-  location?: string
+interface LawyerRecommendationsProps {
+  lawyers: LawyerRecommendation[]
+  // Shows a "Request consultation" button on each card
+  onRequestConsultation?: (lawyer: LawyerRecommendation) => void
 }
 
-interface LawyerRecommendationsProps {
-  lawyers: Lawyer[]
+function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter((part) => part && !part.endsWith('.'))
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('')
 }
 
-export function LawyerRecommendations({ lawyers }: LawyerRecommendationsProps) {
-  // Generate different professional headshots for each lawyer
-  const getLawyerImage = (lawyer: Lawyer, index: number) => {
-    if (lawyer.image) return lawyer.image;
-    
-    // Different professional headshots from Unsplash
-    const professionalImages = [
-      'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=400&h=300&fit=crop&crop=face&auto=format&q=80',
-      'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=400&h=300&fit=crop&crop=face&auto=format&q=80',
-      'https://images.unsplash.com/photo-1560250097-0b93528c311a?w=400&h=300&fit=crop&crop=face&auto=format&q=80',
-      'https://images.unsplash.com/photo-1556157382-97eda2d62296?w=400&h=300&fit=crop&crop=face&auto=format&q=80',
-      'https://images.unsplash.com/photo-1519085360753-af0119f7cbe7?w=400&h=300&fit=crop&crop=face&auto=format&q=80'
-    ];
-    
-    return professionalImages[index % professionalImages.length];
-  };
+export function LawyerRecommendations({ lawyers, onRequestConsultation }: LawyerRecommendationsProps) {
+  const t = useTranslations('consultation')
 
   return (
     <div className="mt-3 p-2  border-t border-blue-200 mt-10">
@@ -53,13 +38,12 @@ export function LawyerRecommendations({ lawyers }: LawyerRecommendationsProps) {
             {/* Profile Image Section */}
             <div className="relative">
               <div className="w-full h-28 bg-gray-200 flex items-center justify-center">
-                <Image 
-                  src={getLawyerImage(lawyer, index)} 
-                  alt={lawyer.name}
-                  width={400}
-                  height={112}
-                  className="w-full h-full object-cover"
-                />
+                {lawyer.photoUrl ? (
+                  // Photos are hosted wherever the directory entry points, so next/image can't optimise them
+                  <img src={lawyer.photoUrl} alt={lawyer.name} className="w-full h-full object-cover" />
+                ) : (
+                  <span className="text-2xl font-semibold text-gray-500">{initials(lawyer.name)}</span>
+                )}
               </div>
               {/* Verified Badge */}
               <div className="absolute top-2 right-2">
@@ -76,8 +60,19 @@ export function LawyerRecommendations({ lawyers }: LawyerRecommendationsProps) {
                 {lawyer.name}
               </h4>
               <p className="text-sm text-gray-600">
-                {lawyer.location || 'Zurich, Switzerland'}
+                {lawyer.address || lawyer.canton}
               </p>
+              {onRequestConsultation && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="mt-3 w-full"
+                  onClick={() => onRequestConsultation(lawyer)}
+                >
+                  <Send className="h-3 w-3" />
+                  {t('request')}
+                </Button>
+              )}
             </CardContent>
           </Card>
         ))}
@@ -1,5 +1,6 @@
 'use client'
 
+import type { ReactNode } from 'react'
 import MarkdownPreview from '@uiw/react-markdown-preview'
 import type { Citation } from '@/lib/shared/types/llm-response'
 
@@ -7,12 +8,26 @@ interface MarkdownMessageProps {
   content: string
   citations?: Citation[]
   className?: string
+  onCitationClick?: (marker: number) => void
 }
 
-export function MarkdownMessage({ content, citations, className = '' }: MarkdownMessageProps) {
-  // Transform [1] markers into clickable superscripts
-  const contentWithSuperscripts = citations && citations.length > 0
-    ? content.replace(/\[(\d+)\]/g, '<sup class="citation-marker text-blue-600 hover:text-blue-800 cursor-pointer font-semibold">[$1]</sup>')
+// Pull the marker number out of a rendered "[n]" superscript
+function getMarkerFromChildren(children: ReactNode): number | null {
+  const text = Array.isArray(children) ? children.join('') : String(children ?? '')
+  const match = text.match(/\[(\d+)\]/)
+  return match ? parseInt(match[1], 10) : null
+}
+
+export function MarkdownMessage({ content, citations, className = '', onCitationClick }: MarkdownMessageProps) {
+  const citedMarkers = new Set((citations || []).map((citation) => citation.marker))
+
+  // Transform validated [n] markers into clickable superscripts (links like [1](url) are left alone)
+  const contentWithSuperscripts = citedMarkers.size > 0
+    ? content.replace(/\[(\d+)\](?!\()/g, (marker, n) =>
+        citedMarkers.has(parseInt(n, 10))
+          ? `<sup class="citation-marker">[${n}]</sup>`
+          : marker
+      )
     : content
   
   return (
@@ -29,15 +44,20 @@ export function MarkdownMessage({ content, citations, className = '' }: Markdown
           'data-color-mode': 'light'
         }}
         components={{
-          sup: ({ children, ...props }) => (
-            <sup 
-              {...props} 
-              className="citation-marker text-blue-600 hover:text-blue-800 cursor-pointer font-semibold text-xs"
-              title="Click to view source"
-            >
-              {children}
-            </sup>
-          )
+          sup: ({ children, ...props }) => {
+            const marker = getMarkerFromChildren(children)
+            return (
+              <sup 
+                {...props} 
+                className="citation-marker text-blue-600 hover:text-blue-800 cursor-pointer font-semibold text-xs"
+                title="Click to view source"
+                role="button"
+                onClick={() => marker !== null && onCitationClick?.(marker)}
+              >
+                {children}
+              </sup>
+            )
+          }
         }}
       />
     </div>
@@ -0,0 +1,108 @@
+'use client'
+
+import { AlertTriangle, CheckCircle2, Info } from 'lucide-react'
+import { cn } from '@/lib/shared/utils/cn'
+import { useTranslations } from '@/lib/shared/hooks/use-i18n'
+import type { Citation, EnhancedSource, MessageBlock } from '@/lib/shared/types/llm-response'
+import { MarkdownMessage } from './markdown-message'
+
+interface MessageBlocksProps {
+  blocks?: MessageBlock[]
+  // The full answer, rendered as markdown when there are no blocks (legacy and unstructured messages)
+  textMd: string
+  citations?: Citation[]
+  sources?: EnhancedSource[]
+  className?: string
+  onCitationClick?: (marker: number) => void
+}
+
+const CALLOUT_STYLES = {
+  info: { icon: Info, className: 'border-blue-200 bg-blue-50 text-blue-900' },
+  warning: { icon: AlertTriangle, className: 'border-amber-300 bg-amber-50 text-amber-900' },
+  success: { icon: CheckCircle2, className: 'border-green-200 bg-green-50 text-green-900' },
+}
+
+function toMarkdownList(items: string[], ordered?: boolean) {
+  return items.map((item, index) => `${ordered ? `${index + 1}.` : '-'} ${item}`).join('\n')
+}
+
+function toMarkdownTable(headers: string[], rows: string[][]) {
+  const row = (cells: string[]) => `| ${cells.join(' | ')} |`
+  return [row(headers), row(headers.map(() => '---')), ...rows.map(row)].join('\n')
+}
+
+export function MessageBlocks({ blocks, textMd, citations, sources = [], className, onCitationClick }: MessageBlocksProps) {
+  const t = useTranslations('blocks')
+
+  if (!blocks || blocks.length === 0) {
+    return (
+      <MarkdownMessage
+        content={textMd}
+        citations={citations}
+        className={className}
+        onCitationClick={onCitationClick}
+      />
+    )
+  }
+
+  const markdown = (content: string) => (
+    <MarkdownMessage
+      content={content}
+      citations={citations}
+      className={className}
+      onCitationClick={onCitationClick}
+    />
+  )
+
+  return (
+    <div className="space-y-2">
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'quote': {
+            const sourceIndex = block.sourceId ? sources.findIndex((source) => source.id === block.sourceId) : -1
+            const source = sourceIndex >= 0 ? sources[sourceIndex] : undefined
+            return (
+              <figure key={index} className="border-l-4 border-gray-300 bg-white/70 rounded-r-md px-3 py-2">
+                {markdown(block.md)}
+                {source && (
+                  <figcaption className="mt-1 text-xs text-gray-500">
+                    <button
+                      type="button"
+                      className="hover:text-blue-700 hover:underline"
+                      title={t('showSource')}
+                      onClick={() => onCitationClick?.(sourceIndex + 1)}
+                    >
+                      — {source.title || t('source', { number: sourceIndex + 1 })}
+                    </button>
+                  </figcaption>
+                )}
+              </figure>
+            )
+          }
+          case 'callout': {
+            const { icon: Icon, className: calloutClassName } = CALLOUT_STYLES[block.kind]
+            return (
+              <div key={index} role="note" className={cn('flex gap-2 rounded-md border p-3', calloutClassName)}>
+                <Icon className="h-4 w-4 mt-0.5 shrink-0" aria-hidden="true" />
+                <div className="min-w-0">
+                  <p className="text-xs font-semibold uppercase tracking-wide">{t(block.kind)}</p>
+                  {markdown(block.md)}
+                </div>
+              </div>
+            )
+          }
+          case 'table':
+            return (
+              <div key={index} className="overflow-x-auto">
+                {markdown(toMarkdownTable(block.headers, block.rows))}
+              </div>
+            )
+          case 'list':
+            return <div key={index}>{markdown(toMarkdownList(block.items, block.ordered))}</div>
+          default:
+            return <div key={index}>{markdown(block.md)}</div>
+        }
+      })}
+    </div>
+  )
+}
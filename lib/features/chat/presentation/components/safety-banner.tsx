@@ -0,0 +1,89 @@
+'use client'
+
+import { AlertOctagon, ExternalLink, Phone, Scale } from 'lucide-react'
+import { cn } from '@/lib/shared/utils/cn'
+import { useTranslations } from '@/lib/shared/hooks/use-i18n'
+import type { SafetyInfo } from '@/lib/shared/types/llm-response'
+
+interface SafetyProps {
+  safety?: SafetyInfo
+  className?: string
+}
+
+// Self-harm and domestic violence are emergencies; criminal proceedings and deadlines are urgent
+function isEmergency(safety: SafetyInfo) {
+  return safety.flags?.some((flag) => flag === 'selfHarm' || flag === 'domesticViolence') ?? false
+}
+
+// Shown above the answer so the notices and emergency numbers are read first
+export function SafetyBanner({ safety, className }: SafetyProps) {
+  const t = useTranslations('safety')
+
+  if (!safety?.warnings || safety.warnings.length === 0) return null
+
+  const contacts = safety.emergencyContacts || []
+  const emergency = isEmergency(safety)
+
+  return (
+    <div
+      role="alert"
+      className={cn(
+        'mb-3 rounded-md border px-3 py-2 text-sm',
+        emergency ? 'border-rose-300 bg-rose-50 text-rose-900' : 'border-amber-300 bg-amber-50 text-amber-900',
+        className
+      )}
+    >
+      <div className="flex items-center gap-1.5 font-semibold">
+        <AlertOctagon className="h-4 w-4 shrink-0" />
+        {t('title')}
+      </div>
+      <ul className="mt-1 space-y-1">
+        {safety.warnings.map((warning, index) => (
+          <li key={index}>{warning}</li>
+        ))}
+      </ul>
+      {contacts.length > 0 && (
+        <div className="mt-2">
+          <div className="text-xs font-semibold uppercase tracking-wide">{t('contacts')}</div>
+          <ul className="mt-1 flex flex-wrap gap-2">
+            {contacts.map((contact) => (
+              <li
+                key={contact.phone || contact.url || contact.name}
+                className="flex items-center gap-2 rounded border border-current/20 bg-white/70 px-2 py-1"
+              >
+                <span>{contact.name}</span>
+                {contact.phone && (
+                  <a
+                    href={`tel:${contact.phone}`}
+                    className="inline-flex items-center gap-1 font-semibold underline"
+                    title={t('call', { phone: contact.phone })}
+                  >
+                    <Phone className="h-3 w-3" />
+                    {contact.phone}
+                  </a>
+                )}
+                {contact.url && (
+                  <a href={contact.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center">
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// The "not legal advice" notice under the answer
+export function SafetyDisclaimer({ safety, className }: SafetyProps) {
+  if (!safety?.disclaimer) return null
+
+  return (
+    <p className={cn('mt-2 flex items-start gap-1.5 text-xs text-gray-500', className)}>
+      <Scale className="mt-0.5 h-3 w-3 shrink-0" />
+      {safety.disclaimer}
+    </p>
+  )
+}
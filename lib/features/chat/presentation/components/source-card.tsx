@@ -1,30 +1,61 @@
 'use client'
 
+import { useEffect, useRef } from 'react'
 import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/shared/utils/cn'
+import { useTranslations } from '@/lib/shared/hooks/use-i18n'
 import type { EnhancedSource } from '@/lib/shared/types/llm-response'
 
 interface SourceCardProps {
   source: EnhancedSource
   index: number
+  highlighted?: boolean
 }
 
-export function SourceCard({ source, index }: SourceCardProps) {
+// Scores come from the reranker, so they are comparable across answers
+function relevanceClassName(score: number): string {
+  if (score >= 0.7) return 'bg-green-100 text-green-800'
+  if (score >= 0.4) return 'bg-amber-100 text-amber-800'
+  return 'bg-gray-100 text-gray-600'
+}
+
+export function SourceCard({ source, index, highlighted = false }: SourceCardProps) {
+  const cardRef = useRef<HTMLDivElement>(null)
+  const t = useTranslations('sources')
+
+  // Bring the card into view when its citation marker is clicked
+  useEffect(() => {
+    if (highlighted) {
+      cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }
+  }, [highlighted])
+
   return (
-    <div className="border rounded-lg p-3 hover:bg-gray-50 transition-colors">
+    <div
+      ref={cardRef}
+      className={cn(
+        'border rounded-lg p-3 hover:bg-gray-50 transition-colors',
+        highlighted && 'border-blue-400 bg-blue-50 ring-2 ring-blue-200'
+      )}
+    >
       <div className="flex items-start justify-between">
         <div className="flex-1">
           <div className="flex items-center gap-2 mb-1">
             <span className="text-xs font-semibold text-blue-600">[{index + 1}]</span>
             <h4 className="text-sm font-medium text-gray-900">{source.title}</h4>
           </div>
-          <p className="text-xs text-gray-500 mb-2">Page {source.page}</p>
+          <p className="text-xs text-gray-500 mb-2">{t('page', { page: source.page })}</p>
           {source.snippet && (
             <p className="text-xs text-gray-600 leading-relaxed">{source.snippet}</p>
           )}
         </div>
         <div className="ml-3 flex flex-col items-end gap-1">
-          <Badge variant="secondary" className="text-xs">
-            {(source.score * 100).toFixed(0)}%
+          <Badge
+            variant="secondary"
+            className={cn('text-xs', relevanceClassName(source.score))}
+            title={t('relevanceHint')}
+          >
+            {t('relevance', { percent: (source.score * 100).toFixed(0) })}
           </Badge>
           {source.url && (
             <a 
@@ -33,7 +64,7 @@ export function SourceCard({ source, index }: SourceCardProps) {
               rel="noopener noreferrer"
               className="text-xs text-blue-600 hover:underline hover:text-blue-800 transition-colors"
             >
-              View source →
+              {t('view')}
             </a>
           )}
         </div>
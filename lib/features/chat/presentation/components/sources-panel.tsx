@@ -1,16 +1,24 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { SourceCard } from './source-card'
+import { useTranslations } from '@/lib/shared/hooks/use-i18n'
 import type { EnhancedSource, Citation } from '@/lib/shared/types/llm-response'
 
 interface SourcesPanelProps {
   sources: EnhancedSource[]
   citations: Citation[]
+  // 1-based marker of the source whose citation was clicked
+  highlightedMarker?: number | null
 }
 
-export function SourcesPanel({ sources, citations }: SourcesPanelProps) {
+export function SourcesPanel({ sources, citations, highlightedMarker }: SourcesPanelProps) {
   const [expanded, setExpanded] = useState(false)
+  const t = useTranslations('sources')
+
+  useEffect(() => {
+    if (highlightedMarker) setExpanded(true)
+  }, [highlightedMarker])
 
   if (sources.length === 0) return null
 
@@ -20,7 +28,7 @@ export function SourcesPanel({ sources, citations }: SourcesPanelProps) {
         onClick={() => setExpanded(!expanded)} 
         className="text-xs text-blue-600 hover:underline hover:text-blue-800 transition-colors flex items-center gap-1"
       >
-        <span>{expanded ? 'Hide' : 'Show'} {sources.length} source{sources.length !== 1 ? 's' : ''}</span>
+        <span>{t(expanded ? 'hide' : 'show', { count: sources.length })}</span>
         <span className={`transform transition-transform ${expanded ? 'rotate-180' : ''}`}>
           ▼
         </span>
@@ -29,7 +37,12 @@ export function SourcesPanel({ sources, citations }: SourcesPanelProps) {
       {expanded && (
         <div className="mt-3 space-y-2">
           {sources.map((source, i) => (
-            <SourceCard key={source.id} source={source} index={i} />
+            <SourceCard
+              key={source.id}
+              source={source}
+              index={i}
+              highlighted={highlightedMarker === i + 1}
+            />
           ))}
         </div>
       )}
@@ -0,0 +1,95 @@
+import { interpolate } from '@/lib/shared/i18n'
+import type { LanguageCode } from '@/lib/shared/types/corpus'
+import type { Notification } from '@/lib/shared/data/notifiers'
+import type { ConsultationRequest } from '../types/consultation-types'
+
+const EMAIL_TEXT: Record<LanguageCode, Record<
+  'subject' | 'greeting' | 'intro' | 'message' | 'excerpts' | 'user' | 'assistant' | 'contact' | 'phone' | 'respond' | 'footer',
+  string
+>> = {
+  de: {
+    subject: 'Anfrage für eine Beratung über Swiss Legal Assistant',
+    greeting: 'Guten Tag {name}',
+    intro: 'Eine Person, die Swiss Legal Assistant nutzt, bittet Sie um eine Beratung.',
+    message: 'Nachricht:',
+    excerpts: 'Auszüge aus dem Gespräch mit dem Assistenten:',
+    user: 'Frage',
+    assistant: 'Antwort des Assistenten',
+    contact: 'Kontakt: {email}',
+    phone: 'Telefon: {phone}',
+    respond: 'Bitte nehmen Sie die Anfrage an oder lehnen Sie sie ab:',
+    footer: 'Sie erhalten diese E-Mail, weil Sie im Anwaltsverzeichnis von Swiss Legal Assistant eingetragen sind. Antworten auf diese E-Mail gehen direkt an die anfragende Person.'
+  },
+  fr: {
+    subject: 'Demande de consultation via Swiss Legal Assistant',
+    greeting: 'Bonjour {name}',
+    intro: 'Une personne utilisant Swiss Legal Assistant souhaite vous consulter.',
+    message: 'Message :',
+    excerpts: 'Extraits de la conversation avec l’assistant :',
+    user: 'Question',
+    assistant: 'Réponse de l’assistant',
+    contact: 'Contact : {email}',
+    phone: 'Téléphone : {phone}',
+    respond: 'Veuillez accepter ou refuser la demande :',
+    footer: 'Vous recevez cet e-mail parce que vous figurez dans l’annuaire des avocats de Swiss Legal Assistant. Les réponses à cet e-mail sont envoyées directement à la personne qui vous contacte.'
+  },
+  it: {
+    subject: 'Richiesta di consulenza tramite Swiss Legal Assistant',
+    greeting: 'Buongiorno {name}',
+    intro: 'Una persona che utilizza Swiss Legal Assistant chiede una consulenza.',
+    message: 'Messaggio:',
+    excerpts: 'Estratti della conversazione con l’assistente:',
+    user: 'Domanda',
+    assistant: 'Risposta dell’assistente',
+    contact: 'Contatto: {email}',
+    phone: 'Telefono: {phone}',
+    respond: 'Accetti o rifiuti la richiesta:',
+    footer: 'Riceve questa e-mail perché figura nell’elenco degli avvocati di Swiss Legal Assistant. Le risposte a questa e-mail vanno direttamente alla persona richiedente.'
+  },
+  en: {
+    subject: 'Consultation request via Swiss Legal Assistant',
+    greeting: 'Hello {name}',
+    intro: 'Someone using Swiss Legal Assistant would like a consultation with you.',
+    message: 'Message:',
+    excerpts: 'Excerpts from their conversation with the assistant:',
+    user: 'Question',
+    assistant: "Assistant's answer",
+    contact: 'Contact: {email}',
+    phone: 'Phone: {phone}',
+    respond: 'Please accept or decline the request:',
+    footer: 'You receive this email because you are listed in the Swiss Legal Assistant lawyer directory. Replies to this email go directly to the person asking.'
+  }
+}
+
+// The email telling a lawyer about a new request
+export function buildConsultationEmail(
+  request: ConsultationRequest,
+  language: LanguageCode,
+  respondUrl: string
+): Notification {
+  const text = EMAIL_TEXT[language]
+  const lines = [interpolate(text.greeting, { name: request.lawyerName }), '', text.intro, '']
+
+  if (request.message) {
+    lines.push(text.message, request.message, '')
+  }
+  if (request.excerpts.length > 0) {
+    lines.push(text.excerpts, '')
+    for (const excerpt of request.excerpts) {
+      lines.push(`${excerpt.role === 'user' ? text.user : text.assistant}:`, excerpt.content, '')
+    }
+  }
+
+  lines.push(interpolate(text.contact, { email: request.userEmail }))
+  if (request.phone) {
+    lines.push(interpolate(text.phone, { phone: request.phone }))
+  }
+  lines.push('', text.respond, respondUrl, '', '--', text.footer)
+
+  return {
+    to: request.lawyerEmail,
+    subject: text.subject,
+    text: lines.join('\n'),
+    replyTo: request.userEmail
+  }
+}
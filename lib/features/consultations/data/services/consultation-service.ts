@@ -0,0 +1,165 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import { BaseAdminService } from '@/lib/shared/data/services/base_admin_service'
+import { createNotifier, type Notifier } from '@/lib/shared/data/notifiers'
+import type { Lawyer } from '@/lib/features/chat/data/services/lawyer-service'
+import type { ConsultationRequestInput } from '@/lib/shared/validations/consultations'
+import type {
+  ConsultationRequest,
+  ConsultationRequestListItem,
+  ConsultationResponseView,
+  ConsultationStatus
+} from '../types/consultation-types'
+import { buildConsultationEmail } from './consultation-email'
+
+// Allowed status changes; declined and closed requests are final
+const TRANSITIONS: Record<ConsultationStatus, ConsultationStatus[]> = {
+  sent: ['accepted', 'declined', 'closed'],
+  accepted: ['closed'],
+  declined: [],
+  closed: []
+}
+
+export function canTransition(from: ConsultationStatus, to: ConsultationStatus): boolean {
+  return TRANSITIONS[from].includes(to)
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex')
+
+export class ConsultationService extends BaseAdminService<ConsultationRequest> {
+  private notifier: Notifier | null
+
+  // The notifier defaults to the NOTIFIER env var and is only created when a request is sent
+  constructor(notifier?: Notifier) {
+    super('consultation_requests')
+    this.notifier = notifier || null
+  }
+
+  /**
+   * Stores the request and emails the lawyer a link to accept or decline it.
+   * If the email can't be sent the request is removed again, so users never
+   * wait on a lawyer who was not told.
+   */
+  async createRequest(params: {
+    userId: string
+    userEmail: string
+    lawyer: Lawyer
+    input: ConsultationRequestInput
+    // Base URL of the app for the lawyer's reply link
+    appUrl: string
+  }): Promise<ConsultationRequest> {
+    const { userId, userEmail, lawyer, input, appUrl } = params
+    const token = randomBytes(32).toString('base64url')
+    // Before storing, so a misconfigured notifier leaves no request behind
+    const notifier = this.notifier || createNotifier()
+
+    const result = await this.create({
+      id: randomUUID(),
+      userId,
+      userEmail,
+      phone: input.phone || null,
+      lawyerId: lawyer.id!,
+      lawyerName: lawyer.name,
+      lawyerEmail: lawyer.email,
+      conversationId: input.conversationId || null,
+      message: input.message,
+      excerpts: input.excerpts,
+      language: input.language,
+      status: 'sent',
+      lawyerReply: null,
+      respondedAt: null,
+      closedAt: null,
+      notification: null,
+      responseTokenHash: hashToken(token)
+    })
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to store consultation request')
+    }
+    const request = this.normalize(result.data)
+
+    // The email is in the user's language if the lawyer speaks it
+    const language = lawyer.languages?.includes(input.language) ? input.language : lawyer.languages?.[0] || 'en'
+    const respondUrl = `${appUrl}/consultations/respond?id=${request.id}&token=${token}`
+    try {
+      await notifier.send(buildConsultationEmail(request, language, respondUrl))
+    } catch (error) {
+      await this.delete(request.id!)
+      throw error
+    }
+
+    const notification = { channel: notifier.name, sentAt: new Date() }
+    await this.update(request.id!, { notification })
+    return { ...request, notification }
+  }
+
+  async getRequestsForUser(userId: string): Promise<ConsultationRequest[]> {
+    const result = await this.search('userId', userId)
+    return result.success ? (result.data || []).map(request => this.normalize(request)) : []
+  }
+
+  // Null when the request doesn't exist or belongs to another user, so callers can answer both with 404
+  async getRequestForUser(id: string, userId: string): Promise<ConsultationRequest | null> {
+    const result = await this.getById(id)
+    if (!result.success || !result.data) return null
+    return result.data.userId === userId ? this.normalize(result.data) : null
+  }
+
+  // Null unless the token is the one from the lawyer's email
+  async getRequestByToken(id: string, token: string): Promise<ConsultationRequest | null> {
+    const result = await this.getById(id)
+    if (!result.success || !result.data) return null
+
+    const expected = Buffer.from(result.data.responseTokenHash, 'hex')
+    const actual = Buffer.from(hashToken(token), 'hex')
+    return expected.length === actual.length && timingSafeEqual(expected, actual) ? this.normalize(result.data) : null
+  }
+
+  // Callers check canTransition first
+  async setStatus(id: string, status: ConsultationStatus, lawyerReply?: string): Promise<ConsultationRequest | null> {
+    const now = new Date()
+    const result = await this.update(id, {
+      status,
+      ...(status === 'closed' ? { closedAt: now } : { respondedAt: now, lawyerReply: lawyerReply || null })
+    })
+    return result.success && result.data ? this.normalize(result.data) : null
+  }
+
+  toListItem(request: ConsultationRequest): ConsultationRequestListItem {
+    return {
+      id: request.id!,
+      lawyer_id: request.lawyerId,
+      lawyer_name: request.lawyerName,
+      conversation_id: request.conversationId,
+      message: request.message,
+      excerpts: request.excerpts,
+      phone: request.phone,
+      status: request.status,
+      lawyer_reply: request.lawyerReply,
+      created_at: request.createdAt?.toISOString() || new Date().toISOString(),
+      responded_at: request.respondedAt?.toISOString() || null,
+      closed_at: request.closedAt?.toISOString() || null
+    }
+  }
+
+  toResponseView(request: ConsultationRequest): ConsultationResponseView {
+    return {
+      id: request.id!,
+      lawyer_name: request.lawyerName,
+      message: request.message,
+      excerpts: request.excerpts,
+      status: request.status,
+      created_at: request.createdAt?.toISOString() || new Date().toISOString()
+    }
+  }
+
+  private normalize(request: ConsultationRequest): ConsultationRequest {
+    const toDate = (value: any) => (value && typeof value.toDate === 'function' ? value.toDate() : value)
+    return {
+      ...request,
+      createdAt: toDate(request.createdAt),
+      updatedAt: toDate(request.updatedAt),
+      respondedAt: toDate(request.respondedAt),
+      closedAt: toDate(request.closedAt),
+      notification: request.notification && { ...request.notification, sentAt: toDate(request.notification.sentAt) }
+    }
+  }
+}
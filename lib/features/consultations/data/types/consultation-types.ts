@@ -0,0 +1,70 @@
+import type { LanguageCode } from '@/lib/shared/types/corpus'
+
+// sent → accepted | declined by the lawyer; the user closes a sent or accepted request
+export type ConsultationStatus = 'sent' | 'accepted' | 'declined' | 'closed'
+
+// A message of the conversation the user chose to share
+export interface ConsultationExcerpt {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface ConsultationNotification {
+  // Notifier that delivered the request to the lawyer, e.g. "smtp"
+  channel: string
+  sentAt: Date
+}
+
+// A document in the `consultation_requests` collection
+export interface ConsultationRequest {
+  id?: string
+  userId: string
+  userEmail: string
+  // Optional phone number the lawyer may call back on
+  phone: string | null
+  lawyerId: string
+  // Copied from the directory when the request is sent
+  lawyerName: string
+  lawyerEmail: string
+  conversationId: string | null
+  message: string
+  excerpts: ConsultationExcerpt[]
+  // Language of the user's interface; the lawyer's email is written in it if they speak it
+  language: LanguageCode
+  status: ConsultationStatus
+  // The lawyer's note when accepting or declining
+  lawyerReply: string | null
+  respondedAt: Date | null
+  closedAt: Date | null
+  notification: ConsultationNotification | null
+  // SHA-256 of the secret in the lawyer's reply link; never leaves the server
+  responseTokenHash: string
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+// API response interfaces
+export interface ConsultationRequestListItem {
+  id: string
+  lawyer_id: string
+  lawyer_name: string
+  conversation_id: string | null
+  message: string
+  excerpts: ConsultationExcerpt[]
+  phone: string | null
+  status: ConsultationStatus
+  lawyer_reply: string | null
+  created_at: string
+  responded_at: string | null
+  closed_at: string | null
+}
+
+// What the lawyer's reply page shows, behind the secret link
+export interface ConsultationResponseView {
+  id: string
+  lawyer_name: string
+  message: string
+  excerpts: ConsultationExcerpt[]
+  status: ConsultationStatus
+  created_at: string
+}
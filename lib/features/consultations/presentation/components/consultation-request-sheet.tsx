@@ -0,0 +1,184 @@
+'use client'
+
+import React, { useState } from 'react'
+import { toast } from 'sonner'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { Sheet, SheetContent } from '@/components/ui/sheet'
+import { auth } from '@/lib/shared/core/config'
+import { cn } from '@/lib/shared/utils/cn'
+import { useLocale, useTranslations } from '@/lib/shared/hooks/use-i18n'
+import type { LawyerRecommendation } from '@/lib/shared/types/lawyer'
+import type { ConsultationExcerpt } from '../../data/types/consultation-types'
+
+interface ConsultationRequestSheetProps {
+  // The sheet is open while a lawyer is set
+  lawyer: LawyerRecommendation | null
+  conversationId?: string
+  // The conversation's messages, in order
+  messages: ConsultationExcerpt[]
+  // Indexes into messages that start out selected
+  initialSelection: number[]
+  token: string | null
+  onClose: () => void
+}
+
+export function ConsultationRequestSheet({
+  lawyer,
+  conversationId,
+  messages,
+  initialSelection,
+  token,
+  onClose
+}: ConsultationRequestSheetProps) {
+  return (
+    <Sheet open={lawyer !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full max-w-lg overflow-y-auto p-6">
+        {lawyer && (
+          <ConsultationRequestForm
+            key={lawyer.id}
+            lawyer={lawyer}
+            conversationId={conversationId}
+            messages={messages}
+            initialSelection={initialSelection}
+            token={token}
+            onClose={onClose}
+          />
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
+
+function ConsultationRequestForm({
+  lawyer,
+  conversationId,
+  messages,
+  initialSelection,
+  token,
+  onClose
+}: ConsultationRequestSheetProps & { lawyer: LawyerRecommendation }) {
+  const t = useTranslations('consultation')
+  const locale = useLocale()
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(initialSelection))
+  const [message, setMessage] = useState('')
+  const [phone, setPhone] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggle = (index: number) =>
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      return next
+    })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const excerpts = messages.filter((_, index) => selected.has(index))
+    if (!message.trim() && excerpts.length === 0) {
+      setError(t('empty'))
+      return
+    }
+
+    setError(null)
+    setSubmitting(true)
+    try {
+      const response = await fetch('/api/consultations', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          lawyerId: lawyer.id,
+          conversationId: conversationId || null,
+          message,
+          phone: phone || null,
+          excerpts,
+          language: locale
+        })
+      })
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+      toast.success(t('sent', { name: lawyer.name }))
+      onClose()
+    } catch (error) {
+      console.error('Error requesting consultation:', error)
+      toast.error(t('failed'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+      <div>
+        <h2 className="text-lg font-semibold">{t('title', { name: lawyer.name })}</h2>
+        <p className="text-sm text-gray-500">{t('description', { name: lawyer.name })}</p>
+      </div>
+
+      {messages.length > 0 && (
+        <fieldset className="grid gap-2">
+          <legend className="text-sm font-medium">{t('excerpts')}</legend>
+          <p className="text-xs text-gray-500">{t('excerptsHint')}</p>
+          <div className="max-h-72 space-y-2 overflow-y-auto">
+            {messages.map((excerpt, index) => (
+              <label
+                key={index}
+                className={cn(
+                  'flex cursor-pointer items-start gap-2 rounded-md border p-2 text-sm',
+                  selected.has(index) ? 'border-blue-300 bg-blue-50' : 'border-gray-200'
+                )}
+              >
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={selected.has(index)}
+                  onChange={() => toggle(index)}
+                />
+                <span className="min-w-0">
+                  <span className="block text-xs font-medium text-gray-500">
+                    {excerpt.role === 'user' ? t('you') : t('assistant')}
+                  </span>
+                  <span className="line-clamp-3 whitespace-pre-line text-gray-800">{excerpt.content}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      <div className="grid gap-1">
+        <Label htmlFor="consultation-message">{t('message')}</Label>
+        <textarea
+          id="consultation-message"
+          rows={4}
+          maxLength={2000}
+          value={message}
+          placeholder={t('messagePlaceholder')}
+          onChange={(e) => setMessage(e.target.value)}
+          className="border-input placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:ring-[3px]"
+        />
+      </div>
+
+      <div className="grid gap-1">
+        <Label htmlFor="consultation-phone">{t('phone')}</Label>
+        <Input id="consultation-phone" type="tel" maxLength={30} value={phone} onChange={(e) => setPhone(e.target.value)} />
+      </div>
+
+      {auth.currentUser?.email && (
+        <p className="text-xs text-gray-500">{t('contactNote', { email: auth.currentUser.email })}</p>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onClose}>{t('cancel')}</Button>
+        <Button type="submit" disabled={submitting}>{submitting ? t('sending') : t('send')}</Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,126 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { ArrowLeft } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { auth } from '@/lib/shared/core/config'
+import { useLocale, useTranslations } from '@/lib/shared/hooks/use-i18n'
+import { formatDate } from '@/lib/shared/i18n'
+import { ConsultationStatusBadge } from './consultation-status-badge'
+import type { ConsultationRequestListItem } from '../../data/types/consultation-types'
+
+// Calls an /api/consultations route with the signed-in user's ID token
+async function userFetch(path: string, init: RequestInit = {}) {
+  const token = await auth.currentUser?.getIdToken()
+  return fetch(path, {
+    ...init,
+    headers: { ...init.headers, ...(token && { Authorization: `Bearer ${token}` }) }
+  })
+}
+
+export function ConsultationRequests() {
+  const t = useTranslations('consultation')
+  const locale = useLocale()
+  const [requests, setRequests] = useState<ConsultationRequestListItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [closing, setClosing] = useState<string | null>(null)
+
+  const loadRequests = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await userFetch('/api/consultations')
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`)
+      const data = await response.json()
+      setRequests(data.requests)
+    } catch (error) {
+      console.error('Error loading consultation requests:', error)
+      toast.error(t('loadFailed'))
+    } finally {
+      setLoading(false)
+    }
+  }, [t])
+
+  useEffect(() => {
+    // The ID token is only available once Firebase has restored the session
+    return auth.onAuthStateChanged((user) => {
+      if (user) loadRequests()
+    })
+  }, [loadRequests])
+
+  const closeRequest = async (id: string) => {
+    setClosing(id)
+    try {
+      const response = await userFetch(`/api/consultations/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'closed' })
+      })
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`)
+      const data = await response.json()
+      setRequests((prev) => prev.map((request) => (request.id === id ? data.request : request)))
+    } catch (error) {
+      console.error('Error closing consultation request:', error)
+      toast.error(t('closeFailed'))
+    } finally {
+      setClosing(null)
+    }
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl p-6">
+      <Link href="/chat" className="mb-4 inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="h-4 w-4" />
+        {t('backToChat')}
+      </Link>
+      <h1 className="text-xl font-semibold text-gray-900">{t('myRequests')}</h1>
+      <p className="mb-4 text-sm text-gray-500">{t('myRequestsHint')}</p>
+
+      {loading && requests.length === 0 ? (
+        <p className="py-6 text-center text-gray-500">{t('loading')}</p>
+      ) : requests.length === 0 ? (
+        <p className="py-6 text-center text-gray-500">{t('noRequests')}</p>
+      ) : (
+        <div className="space-y-3">
+          {requests.map((request) => (
+            <Card key={request.id} className="shadow-none">
+              <CardContent className="space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <h2 className="font-semibold text-gray-900">{request.lawyer_name}</h2>
+                    <p className="text-xs text-gray-500">
+                      {t('sentOn', { date: formatDate(new Date(request.created_at), locale) })}
+                      {request.excerpts.length > 0 && ` · ${t('sharedMessages', { count: request.excerpts.length })}`}
+                    </p>
+                  </div>
+                  <ConsultationStatusBadge status={request.status} />
+                </div>
+                {request.message && <p className="whitespace-pre-line text-sm text-gray-700">{request.message}</p>}
+                {request.lawyer_reply && (
+                  <div className="rounded-md bg-gray-50 p-2 text-sm">
+                    <p className="text-xs font-medium text-gray-500">{t('lawyerReply')}</p>
+                    <p className="whitespace-pre-line text-gray-800">{request.lawyer_reply}</p>
+                  </div>
+                )}
+                {(request.status === 'sent' || request.status === 'accepted') && (
+                  <div className="flex justify-end">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={closing === request.id}
+                      onClick={() => closeRequest(request.id)}
+                    >
+                      {t('close')}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { useTranslations } from '@/lib/shared/hooks/use-i18n'
+import { ConsultationStatusBadge, STATUS_LABEL_KEYS } from './consultation-status-badge'
+import type { ConsultationResponseView } from '../../data/types/consultation-types'
+
+// The page a lawyer reaches from the link in their email; the token stands in for a login
+export function ConsultationResponse() {
+  const t = useTranslations('consultation')
+  const searchParams = useSearchParams()
+  const id = searchParams.get('id') || ''
+  const token = searchParams.get('token') || ''
+  const [request, setRequest] = useState<ConsultationResponseView | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [reply, setReply] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [answered, setAnswered] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadRequest = async () => {
+      try {
+        const response = await fetch(`/api/consultations/${encodeURIComponent(id)}/respond?token=${encodeURIComponent(token)}`)
+        if (response.ok) {
+          const data = await response.json()
+          setRequest(data.request)
+        }
+      } catch (error) {
+        console.error('Error loading consultation request:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    if (id && token) loadRequest()
+    else setLoading(false)
+  }, [id, token])
+
+  const respond = async (status: 'accepted' | 'declined') => {
+    setSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/consultations/${encodeURIComponent(id)}/respond`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, status, ...(reply.trim() && { reply }) })
+      })
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`)
+      const data = await response.json()
+      setRequest(data.request)
+      setAnswered(true)
+    } catch (error) {
+      console.error('Error responding to consultation request:', error)
+      setError(t('respondFailed'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="flex min-h-svh items-center justify-center text-gray-500">{t('loading')}</div>
+  }
+  if (!request) {
+    return <div className="flex min-h-svh items-center justify-center text-gray-600">{t('notFound')}</div>
+  }
+
+  return (
+    <div className="mx-auto max-w-2xl space-y-4 p-6">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold text-gray-900">{t('respondTitle')}</h1>
+          <p className="text-sm text-gray-500">{t('respondIntro')}</p>
+        </div>
+        <ConsultationStatusBadge status={request.status} />
+      </div>
+
+      {request.message && (
+        <div>
+          <p className="text-sm font-medium">{t('message')}</p>
+          <p className="whitespace-pre-line text-sm text-gray-800">{request.message}</p>
+        </div>
+      )}
+
+      {request.excerpts.length > 0 && (
+        <div className="space-y-2">
+          {request.excerpts.map((excerpt, index) => (
+            <div key={index} className="rounded-md border p-3 text-sm">
+              <p className="text-xs font-medium text-gray-500">{excerpt.role === 'user' ? t('you') : t('assistant')}</p>
+              <p className="whitespace-pre-line text-gray-800">{excerpt.content}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {answered ? (
+        <p className="rounded-md bg-green-50 p-3 text-sm text-green-800">{t('respondDone')}</p>
+      ) : request.status !== 'sent' ? (
+        <p className="rounded-md bg-gray-50 p-3 text-sm text-gray-700">
+          {t('currentStatus', { status: t(STATUS_LABEL_KEYS[request.status]) })}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid gap-1">
+            <Label htmlFor="consultation-reply">{t('reply')}</Label>
+            <textarea
+              id="consultation-reply"
+              rows={3}
+              maxLength={1000}
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              className="border-input focus-visible:border-ring focus-visible:ring-ring/50 w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:ring-[3px]"
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" disabled={submitting} onClick={() => respond('declined')}>{t('decline')}</Button>
+            <Button disabled={submitting} onClick={() => respond('accepted')}>{t('accept')}</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+'use client'
+
+import React from 'react'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/shared/utils/cn'
+import { useTranslations } from '@/lib/shared/hooks/use-i18n'
+import type { ConsultationStatus } from '../../data/types/consultation-types'
+
+export const STATUS_LABEL_KEYS = {
+  sent: 'statusSent',
+  accepted: 'statusAccepted',
+  declined: 'statusDeclined',
+  closed: 'statusClosed'
+} as const satisfies Record<ConsultationStatus, string>
+
+const STATUS_STYLES: Record<ConsultationStatus, string> = {
+  sent: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-800',
+  closed: 'bg-gray-100 text-gray-600'
+}
+
+export function ConsultationStatusBadge({ status }: { status: ConsultationStatus }) {
+  const t = useTranslations('consultation')
+  return (
+    <Badge variant="secondary" className={cn('border-0', STATUS_STYLES[status])}>
+      {t(STATUS_LABEL_KEYS[status])}
+    </Badge>
+  )
+}
@@ -0,0 +1,10 @@
+import { ConsultationRequests } from '../components/consultation-requests'
+import { ProtectedPageGuard } from '@/lib/shared/components/auth-guard'
+
+export default async function ConsultationRequestsPage() {
+  return (
+    <ProtectedPageGuard>
+      <ConsultationRequests />
+    </ProtectedPageGuard>
+  )
+}
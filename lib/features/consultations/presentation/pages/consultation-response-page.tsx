@@ -0,0 +1,11 @@
+import { Suspense } from 'react'
+import { ConsultationResponse } from '../components/consultation-response'
+
+// Public: lawyers have no account and are authorised by the token in their link
+export default function ConsultationResponsePage() {
+  return (
+    <Suspense fallback={<div className="flex min-h-svh items-center justify-center">Loading...</div>}>
+      <ConsultationResponse />
+    </Suspense>
+  )
+}
@@ -0,0 +1,31 @@
+'use client'
+
+import { Languages } from 'lucide-react'
+import { cn } from '@/lib/shared/utils/cn'
+import { useI18n, useTranslations } from '@/lib/shared/hooks/use-i18n'
+import { LOCALES, LOCALE_LABELS, isLocale } from '@/lib/shared/i18n'
+
+export function LocaleSwitcher({ className }: { className?: string }) {
+  const { locale, setLocale } = useI18n()
+  const t = useTranslations('locale')
+
+  return (
+    <label className={cn('flex items-center gap-2 text-sm text-gray-600', className)}>
+      <Languages className="h-4 w-4" aria-hidden="true" />
+      <span className="sr-only">{t('label')}</span>
+      <select
+        value={locale}
+        onChange={(e) => {
+          if (isLocale(e.target.value)) setLocale(e.target.value)
+        }}
+        className="h-8 rounded-md border border-input bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50"
+      >
+        {LOCALES.map((code) => (
+          <option key={code} value={code}>
+            {LOCALE_LABELS[code]}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
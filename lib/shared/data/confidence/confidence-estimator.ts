@@ -0,0 +1,198 @@
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { Citation, ConfidenceBreakdown } from "@/lib/shared/types/llm-response";
+
+// Abbreviations whose trailing period doesn't end a sentence ("Art. 8", "Abs. 2")
+export const SENTENCE_ABBREVIATIONS = [
+  "art", "abs", "al", "lit", "ziff", "nr", "bzw", "vgl", "cf", "para", "dr", "z.b", "e.g", "i.e",
+];
+
+// Cosine similarities of relevant chunks rarely leave this band with current
+// embedding models, so it is stretched to [0, 1]
+const SIMILARITY_FLOOR = 0.2;
+const SIMILARITY_CEILING = 0.6;
+
+// Only the best few excerpts carry an answer
+const TOP_EXCERPTS = 3;
+
+// Sentences shorter than this (after markup) are headings, lead-ins or filler
+const MIN_SENTENCE_LENGTH = 30;
+
+const WEIGHTS: Record<keyof ConfidenceBreakdown, number> = {
+  retrievalSimilarity: 0.3,
+  rerankerAgreement: 0.2,
+  citationCoverage: 0.3,
+  faithfulness: 0.2,
+};
+
+// The retrieval signals a kept excerpt carries (see RetrievedDocument)
+export interface RetrievalSignal {
+  retrieverScores: Record<string, number>;
+  relevance: number;
+  rerankScore?: number;
+  // 1-based position in the fused ranking, before reranking
+  fusedRank?: number;
+}
+
+export interface ConfidenceInputs {
+  retrieved: RetrievalSignal[];
+  answer: string;
+  citations: Citation[];
+  // Excerpts kept after reranking
+  topK: number;
+  faithfulness?: number;
+}
+
+export interface ConfidenceEstimate {
+  confidence: number;
+  breakdown: ConfidenceBreakdown;
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Weighted mean of the measured signals; unmeasured ones (no reranker, no
+ * self-check) drop out and the remaining weights are rescaled.
+ */
+export function estimateConfidence(inputs: ConfidenceInputs): ConfidenceEstimate {
+  const top = inputs.retrieved.slice(0, TOP_EXCERPTS);
+
+  const breakdown: ConfidenceBreakdown = {
+    retrievalSimilarity: round(retrievalSimilarity(top)),
+    citationCoverage: round(citationCoverage(inputs.answer, inputs.citations)),
+  };
+
+  const reranked = top.filter((doc) => doc.rerankScore !== undefined);
+  if (reranked.length > 0) {
+    // Excerpts the reranker promoted from outside the fused top-k count half
+    breakdown.rerankerAgreement = round(
+      mean(
+        reranked.map(
+          (doc) => doc.rerankScore! * ((doc.fusedRank ?? 1) <= inputs.topK ? 1 : 0.5)
+        )
+      )
+    );
+  }
+  if (inputs.faithfulness !== undefined) {
+    breakdown.faithfulness = round(clamp(inputs.faithfulness));
+  }
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [signal, value] of Object.entries(breakdown) as [keyof ConfidenceBreakdown, number][]) {
+    weighted += WEIGHTS[signal] * value;
+    totalWeight += WEIGHTS[signal];
+  }
+
+  return { confidence: round(totalWeight > 0 ? weighted / totalWeight : 0), breakdown };
+}
+
+// Cosine similarity where the vector search found the excerpt, its relevance otherwise
+function retrievalSimilarity(top: RetrievalSignal[]): number {
+  return mean(
+    top.map((doc) =>
+      doc.retrieverScores.vector !== undefined
+        ? clamp((doc.retrieverScores.vector - SIMILARITY_FLOOR) / (SIMILARITY_CEILING - SIMILARITY_FLOOR))
+        : clamp(doc.relevance)
+    )
+  );
+}
+
+// Share of substantive sentences that overlap a cited span
+function citationCoverage(answer: string, citations: Citation[]): number {
+  const sentences = splitSentences(answer).filter(
+    ({ text }) => text.length >= MIN_SENTENCE_LENGTH && !text.endsWith(":")
+  );
+  if (sentences.length === 0) return 0;
+
+  const spans = citations.flatMap((citation) => (citation.offsets ? [citation.offsets] : []));
+  const cited = sentences.filter(({ start, end }) =>
+    spans.some((span) => span.start < end && span.end > start)
+  );
+  return cited.length / sentences.length;
+}
+
+/**
+ * Sentences of a markdown answer with their character ranges, leaving out
+ * headings, code blocks and bare citation markers
+ */
+export function splitSentences(text: string): { text: string; start: number; end: number }[] {
+  const sentences: { text: string; start: number; end: number }[] = [];
+  let inCode = false;
+  let lineStart = 0;
+
+  for (const line of text.split("\n")) {
+    const offset = lineStart;
+    lineStart += line.length + 1;
+
+    if (line.trimStart().startsWith("```")) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode || /^\s*#{1,6}\s/.test(line)) continue;
+
+    let sentenceStart = 0;
+    for (let i = 0; i <= line.length; i++) {
+      const atEnd = i === line.length;
+      const char = line[i];
+      if (!atEnd && !(".!?".includes(char) && /\s/.test(line[i + 1] || " "))) continue;
+
+      if (!atEnd && char === ".") {
+        const word = line.slice(sentenceStart, i).split(/\s/).pop()?.toLowerCase() || "";
+        const isListNumber = /^\d+$/.test(word) && line.slice(0, i).trim() === word;
+        if (SENTENCE_ABBREVIATIONS.includes(word) || isListNumber) continue;
+      }
+
+      const end = atEnd ? i : i + 1;
+      const raw = line.slice(sentenceStart, end);
+      const content = raw
+        .replace(/\[\d+\]/g, "")
+        .replace(/^\s*(?:[-*+]|\d+\.|>)\s+/, "")
+        .replace(/[*_`]/g, "")
+        .trim();
+      if (content) {
+        sentences.push({ text: content, start: offset + sentenceStart, end: offset + end });
+      }
+      sentenceStart = end;
+    }
+  }
+
+  return sentences;
+}
+
+/**
+ * Optional self-check: the model grades how fully the sources support the
+ * answer. Returns undefined when the reply can't be read.
+ */
+export async function checkFaithfulness(
+  llm: BaseChatModel,
+  answer: string,
+  context: string
+): Promise<number | undefined> {
+  try {
+    const response = await llm.invoke(`You check answers of a legal assistant against their sources.
+
+SOURCES:
+${context}
+
+ANSWER:
+${answer}
+
+On a scale from 0 (contradicted or unsupported) to 10 (every factual claim is supported by the sources), how well do the sources support the answer? Reply with only the number.`);
+    const text = typeof response.content === "string" ? response.content : JSON.stringify(response.content);
+    const match = text.match(/\d+(?:\.\d+)?/);
+    return match ? clamp(parseFloat(match[0]) / 10) : undefined;
+  } catch (error) {
+    console.warn("Faithfulness self-check failed:", error);
+    return undefined;
+  }
+}
@@ -0,0 +1,105 @@
+import type { Canton } from "@/lib/shared/types/canton";
+import { SWISS_POSTCODES } from "./swiss-postcodes";
+
+export interface SwissLocation {
+  postcode: string;
+  locality: string;
+  canton: Canton;
+  lat: number;
+  lon: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Exonyms and the other official names of bilingual towns, normalised
+const LOCALITY_ALIASES: Record<string, string> = {
+  geneva: "geneve",
+  genf: "geneve",
+  ginevra: "geneve",
+  zurigo: "zurich",
+  berne: "bern",
+  berna: "bern",
+  lucerne: "luzern",
+  lucerna: "luzern",
+  bale: "basel",
+  basle: "basel",
+  basilea: "basel",
+  biel: "biel/bienne",
+  bienne: "biel/bienne",
+  freiburg: "fribourg",
+  friburgo: "fribourg",
+  neuenburg: "neuchatel",
+  sitten: "sion",
+  soleure: "solothurn",
+  "sankt gallen": "st. gallen",
+  "st gallen": "st. gallen",
+  "saint-gall": "st. gallen",
+  "san gallo": "st. gallen",
+  coire: "chur",
+  coira: "chur",
+  bellinzone: "bellinzona",
+  lugan: "lugano",
+  morat: "murten",
+  delsberg: "delemont",
+  pruntrut: "porrentruy",
+};
+
+const locations: SwissLocation[] = SWISS_POSTCODES.map(([postcode, locality, canton, lat, lon]) => ({
+  postcode,
+  locality,
+  canton,
+  lat,
+  lon,
+}));
+
+const normalize = (name: string) =>
+  name.normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Resolves a Swiss postcode. Postcodes missing from the table resolve to the
+ * numerically closest listed postcode sharing the first three, then two digits.
+ * That one lies in the same postal area, but not necessarily nearby: postal
+ * areas span valleys and lakes, so the error can reach tens of kilometres.
+ */
+export function findByPostcode(postcode: string): SwissLocation | null {
+  const code = postcode.trim();
+  if (!/^\d{4}$/.test(code)) return null;
+
+  for (const prefixLength of [4, 3, 2]) {
+    const prefix = code.slice(0, prefixLength);
+    const candidates = locations.filter((location) => location.postcode.startsWith(prefix));
+    if (candidates.length > 0) {
+      return candidates.reduce((best, location) =>
+        Math.abs(Number(location.postcode) - Number(code)) < Math.abs(Number(best.postcode) - Number(code))
+          ? location
+          : best
+      );
+    }
+  }
+  return null;
+}
+
+// Matches the locality name in any national language; towns with several postcodes resolve to their centre.
+// Only localities in the postcode table are found.
+export function findByLocality(name: string): SwissLocation | null {
+  const normalized = normalize(name);
+  const target = LOCALITY_ALIASES[normalized] ?? normalized;
+  return locations.find((location) => normalize(location.locality) === target) ?? null;
+}
+
+// The postcode wins when both are given
+export function findLocation({ postcode, city }: { postcode?: string; city?: string }): SwissLocation | null {
+  if (postcode) return findByPostcode(postcode);
+  if (city) return findByLocality(city);
+  return null;
+}
+
+// Great-circle distance in kilometres
+export function distanceKm(a: Pick<SwissLocation, "lat" | "lon">, b: Pick<SwissLocation, "lat" | "lon">): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
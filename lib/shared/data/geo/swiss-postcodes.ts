@@ -0,0 +1,245 @@
+import type { Canton } from "@/lib/shared/types/canton";
+
+// [postcode, locality, canton, latitude, longitude] in WGS84, placing each locality to
+// within about 1 km. Not the official list: about 200 of Switzerland's roughly 3,200
+// postcodes, namely the cantonal capitals, larger towns and the inner-city districts of
+// the big cities. Other postcodes resolve to a numerically close listed one, which can
+// be tens of kilometres away; other localities are not found at all.
+// Where a locality has several postcodes, its first entry is its centre.
+export type SwissPostcodeEntry = [postcode: string, locality: string, canton: Canton, lat: number, lon: number];
+
+export const SWISS_POSTCODES: SwissPostcodeEntry[] = [
+  // Geneva and Vaud
+  ["1200", "Genève", "GE", 46.2044, 6.1432],
+  ["1201", "Genève", "GE", 46.21, 6.142],
+  ["1202", "Genève", "GE", 46.22, 6.145],
+  ["1203", "Genève", "GE", 46.21, 6.125],
+  ["1204", "Genève", "GE", 46.202, 6.148],
+  ["1205", "Genève", "GE", 46.195, 6.14],
+  ["1206", "Genève", "GE", 46.19, 6.16],
+  ["1207", "Genève", "GE", 46.205, 6.165],
+  ["1208", "Genève", "GE", 46.198, 6.165],
+  ["1209", "Genève", "GE", 46.225, 6.125],
+  ["1212", "Grand-Lancy", "GE", 46.18, 6.12],
+  ["1213", "Onex", "GE", 46.184, 6.102],
+  ["1214", "Vernier", "GE", 46.217, 6.085],
+  ["1217", "Meyrin", "GE", 46.234, 6.08],
+  ["1225", "Chêne-Bourg", "GE", 46.195, 6.195],
+  ["1226", "Thônex", "GE", 46.193, 6.203],
+  ["1227", "Carouge", "GE", 46.181, 6.139],
+  ["1228", "Plan-les-Ouates", "GE", 46.168, 6.117],
+  ["1290", "Versoix", "GE", 46.284, 6.163],
+  ["1003", "Lausanne", "VD", 46.52, 6.633],
+  ["1004", "Lausanne", "VD", 46.527, 6.62],
+  ["1005", "Lausanne", "VD", 46.52, 6.645],
+  ["1006", "Lausanne", "VD", 46.51, 6.625],
+  ["1007", "Lausanne", "VD", 46.515, 6.615],
+  ["1010", "Lausanne", "VD", 46.535, 6.65],
+  ["1018", "Lausanne", "VD", 46.54, 6.625],
+  ["1020", "Renens", "VD", 46.539, 6.588],
+  ["1110", "Morges", "VD", 46.511, 6.499],
+  ["1196", "Gland", "VD", 46.421, 6.27],
+  ["1260", "Nyon", "VD", 46.383, 6.239],
+  ["1350", "Orbe", "VD", 46.724, 6.532],
+  ["1400", "Yverdon-les-Bains", "VD", 46.7785, 6.641],
+  ["1510", "Moudon", "VD", 46.668, 6.798],
+  ["1530", "Payerne", "VD", 46.822, 6.938],
+  ["1800", "Vevey", "VD", 46.463, 6.843],
+  ["1820", "Montreux", "VD", 46.431, 6.911],
+  ["1860", "Aigle", "VD", 46.318, 6.97],
+
+  // Fribourg
+  ["1700", "Fribourg", "FR", 46.8065, 7.162],
+  ["1630", "Bulle", "FR", 46.619, 7.057],
+  ["1680", "Romont", "FR", 46.696, 6.918],
+  ["1470", "Estavayer-le-Lac", "FR", 46.849, 6.846],
+  ["3186", "Düdingen", "FR", 46.849, 7.189],
+  ["3280", "Murten", "FR", 46.928, 7.117],
+
+  // Valais
+  ["1950", "Sion", "VS", 46.2331, 7.3606],
+  ["1870", "Monthey", "VS", 46.255, 6.954],
+  ["1890", "Saint-Maurice", "VS", 46.218, 7.003],
+  ["1920", "Martigny", "VS", 46.102, 7.072],
+  ["1936", "Verbier", "VS", 46.096, 7.228],
+  ["3900", "Brig", "VS", 46.315, 7.987],
+  ["3920", "Zermatt", "VS", 46.0207, 7.7491],
+  ["3930", "Visp", "VS", 46.294, 7.881],
+  ["3954", "Leukerbad", "VS", 46.38, 7.627],
+  ["3960", "Sierre", "VS", 46.292, 7.535],
+  ["3963", "Crans-Montana", "VS", 46.311, 7.48],
+
+  // Neuchâtel and Jura
+  ["2000", "Neuchâtel", "NE", 46.99, 6.9293],
+  ["2017", "Boudry", "NE", 46.95, 6.838],
+  ["2300", "La Chaux-de-Fonds", "NE", 47.1035, 6.8328],
+  ["2400", "Le Locle", "NE", 47.056, 6.749],
+  ["2800", "Delémont", "JU", 47.3649, 7.3445],
+  ["2350", "Saignelégier", "JU", 47.255, 6.996],
+  ["2740", "Moutier", "JU", 47.279, 7.37],
+  ["2900", "Porrentruy", "JU", 47.415, 7.075],
+
+  // Bern
+  ["3011", "Bern", "BE", 46.948, 7.445],
+  ["3006", "Bern", "BE", 46.944, 7.472],
+  ["3007", "Bern", "BE", 46.938, 7.433],
+  ["3008", "Bern", "BE", 46.945, 7.42],
+  ["3012", "Bern", "BE", 46.96, 7.435],
+  ["3013", "Bern", "BE", 46.955, 7.455],
+  ["3014", "Bern", "BE", 46.961, 7.46],
+  ["3018", "Bern", "BE", 46.94, 7.385],
+  ["3027", "Bern", "BE", 46.95, 7.38],
+  ["3072", "Ostermundigen", "BE", 46.956, 7.487],
+  ["3084", "Wabern", "BE", 46.929, 7.45],
+  ["3097", "Liebefeld", "BE", 46.93, 7.42],
+  ["3250", "Lyss", "BE", 47.074, 7.306],
+  ["3400", "Burgdorf", "BE", 47.059, 7.628],
+  ["3550", "Langnau im Emmental", "BE", 46.939, 7.787],
+  ["3600", "Thun", "BE", 46.758, 7.628],
+  ["3700", "Spiez", "BE", 46.688, 7.68],
+  ["3715", "Adelboden", "BE", 46.492, 7.56],
+  ["3780", "Gstaad", "BE", 46.475, 7.286],
+  ["3800", "Interlaken", "BE", 46.6863, 7.8632],
+  ["3818", "Grindelwald", "BE", 46.624, 8.041],
+  ["3860", "Meiringen", "BE", 46.727, 8.187],
+  ["2502", "Biel/Bienne", "BE", 47.1368, 7.2468],
+  ["2503", "Biel/Bienne", "BE", 47.14, 7.26],
+  ["2610", "Saint-Imier", "BE", 47.153, 7.001],
+  ["2710", "Tavannes", "BE", 47.22, 7.202],
+  ["4900", "Langenthal", "BE", 47.215, 7.796],
+
+  // Solothurn
+  ["4500", "Solothurn", "SO", 47.2088, 7.5323],
+  ["2540", "Grenchen", "SO", 47.192, 7.395],
+  ["4143", "Dornach", "SO", 47.48, 7.616],
+  ["4600", "Olten", "SO", 47.352, 7.907],
+  ["4710", "Balsthal", "SO", 47.316, 7.693],
+
+  // Basel
+  ["4051", "Basel", "BS", 47.5554, 7.5886],
+  ["4052", "Basel", "BS", 47.55, 7.6],
+  ["4053", "Basel", "BS", 47.543, 7.592],
+  ["4054", "Basel", "BS", 47.55, 7.57],
+  ["4055", "Basel", "BS", 47.565, 7.57],
+  ["4056", "Basel", "BS", 47.57, 7.575],
+  ["4057", "Basel", "BS", 47.57, 7.6],
+  ["4058", "Basel", "BS", 47.565, 7.605],
+  ["4125", "Riehen", "BS", 47.579, 7.648],
+  ["4410", "Liestal", "BL", 47.484, 7.734],
+  ["4102", "Binningen", "BL", 47.54, 7.57],
+  ["4123", "Allschwil", "BL", 47.551, 7.536],
+  ["4132", "Muttenz", "BL", 47.523, 7.645],
+  ["4133", "Pratteln", "BL", 47.52, 7.693],
+  ["4142", "Münchenstein", "BL", 47.518, 7.617],
+  ["4153", "Reinach", "BL", 47.493, 7.591],
+  ["4242", "Laufen", "BL", 47.422, 7.5],
+  ["4450", "Sissach", "BL", 47.464, 7.812],
+
+  // Aargau
+  ["5000", "Aarau", "AG", 47.3925, 8.0442],
+  ["5070", "Frick", "AG", 47.508, 8.015],
+  ["5200", "Brugg", "AG", 47.481, 8.208],
+  ["5400", "Baden", "AG", 47.4724, 8.3064],
+  ["5430", "Wettingen", "AG", 47.466, 8.326],
+  ["5600", "Lenzburg", "AG", 47.388, 8.175],
+  ["5610", "Wohlen", "AG", 47.351, 8.278],
+  ["5620", "Bremgarten", "AG", 47.352, 8.342],
+  ["4310", "Rheinfelden", "AG", 47.554, 7.794],
+  ["4800", "Zofingen", "AG", 47.288, 7.946],
+  ["8957", "Spreitenbach", "AG", 47.423, 8.363],
+
+  // Central Switzerland
+  ["6003", "Luzern", "LU", 47.0502, 8.3093],
+  ["6004", "Luzern", "LU", 47.055, 8.305],
+  ["6005", "Luzern", "LU", 47.043, 8.315],
+  ["6006", "Luzern", "LU", 47.057, 8.325],
+  ["6020", "Emmenbrücke", "LU", 47.08, 8.274],
+  ["6030", "Ebikon", "LU", 47.081, 8.341],
+  ["6130", "Willisau", "LU", 47.122, 7.994],
+  ["6170", "Schüpfheim", "LU", 46.952, 8.017],
+  ["6210", "Sursee", "LU", 47.171, 8.111],
+  ["6280", "Hochdorf", "LU", 47.168, 8.292],
+  ["6300", "Zug", "ZG", 47.1662, 8.5155],
+  ["6330", "Cham", "ZG", 47.182, 8.463],
+  ["6340", "Baar", "ZG", 47.196, 8.529],
+  ["6430", "Schwyz", "SZ", 47.0207, 8.653],
+  ["6410", "Goldau", "SZ", 47.048, 8.548],
+  ["8808", "Pfäffikon", "SZ", 47.201, 8.778],
+  ["8832", "Wollerau", "SZ", 47.195, 8.719],
+  ["8840", "Einsiedeln", "SZ", 47.128, 8.746],
+  ["8853", "Lachen", "SZ", 47.192, 8.854],
+  ["6460", "Altdorf", "UR", 46.8804, 8.6443],
+  ["6490", "Andermatt", "UR", 46.635, 8.594],
+  ["6370", "Stans", "NW", 46.958, 8.366],
+  ["6052", "Hergiswil", "NW", 46.984, 8.309],
+  ["6060", "Sarnen", "OW", 46.896, 8.246],
+  ["6390", "Engelberg", "OW", 46.82, 8.407],
+
+  // Ticino
+  ["6500", "Bellinzona", "TI", 46.192, 9.017],
+  ["6600", "Locarno", "TI", 46.17, 8.799],
+  ["6710", "Biasca", "TI", 46.359, 8.97],
+  ["6780", "Airolo", "TI", 46.529, 8.61],
+  ["6830", "Chiasso", "TI", 45.832, 9.031],
+  ["6850", "Mendrisio", "TI", 45.87, 8.981],
+  ["6900", "Lugano", "TI", 46.0037, 8.9511],
+
+  // Zurich
+  ["8001", "Zürich", "ZH", 47.3717, 8.5423],
+  ["8002", "Zürich", "ZH", 47.36, 8.531],
+  ["8003", "Zürich", "ZH", 47.373, 8.515],
+  ["8004", "Zürich", "ZH", 47.378, 8.52],
+  ["8005", "Zürich", "ZH", 47.387, 8.52],
+  ["8006", "Zürich", "ZH", 47.386, 8.548],
+  ["8008", "Zürich", "ZH", 47.358, 8.555],
+  ["8032", "Zürich", "ZH", 47.365, 8.565],
+  ["8037", "Zürich", "ZH", 47.395, 8.525],
+  ["8045", "Zürich", "ZH", 47.357, 8.515],
+  ["8050", "Zürich", "ZH", 47.411, 8.548],
+  ["8051", "Zürich", "ZH", 47.405, 8.572],
+  ["8152", "Glattbrugg", "ZH", 47.431, 8.562],
+  ["8180", "Bülach", "ZH", 47.522, 8.54],
+  ["8302", "Kloten", "ZH", 47.4515, 8.5849],
+  ["8400", "Winterthur", "ZH", 47.4999, 8.7262],
+  ["8600", "Dübendorf", "ZH", 47.3972, 8.6186],
+  ["8610", "Uster", "ZH", 47.3471, 8.7209],
+  ["8620", "Wetzikon", "ZH", 47.326, 8.798],
+  ["8700", "Küsnacht", "ZH", 47.318, 8.583],
+  ["8800", "Thalwil", "ZH", 47.292, 8.564],
+  ["8810", "Horgen", "ZH", 47.26, 8.597],
+  ["8820", "Wädenswil", "ZH", 47.23, 8.673],
+  ["8910", "Affoltern am Albis", "ZH", 47.277, 8.451],
+  ["8953", "Dietikon", "ZH", 47.4017, 8.4001],
+
+  // Eastern Switzerland
+  ["8200", "Schaffhausen", "SH", 47.696, 8.634],
+  ["8212", "Neuhausen am Rheinfall", "SH", 47.683, 8.617],
+  ["8500", "Frauenfeld", "TG", 47.558, 8.898],
+  ["8280", "Kreuzlingen", "TG", 47.65, 9.175],
+  ["8570", "Weinfelden", "TG", 47.566, 9.106],
+  ["8580", "Amriswil", "TG", 47.547, 9.298],
+  ["8590", "Romanshorn", "TG", 47.565, 9.379],
+  ["9320", "Arbon", "TG", 47.517, 9.433],
+  ["9000", "St. Gallen", "SG", 47.4245, 9.3767],
+  ["9008", "St. Gallen", "SG", 47.43, 9.39],
+  ["8640", "Rapperswil", "SG", 47.2267, 8.8184],
+  ["8730", "Uznach", "SG", 47.226, 8.983],
+  ["8880", "Walenstadt", "SG", 47.123, 9.312],
+  ["9400", "Rorschach", "SG", 47.478, 9.49],
+  ["9450", "Altstätten", "SG", 47.377, 9.548],
+  ["9470", "Buchs", "SG", 47.168, 9.478],
+  ["9500", "Wil", "SG", 47.461, 9.045],
+  ["9100", "Herisau", "AR", 47.386, 9.279],
+  ["9043", "Trogen", "AR", 47.408, 9.464],
+  ["9050", "Appenzell", "AI", 47.331, 9.409],
+  ["8750", "Glarus", "GL", 47.04, 9.068],
+  ["8752", "Näfels", "GL", 47.098, 9.064],
+
+  // Graubünden
+  ["7000", "Chur", "GR", 46.8499, 9.5329],
+  ["7130", "Ilanz", "GR", 46.774, 9.204],
+  ["7270", "Davos Platz", "GR", 46.796, 9.82],
+  ["7302", "Landquart", "GR", 46.967, 9.555],
+  ["7500", "St. Moritz", "GR", 46.498, 9.839],
+  ["7742", "Poschiavo", "GR", 46.325, 10.059],
+];
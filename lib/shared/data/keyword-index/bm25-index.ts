@@ -0,0 +1,195 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import { Document } from "@langchain/core/documents";
+import type { ScoredDocument } from "@/lib/shared/data/vector-stores";
+
+export interface KeywordRecord {
+  id: string;
+  pageContent: string;
+  metadata: Record<string, any>;
+}
+
+interface KeywordIndexFile {
+  version: 1;
+  // document key -> all chunks of that document
+  documents: Record<string, KeywordRecord[]>;
+}
+
+interface IndexedRecord {
+  record: KeywordRecord;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+// Okapi BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Function words of the four corpus languages carry no retrieval signal
+const STOPWORDS = new Set([
+  "der", "die", "das", "den", "dem", "des", "ein", "eine", "einer", "eines", "einem", "einen",
+  "und", "oder", "ist", "sind", "wird", "werden", "auf", "aus", "bei", "mit", "nach", "von",
+  "vor", "zu", "zur", "zum", "im", "in", "an", "am", "als", "auch", "es", "sie", "er", "wie",
+  "was", "wer", "nicht", "so", "sich", "dass", "fur", "uber",
+  "le", "la", "les", "un", "une", "des", "du", "de", "et", "ou", "est", "sont", "en", "au",
+  "aux", "par", "pour", "sur", "dans", "que", "qui", "ne", "pas", "il", "elle", "se",
+  "lo", "gli", "una", "uno", "di", "da", "del", "della", "che", "non", "per", "con",
+  "su", "si",
+  "the", "an", "of", "and", "or", "is", "are", "to", "in", "on", "for", "with", "by",
+  "at", "be", "it", "this", "that", "what", "how", "my", "do", "does", "can",
+]);
+
+// "Art. 8 ZGB", "Art. 336c Abs. 1 OR", "Art. 6bis StGB"
+const STATUTE_REFERENCE =
+  /\b(?:Art(?:ikel|icle|icolo)?\.?)\s*(\d+[a-z]{0,7})(?:\s*(?:Abs|al|cpv|para)\.?\s*\d+[a-z]*)?(?:\s*(?:lit|let|Ziff|ch|n)\.?\s*[a-z0-9]+)?(?:\s+([A-Z][a-z]*[A-Z][A-Za-z]*))?/g;
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/ß/g, "ss")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 || /\d/.test(token))
+    .filter((token) => !STOPWORDS.has(token));
+}
+
+/**
+ * Statute references as single tokens ("art:8", "art:8:zgb"), so a question
+ * citing an article matches that article far more strongly than its words would
+ */
+export function extractStatuteReferences(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.matchAll(STATUTE_REFERENCE)) {
+    const article = match[1].toLowerCase();
+    tokens.push(`art:${article}`);
+    if (match[2]) tokens.push(`art:${article}:${match[2].toLowerCase()}`);
+  }
+  return tokens;
+}
+
+// Terms of a chunk: its words, the references in its text and the article it belongs to
+export function chunkTokens(pageContent: string, metadata: Record<string, any> = {}): string[] {
+  const { article, documentShortTitle } = metadata;
+  const tokens = [...tokenize(pageContent), ...extractStatuteReferences(pageContent)];
+  if (article) {
+    const normalized = String(article).toLowerCase();
+    tokens.push(`art:${normalized}`);
+    if (documentShortTitle) tokens.push(`art:${normalized}:${String(documentShortTitle).toLowerCase()}`);
+  }
+  return tokens;
+}
+
+/**
+ * File-backed BM25 index over the ingested chunks, kept next to the vectors
+ * so exact terms and statute references can be found without embeddings.
+ */
+export class BM25Index {
+  private filePath?: string;
+  private documents: Record<string, KeywordRecord[]> | null = null;
+  private indexed: IndexedRecord[] | null = null;
+  private documentFrequencies = new Map<string, number>();
+  private averageLength = 0;
+  private loadedMtime = 0;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+  }
+
+  // Replace every chunk of one document, leaving other documents untouched
+  async replaceDocument(documentKey: string, records: KeywordRecord[]): Promise<void> {
+    const documents = await this.load();
+    documents[documentKey] = records;
+    this.indexed = null;
+  }
+
+  async save(): Promise<void> {
+    if (!this.filePath || !this.documents) return;
+
+    const data: KeywordIndexFile = { version: 1, documents: this.documents };
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(data));
+    this.loadedMtime = (await fs.stat(this.filePath)).mtimeMs;
+  }
+
+  async search(query: string, k: number): Promise<ScoredDocument[]> {
+    const indexed = await this.getIndexed();
+    if (indexed.length === 0) return [];
+
+    const queryTokens = Array.from(new Set([...tokenize(query), ...extractStatuteReferences(query)]));
+    const total = indexed.length;
+
+    return indexed
+      .map(({ record, termFrequencies, length }): ScoredDocument => {
+        let score = 0;
+        for (const token of queryTokens) {
+          const frequency = termFrequencies.get(token);
+          if (!frequency) continue;
+          const documentFrequency = this.documentFrequencies.get(token) || 0;
+          const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+          score +=
+            (idf * frequency * (K1 + 1)) /
+            (frequency + K1 * (1 - B + (B * length) / (this.averageLength || 1)));
+        }
+        return [
+          new Document({ pageContent: record.pageContent, metadata: record.metadata, id: record.id }),
+          score,
+        ];
+      })
+      .filter(([, score]) => score > 0)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, k);
+  }
+
+  async isEmpty(): Promise<boolean> {
+    return (await this.getIndexed()).length === 0;
+  }
+
+  private async getIndexed(): Promise<IndexedRecord[]> {
+    const documents = await this.load();
+    if (this.indexed) return this.indexed;
+
+    this.documentFrequencies = new Map();
+    let totalLength = 0;
+
+    this.indexed = Object.values(documents).flat().map((record) => {
+      const termFrequencies = new Map<string, number>();
+      const tokens = chunkTokens(record.pageContent, record.metadata);
+      tokens.forEach((token) => termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1));
+      termFrequencies.forEach((_, token) =>
+        this.documentFrequencies.set(token, (this.documentFrequencies.get(token) || 0) + 1)
+      );
+      totalLength += tokens.length;
+      return { record, termFrequencies, length: tokens.length };
+    });
+
+    this.averageLength = this.indexed.length > 0 ? totalLength / this.indexed.length : 0;
+    return this.indexed;
+  }
+
+  // Reloads when another process (e.g. `npm run ingest`) rewrote the file
+  private async load(): Promise<Record<string, KeywordRecord[]>> {
+    if (!this.filePath) {
+      this.documents ??= {};
+      return this.documents;
+    }
+
+    let mtime = 0;
+    try {
+      mtime = (await fs.stat(this.filePath)).mtimeMs;
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") throw error;
+    }
+
+    if (this.documents && mtime <= this.loadedMtime) return this.documents;
+
+    this.documents = {};
+    this.indexed = null;
+    this.loadedMtime = mtime;
+    if (mtime > 0) {
+      const parsed: KeywordIndexFile = JSON.parse(await fs.readFile(this.filePath, "utf8"));
+      this.documents = parsed.documents || {};
+    }
+    return this.documents;
+  }
+}
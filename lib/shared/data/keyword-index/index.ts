@@ -0,0 +1,26 @@
+import { join } from "path";
+import { BM25Index } from "./bm25-index";
+
+export interface KeywordIndexOptions {
+  indexName: string;
+  // File the index is persisted to; "" keeps it in memory only
+  filePath?: string;
+}
+
+// Module-level cache so the parsed index survives across service instances (one per request)
+const indexes = new Map<string, BM25Index>();
+
+export function getKeywordIndex(options: KeywordIndexOptions): BM25Index {
+  const filePath =
+    options.filePath ?? join(process.cwd(), ".keyword-index", `${options.indexName}.json`);
+  const key = `${options.indexName}:${filePath}`;
+  const cached = indexes.get(key);
+  if (cached) return cached;
+
+  const index = new BM25Index(filePath || undefined);
+  indexes.set(key, index);
+  return index;
+}
+
+export { BM25Index, tokenize, extractStatuteReferences, chunkTokens } from "./bm25-index";
+export type { KeywordRecord } from "./bm25-index";
@@ -0,0 +1,103 @@
+import { SimpleChatModel } from "@langchain/core/language_models/chat_models";
+import { Embeddings } from "@langchain/core/embeddings";
+import { AIMessageChunk, type BaseMessage } from "@langchain/core/messages";
+import { ChatGenerationChunk } from "@langchain/core/outputs";
+import type { Callbacks } from "@langchain/core/callbacks/manager";
+import type { ChatModelOptions, LLMProvider } from "./llm-provider";
+
+const FAKE_EMBEDDING_DIMENSION = 256;
+
+function messagesToText(messages: BaseMessage[]): string {
+  return messages
+    .map((message) => (typeof message.content === "string" ? message.content : JSON.stringify(message.content)))
+    .join("\n");
+}
+
+function hashToken(token: string): number {
+  let hash = 0;
+  for (let i = 0; i < token.length; i++) {
+    hash = ((hash << 5) - hash) + token.charCodeAt(i);
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * Deterministic chat model for tests. Returns the configured responses in
+ * order (cycling), or echoes the start of the prompt when none are given.
+ */
+export class FakeChatModel extends SimpleChatModel {
+  private responses: string[];
+  private callCount = 0;
+
+  constructor(responses: string[] = [], callbacks?: Callbacks) {
+    super({ callbacks });
+    this.responses = responses;
+  }
+
+  _llmType(): string {
+    return "fake";
+  }
+
+  async _call(messages: BaseMessage[]): Promise<string> {
+    return this.nextResponse(messages);
+  }
+
+  async *_streamResponseChunks(messages: BaseMessage[]): AsyncGenerator<ChatGenerationChunk> {
+    const response = this.nextResponse(messages);
+    for (const text of response.match(/\S+\s*/g) || []) {
+      yield new ChatGenerationChunk({ text, message: new AIMessageChunk({ content: text }) });
+    }
+  }
+
+  private nextResponse(messages: BaseMessage[]): string {
+    if (this.responses.length > 0) {
+      return this.responses[this.callCount++ % this.responses.length];
+    }
+    return `Fake response to: ${messagesToText(messages).slice(0, 200)}`;
+  }
+}
+
+/**
+ * Deterministic bag-of-words embeddings: each token is hashed into a bucket,
+ * so texts sharing words have a higher cosine similarity.
+ */
+export class FakeEmbeddings extends Embeddings {
+  private dimension: number;
+
+  constructor(dimension: number = FAKE_EMBEDDING_DIMENSION) {
+    super({});
+    this.dimension = dimension;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((document) => this.embed(document));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array(this.dimension).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    tokens.forEach((token) => {
+      vector[hashToken(token) % this.dimension] += 1;
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+}
+
+export const fakeProvider: LLMProvider = {
+  name: "fake",
+
+  createChatModel({ callbacks }: ChatModelOptions) {
+    return new FakeChatModel([], callbacks);
+  },
+
+  createEmbeddings() {
+    return new FakeEmbeddings();
+  },
+};
@@ -0,0 +1,26 @@
+import { openAIProvider } from "./openai-provider";
+import { ollamaProvider } from "./ollama-provider";
+import { fakeProvider } from "./fake-provider";
+import type { LLMProvider, LLMProviderName } from "./llm-provider";
+
+const registry = new Map<string, LLMProvider>([
+  [openAIProvider.name, openAIProvider],
+  [ollamaProvider.name, ollamaProvider],
+  [fakeProvider.name, fakeProvider],
+]);
+
+export function registerLLMProvider(provider: LLMProvider): void {
+  registry.set(provider.name, provider);
+}
+
+export function getLLMProvider(name: LLMProviderName | string): LLMProvider {
+  const provider = registry.get(name);
+  if (!provider) {
+    throw new Error(`Unknown LLM provider: ${name}`);
+  }
+  return provider;
+}
+
+export type { LLMProvider, LLMProviderName, ChatModelOptions, EmbeddingsOptions } from "./llm-provider";
+export { OllamaChatModel, OllamaEmbeddings } from "./ollama-provider";
+export { FakeChatModel, FakeEmbeddings } from "./fake-provider";
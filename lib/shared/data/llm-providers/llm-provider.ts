@@ -0,0 +1,25 @@
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import type { Callbacks } from "@langchain/core/callbacks/manager";
+
+export type LLMProviderName = "openai" | "ollama" | "fake";
+
+export interface ChatModelOptions {
+  model: string;
+  temperature?: number;
+  // Server URL for self-hosted providers (Ollama)
+  baseUrl?: string;
+  // Run on every call of the model, e.g. to count tokens
+  callbacks?: Callbacks;
+}
+
+export interface EmbeddingsOptions {
+  model: string;
+  baseUrl?: string;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  createChatModel(options: ChatModelOptions): BaseChatModel;
+  createEmbeddings(options: EmbeddingsOptions): EmbeddingsInterface;
+}
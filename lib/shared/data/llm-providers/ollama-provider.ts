@@ -0,0 +1,112 @@
+import { Ollama, type Message as OllamaMessage } from "ollama";
+import { SimpleChatModel } from "@langchain/core/language_models/chat_models";
+import { Embeddings } from "@langchain/core/embeddings";
+import { AIMessageChunk, type BaseMessage } from "@langchain/core/messages";
+import { ChatGenerationChunk } from "@langchain/core/outputs";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import type { ChatModelOptions, EmbeddingsOptions, LLMProvider } from "./llm-provider";
+
+const DEFAULT_OLLAMA_URL = "http://127.0.0.1:11434";
+
+function toOllamaMessages(messages: BaseMessage[]): OllamaMessage[] {
+  return messages.map((message) => {
+    const type = message.getType();
+    const role = type === "ai" ? "assistant" : type === "system" ? "system" : "user";
+    const content =
+      typeof message.content === "string"
+        ? message.content
+        : message.content
+            .map((part: any) => (typeof part === "string" ? part : part?.text || ""))
+            .join("");
+    return { role, content };
+  });
+}
+
+// Chat model backed by a local Ollama server, so prompts never leave the machine
+export class OllamaChatModel extends SimpleChatModel {
+  private client: Ollama;
+  private model: string;
+  private temperature?: number;
+
+  constructor({ model, temperature, baseUrl, callbacks }: ChatModelOptions) {
+    super({ callbacks });
+    this.client = new Ollama({ host: baseUrl || DEFAULT_OLLAMA_URL });
+    this.model = model;
+    this.temperature = temperature;
+  }
+
+  _llmType(): string {
+    return "ollama";
+  }
+
+  async _call(messages: BaseMessage[]): Promise<string> {
+    const response = await this.client.chat({
+      model: this.model,
+      messages: toOllamaMessages(messages),
+      options: { temperature: this.temperature },
+    });
+    return response.message.content;
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    _options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const stream = await this.client.chat({
+      model: this.model,
+      messages: toOllamaMessages(messages),
+      options: { temperature: this.temperature },
+      stream: true,
+    });
+
+    for await (const part of stream) {
+      const text = part.message?.content || "";
+      if (!text) continue;
+      yield new ChatGenerationChunk({ text, message: new AIMessageChunk({ content: text }) });
+      await runManager?.handleLLMNewToken(text);
+    }
+  }
+}
+
+export class OllamaEmbeddings extends Embeddings {
+  private client: Ollama;
+  private model: string;
+
+  constructor({ model, baseUrl }: EmbeddingsOptions) {
+    super({});
+    this.client = new Ollama({ host: baseUrl || DEFAULT_OLLAMA_URL });
+    this.model = model;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    if (documents.length === 0) return [];
+    const response = await this.caller.call(() =>
+      this.client.embed({ model: this.model, input: documents })
+    );
+    return response.embeddings;
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    const [embedding] = await this.embedDocuments([document]);
+    return embedding;
+  }
+}
+
+export const ollamaProvider: LLMProvider = {
+  name: "ollama",
+
+  createChatModel(options: ChatModelOptions) {
+    return new OllamaChatModel({
+      ...options,
+      baseUrl: options.baseUrl || process.env.OLLAMA_BASE_URL,
+    });
+  },
+
+  createEmbeddings(options: EmbeddingsOptions) {
+    return new OllamaEmbeddings({
+      ...options,
+      baseUrl: options.baseUrl || process.env.OLLAMA_BASE_URL,
+    });
+  },
+};
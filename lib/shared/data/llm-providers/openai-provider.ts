@@ -0,0 +1,22 @@
+import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
+import type { ChatModelOptions, EmbeddingsOptions, LLMProvider } from "./llm-provider";
+
+export const openAIProvider: LLMProvider = {
+  name: "openai",
+
+  createChatModel({ model, temperature, callbacks }: ChatModelOptions) {
+    return new ChatOpenAI({
+      model,
+      temperature,
+      callbacks,
+      apiKey: process.env.OPENAI_API_KEY,
+    } as any);
+  },
+
+  createEmbeddings({ model }: EmbeddingsOptions) {
+    return new OpenAIEmbeddings({
+      model,
+      apiKey: process.env.OPENAI_API_KEY,
+    } as any);
+  },
+};
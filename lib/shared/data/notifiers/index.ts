@@ -0,0 +1,20 @@
+import { LogNotifier } from "./log-notifier";
+import { SmtpNotifier } from "./smtp-notifier";
+import type { Notifier, NotifierName } from "./notifier";
+
+// Defaults to the NOTIFIER env var, then to smtp when SMTP_HOST is set, else to log
+export function createNotifier(name?: NotifierName): Notifier {
+  const selected = name || (process.env.NOTIFIER as NotifierName) || (process.env.SMTP_HOST ? "smtp" : "log");
+  switch (selected) {
+    case "smtp":
+      return new SmtpNotifier();
+    case "log":
+      return new LogNotifier();
+    default:
+      throw new Error(`Unknown notifier: ${selected}`);
+  }
+}
+
+export type { Notification, Notifier, NotifierName } from "./notifier";
+export { LogNotifier } from "./log-notifier";
+export { SmtpNotifier } from "./smtp-notifier";
@@ -0,0 +1,39 @@
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import type { Notification, Notifier } from "./notifier";
+
+export interface LogNotifierOptions {
+  // Directory each notification is written to as a file; "" only logs to the console
+  directory?: string;
+}
+
+// Stand-in for development: nothing leaves the machine
+export class LogNotifier implements Notifier {
+  readonly name = "log" as const;
+  private directory: string;
+
+  constructor(options: LogNotifierOptions = {}) {
+    this.directory = options.directory ?? process.env.NOTIFIER_LOG_DIR ?? join(process.cwd(), ".notifications");
+  }
+
+  async send(notification: Notification): Promise<void> {
+    const headers = [
+      `To: ${notification.to}`,
+      ...(notification.replyTo ? [`Reply-To: ${notification.replyTo}`] : []),
+      `Subject: ${notification.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+    ];
+    const message = `${headers.join("\n")}\n\n${notification.text}\n`;
+
+    if (!this.directory) {
+      console.log(`[notification]\n${message}`);
+      return;
+    }
+
+    await mkdir(this.directory, { recursive: true });
+    const safeRecipient = notification.to.replace(/[^\w.@-]/g, "_");
+    const filePath = join(this.directory, `${new Date().toISOString().replace(/[:.]/g, "-")}-${safeRecipient}.txt`);
+    await writeFile(filePath, message, "utf8");
+    console.log(`[notification] ${notification.subject} → ${notification.to} (${filePath})`);
+  }
+}
@@ -0,0 +1,17 @@
+export type NotifierName = "smtp" | "log";
+
+export interface Notification {
+  to: string;
+  subject: string;
+  // Plain text body
+  text: string;
+  // Where answers to the email go, e.g. the user who sent a consultation request
+  replyTo?: string;
+}
+
+export interface Notifier {
+  readonly name: NotifierName;
+
+  // Rejects when the notification could not be handed over for delivery
+  send(notification: Notification): Promise<void>;
+}
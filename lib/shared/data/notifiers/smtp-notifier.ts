@@ -0,0 +1,49 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import type { Notification, Notifier } from "./notifier";
+
+export interface SmtpNotifierOptions {
+  host?: string;
+  port?: number;
+  // TLS from the start (port 465); otherwise STARTTLS when the server offers it
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  // Sender address, e.g. "Swiss Legal Assistant <noreply@example.ch>"
+  from?: string;
+}
+
+// Sends email through an SMTP server; options default to the SMTP_* env vars
+export class SmtpNotifier implements Notifier {
+  readonly name = "smtp" as const;
+  private transporter: Transporter;
+  private from: string;
+
+  constructor(options: SmtpNotifierOptions = {}) {
+    const host = options.host || process.env.SMTP_HOST;
+    const from = options.from || process.env.SMTP_FROM;
+    if (!host || !from) {
+      throw new Error("The smtp notifier needs SMTP_HOST and SMTP_FROM");
+    }
+
+    const port = options.port ?? Number(process.env.SMTP_PORT || 587);
+    const user = options.user || process.env.SMTP_USER;
+    const password = options.password || process.env.SMTP_PASSWORD;
+    this.from = from;
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: options.secure ?? (process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465),
+      ...(user && { auth: { user, pass: password } }),
+    });
+  }
+
+  async send(notification: Notification): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: notification.to,
+      subject: notification.subject,
+      text: notification.text,
+      ...(notification.replyTo && { replyTo: notification.replyTo }),
+    });
+  }
+}
@@ -0,0 +1,30 @@
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { LexicalReranker } from "./lexical-reranker";
+import { LLMReranker } from "./llm-reranker";
+import type { Reranker, RerankerName } from "./reranker";
+
+export interface RerankerOptions {
+  // Required by the "llm" reranker
+  chatModel?: BaseChatModel;
+}
+
+// Null for "none": keep the fused retrieval order
+export function createReranker(name: RerankerName, options: RerankerOptions = {}): Reranker | null {
+  switch (name) {
+    case "none":
+      return null;
+    case "lexical":
+      return new LexicalReranker();
+    case "llm":
+      if (!options.chatModel) {
+        throw new Error("The llm reranker needs a chat model");
+      }
+      return new LLMReranker(options.chatModel);
+    default:
+      throw new Error(`Unknown reranker: ${name}`);
+  }
+}
+
+export type { Reranker, RerankerName } from "./reranker";
+export { LexicalReranker } from "./lexical-reranker";
+export { LLMReranker } from "./llm-reranker";
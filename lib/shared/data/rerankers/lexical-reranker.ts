@@ -0,0 +1,77 @@
+import type { Document } from "@langchain/core/documents";
+import { chunkTokens, extractStatuteReferences, tokenize } from "@/lib/shared/data/keyword-index";
+import type { Reranker } from "./reranker";
+
+/**
+ * Local reranker without model calls: how much of the question (weighted by
+ * rarity among the candidates) a chunk covers, how many of its word pairs
+ * appear verbatim, and whether it is (or mentions) the article the question cites.
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = "lexical" as const;
+
+  async score(query: string, documents: Document[]): Promise<number[]> {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const queryReferences = Array.from(new Set(extractStatuteReferences(query)));
+    const queryPairs = this.pairs(tokenize(query));
+
+    const documentTokens = documents.map((doc) => chunkTokens(doc.pageContent, doc.metadata));
+    const documentSets = documentTokens.map((tokens) => new Set(tokens));
+
+    // Terms that occur in every candidate don't discriminate between them
+    const weights = new Map<string, number>();
+    for (const term of queryTerms) {
+      const frequency = documentSets.filter((set) => set.has(term)).length;
+      weights.set(term, Math.log(1 + (documents.length + 1) / (frequency + 0.5)));
+    }
+    const totalWeight = queryTerms.reduce((sum, term) => sum + (weights.get(term) || 0), 0);
+
+    return documents.map((_, i) => {
+      const tokens = documentSets[i];
+
+      const coverage =
+        totalWeight > 0
+          ? queryTerms.reduce((sum, term) => sum + (tokens.has(term) ? weights.get(term)! : 0), 0) /
+            totalWeight
+          : 0;
+
+      const documentPairs = this.pairs(documentTokens[i]);
+      const phrase =
+        queryPairs.size > 0
+          ? Array.from(queryPairs).filter((pair) => documentPairs.has(pair)).length / queryPairs.size
+          : 0;
+
+      if (queryReferences.length === 0) {
+        return 0.75 * coverage + 0.25 * phrase;
+      }
+
+      // Being the cited article counts more than merely mentioning it
+      const ownReferences = this.ownReferences(documents[i].metadata || {});
+      const referenceMatch =
+        queryReferences.reduce(
+          (sum, reference) =>
+            sum + (ownReferences.has(reference) ? 1 : tokens.has(reference) ? 0.5 : 0),
+          0
+        ) / queryReferences.length;
+      return 0.5 * coverage + 0.2 * phrase + 0.3 * referenceMatch;
+    });
+  }
+
+  private ownReferences(metadata: Record<string, any>): Set<string> {
+    if (!metadata.article) return new Set();
+    const article = String(metadata.article).toLowerCase();
+    const references = new Set([`art:${article}`]);
+    if (metadata.documentShortTitle) {
+      references.add(`art:${article}:${String(metadata.documentShortTitle).toLowerCase()}`);
+    }
+    return references;
+  }
+
+  private pairs(tokens: string[]): Set<string> {
+    const pairs = new Set<string>();
+    for (let i = 0; i < tokens.length - 1; i++) {
+      pairs.add(`${tokens[i]} ${tokens[i + 1]}`);
+    }
+    return pairs;
+  }
+}
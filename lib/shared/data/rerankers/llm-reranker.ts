@@ -0,0 +1,51 @@
+import type { Document } from "@langchain/core/documents";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { Reranker } from "./reranker";
+
+// Enough of each chunk to judge it without blowing up the prompt for 20 candidates
+const PASSAGE_CHARS = 700;
+
+/**
+ * Asks the chat model to grade every candidate in a single call, like a
+ * listwise cross-encoder. Throws if the reply can't be read, so the caller
+ * can fall back to another reranker.
+ */
+export class LLMReranker implements Reranker {
+  readonly name = "llm" as const;
+  private llm: BaseChatModel;
+
+  constructor(llm: BaseChatModel) {
+    this.llm = llm;
+  }
+
+  async score(query: string, documents: Document[]): Promise<number[]> {
+    if (documents.length === 0) return [];
+
+    const passages = documents
+      .map((doc, i) => `[${i + 1}] ${doc.pageContent.slice(0, PASSAGE_CHARS).replace(/\s+/g, " ")}`)
+      .join("\n\n");
+
+    const prompt = `Rate how useful each passage is for answering the question, from 0 (irrelevant) to 10 (directly answers it).
+
+Question: ${query}
+
+Passages:
+${passages}
+
+Respond with only a JSON array of ${documents.length} numbers, one per passage in order, e.g. [7, 0, 3].`;
+
+    const response = await this.llm.invoke(prompt);
+    const text = typeof response.content === "string" ? response.content : JSON.stringify(response.content);
+
+    const match = text.match(/\[[\d\s.,]*\]/);
+    if (!match) {
+      throw new Error("LLM reranker returned no score array");
+    }
+    const scores: unknown[] = JSON.parse(match[0]);
+    if (scores.length !== documents.length || scores.some((score) => typeof score !== "number")) {
+      throw new Error(`LLM reranker returned ${scores.length} scores for ${documents.length} passages`);
+    }
+
+    return (scores as number[]).map((score) => Math.min(1, Math.max(0, score / 10)));
+  }
+}
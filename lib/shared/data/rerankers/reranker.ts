@@ -0,0 +1,10 @@
+import type { Document } from "@langchain/core/documents";
+
+export type RerankerName = "llm" | "lexical" | "none";
+
+export interface Reranker {
+  readonly name: Exclude<RerankerName, "none">;
+
+  // Relevance of each document to the query in [0, 1], in input order
+  score(query: string, documents: Document[]): Promise<number[]>;
+}
@@ -0,0 +1,110 @@
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { RetrievalQuery } from "@/lib/shared/types/llm-response";
+import type { LanguageCode } from "@/lib/shared/types/corpus";
+import { LANGUAGE_NAMES } from "@/lib/shared/utils/language-detection";
+
+// Enough history to resolve "that" or "the landlord" without flooding the prompt
+const HISTORY_MESSAGES = 6;
+const HISTORY_MESSAGE_CHARS = 600;
+
+export type QueryRewrite = RetrievalQuery;
+
+export interface QueryRewriteOptions {
+  expand?: boolean;
+  maxSubQueries?: number;
+  // Languages to translate the standalone query into
+  translateTo?: LanguageCode[];
+}
+
+interface HistoryMessage {
+  role: string;
+  content: string;
+  createdAt?: Date | string;
+}
+
+export function unchangedQuery(question: string): QueryRewrite {
+  return { original: question, standalone: question, subQueries: [], translations: [] };
+}
+
+// Oldest first; the chat route passes the latest messages newest first
+function recentHistory(messages: HistoryMessage[]): HistoryMessage[] {
+  return [...messages]
+    .sort((a, b) => {
+      const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
+      const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
+      return dateA - dateB;
+    })
+    .slice(-HISTORY_MESSAGES);
+}
+
+/**
+ * Rewrites a follow-up ("and what is the notice period for that?") into a
+ * standalone search query, and optionally splits it into sub-queries and
+ * translates it. With nothing to rewrite, split or translate no model call is made.
+ * Falls back to the original question if the reply can't be read.
+ */
+export async function rewriteQuery(
+  llm: BaseChatModel,
+  question: string,
+  conversationMessages: HistoryMessage[] = [],
+  options: QueryRewriteOptions = {}
+): Promise<QueryRewrite> {
+  const { expand = false, maxSubQueries = 3, translateTo = [] } = options;
+  const history = recentHistory(conversationMessages);
+  if (history.length === 0 && !expand && translateTo.length === 0) return unchangedQuery(question);
+
+  const historyText = history
+    .map((message) => `${message.role}: ${message.content.slice(0, HISTORY_MESSAGE_CHARS)}`)
+    .join("\n");
+
+  const prompt = `You prepare search queries for a Swiss legal document search.
+
+${historyText ? `CONVERSATION:\n${historyText}\n\n` : ""}LATEST QUESTION: ${question}
+
+Rewrite the latest question as a standalone search query that can be understood without the conversation: replace pronouns and references like "that" or "the contract" with what they refer to, and fill in omitted subjects. Keep the language of the question and keep statute references such as "Art. 271 OR" verbatim. If the question is already standalone, repeat it unchanged.
+${
+  expand
+    ? `Also list up to ${maxSubQueries} short sub-queries covering distinct parts of the question, or an empty list if it has only one part.\n`
+    : ""
+}${
+  translateTo.length > 0
+    ? `Also translate the standalone query into ${translateTo.map((code) => LANGUAGE_NAMES[code]).join(", ")}, using the legal terms of Swiss law in that language and keeping statute references verbatim.\n`
+    : ""
+}
+Respond with only JSON: {"standalone": "..."${expand ? ', "subQueries": ["..."]' : ""}${
+    translateTo.length > 0 ? `, "translations": {${translateTo.map((code) => `"${code}": "..."`).join(", ")}}` : ""
+  }}`;
+
+  try {
+    const response = await llm.invoke(prompt);
+    const text = typeof response.content === "string" ? response.content : JSON.stringify(response.content);
+    const match = text.match(/\{[\s\S]*\}/);
+    if (!match) throw new Error("no JSON object in reply");
+
+    const parsed = JSON.parse(match[0]);
+    const standalone =
+      typeof parsed.standalone === "string" && parsed.standalone.trim() ? parsed.standalone.trim() : question;
+    const subQueries: string[] = expand && Array.isArray(parsed.subQueries)
+      ? parsed.subQueries
+          .filter((query: unknown): query is string => typeof query === "string" && query.trim().length > 0)
+          .map((query: string) => query.trim())
+      : [];
+
+    const translations: string[] = translateTo
+      .map((code) => parsed.translations?.[code])
+      .filter((query: unknown): query is string => typeof query === "string" && query.trim().length > 0)
+      .map((query) => query.trim());
+
+    const seen = new Set([standalone.toLowerCase()]);
+    const unseen = (query: string) => !seen.has(query.toLowerCase()) && Boolean(seen.add(query.toLowerCase()));
+    return {
+      original: question,
+      standalone,
+      subQueries: subQueries.filter(unseen).slice(0, maxSubQueries),
+      translations: translations.filter(unseen),
+    };
+  } catch (error) {
+    console.warn("Query rewriting failed, searching with the original question:", error);
+    return unchangedQuery(question);
+  }
+}
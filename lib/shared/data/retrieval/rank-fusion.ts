@@ -0,0 +1,76 @@
+import type { Document } from "@langchain/core/documents";
+import type { ScoredDocument } from "@/lib/shared/data/vector-stores";
+
+export interface RankedResults {
+  // e.g. "vector" or "keyword"
+  name: string;
+  results: ScoredDocument[];
+  weight: number;
+}
+
+export interface FusedDocument {
+  document: Document;
+  // Weighted reciprocal-rank-fusion score
+  score: number;
+  // Each retriever's own score for this chunk, keyed by retriever name
+  retrieverScores: Record<string, number>;
+  // Each retriever's 1-based rank for this chunk, keyed by retriever name
+  ranks: Record<string, number>;
+}
+
+// Chunks carry a deterministic chunkId from ingestion; older records fall back to their text
+function documentKey(document: Document): string {
+  return document.metadata?.chunkId || document.id || document.pageContent;
+}
+
+/**
+ * Weighted reciprocal-rank fusion: score(d) = Σ weight / (k + rank(d)).
+ * Only ranks are combined, so BM25 and cosine scores need no normalisation.
+ */
+export function reciprocalRankFusion(lists: RankedResults[], k: number = 60): FusedDocument[] {
+  const fused = new Map<string, FusedDocument>();
+
+  for (const { name, results, weight } of lists) {
+    if (weight <= 0) continue;
+
+    results.forEach(([document, score], index) => {
+      const key = documentKey(document);
+      const entry = fused.get(key) || { document, score: 0, retrieverScores: {}, ranks: {} };
+      entry.score += weight / (k + index + 1);
+      entry.retrieverScores[name] = score;
+      entry.ranks[name] = index + 1;
+      fused.set(key, entry);
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Merges one retriever's results for several queries (e.g. sub-queries):
+ * round-robin by rank, so every query contributes its best hits, with
+ * duplicates dropped and the best score kept.
+ */
+export function mergeResultLists(lists: ScoredDocument[][], limit: number): ScoredDocument[] {
+  if (lists.length <= 1) return (lists[0] || []).slice(0, limit);
+
+  const merged = new Map<string, ScoredDocument>();
+  const longest = Math.max(0, ...lists.map((results) => results.length));
+  for (let rank = 0; rank < longest; rank++) {
+    for (const results of lists) {
+      const hit = results[rank];
+      if (!hit) continue;
+
+      const key = documentKey(hit[0]);
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, hit);
+      } else if (hit[1] > existing[1]) {
+        // Keeps the position of the first occurrence
+        merged.set(key, [existing[0], hit[1]]);
+      }
+    }
+  }
+
+  return Array.from(merged.values()).slice(0, limit);
+}
@@ -0,0 +1,109 @@
+import type { LanguageCode } from "@/lib/shared/types/corpus";
+import type { EmergencyContact, SafetyFlag, SafetyInfo } from "@/lib/shared/types/llm-response";
+import { getEmergencyContacts, LEGAL_DISCLAIMERS, SAFETY_WARNINGS } from "./safety-messages";
+
+// Most urgent first; also the order of flags and warnings in SafetyInfo
+const FLAG_ORDER: SafetyFlag[] = ["selfHarm", "domesticViolence", "criminal", "deadline"];
+
+// Phrases describing the user's own situation, in the four supported languages.
+// Matched against the question only: answers mention these topics in passing.
+const SITUATION_PATTERNS: Record<Exclude<SafetyFlag, "deadline">, RegExp> = {
+  selfHarm: new RegExp(
+    [
+      "suicid", "selbstmord", "suizid", "kill myself", "end my life", "self[- ]harm", "hurt myself",
+      "want to die", "don'?t want to live", "mich umbringen", "mir das leben nehmen", "nicht mehr leben",
+      "selbstverletzung", "me tuer", "en finir", "mettre fin à mes jours", "me faire du mal",
+      "automutilation", "uccidermi", "togliermi la vita", "farla finita", "farmi del male", "autolesion",
+    ].join("|")
+  ),
+  domesticViolence: new RegExp(
+    "\\b(?:" + [
+      "domestic violence", "(?:hits|beats|abuses|threatens) me", "abusive (?:partner|husband|wife)",
+      "restraining order", "häusliche gewalt", "(?:schlägt|bedroht|misshandelt) mich", "gewalt in der (?:ehe|beziehung)",
+      "kontaktverbot", "rayonverbot", "annäherungsverbot", "violences? (?:domestiques?|conjugales?)",
+      "me (?:frappe|bat|menace)", "interdiction de contact", "violenza domestica", "mi (?:picchia|minaccia)",
+      "maltrattament", "divieto di contatto", "stalk(?:s|ed|er|ing)?\\b",
+    ].join("|") + ")"
+  ),
+  // Only terms without an everyday meaning: "prévenu" also means "notified", "charged with" also fees
+  criminal: new RegExp(
+    "\\b(?:" + [
+      "criminal (?:charge|proceeding|record|complaint)", "arrested", "police custody",
+      "prosecutor", "penal order", "strafbefehl", "strafanzeige", "strafverfahren", "angeklagt", "anklage",
+      "verhaftet", "festgenommen", "untersuchungshaft", "staatsanwalt", "beschuldigt", "vorbestraft",
+      "ordonnance pénale", "plainte pénale", "procédure pénale", "inculpé", "arrêté par la police",
+      "détention provisoire", "ministère public", "decreto d'accusa", "denuncia penale",
+      "procedimento penale", "arrestato", "carcerazione preventiva", "ministero pubblico", "imputato",
+    ].join("|") + ")"
+  ),
+};
+
+// "the deadline ends tomorrow", "I only have 3 days left". Asking what a deadline is
+// ("What is the deadline to challenge my rent increase?") is not urgent by itself
+const URGENT_QUESTION_PATTERN = new RegExp(
+  [
+    "by tomorrow", "(?:ends|expires?|runs out) (?:today|tomorrow|in \\d+ days?)", "\\d+ days? left",
+    "bis morgen", "noch \\d+ tage", "läuft (?:heute|morgen|in \\d+ tagen) ab", "fristablauf (?:ist )?(?:heute|morgen)",
+    "expire (?:aujourd'hui|demain|dans \\d+ jours)", "d'ici demain", "plus que \\d+ jours",
+    "scade (?:oggi|domani|tra \\d+ giorni)", "entro domani", "solo \\d+ giorni",
+  ].join("|")
+);
+
+// "within 10 days", "innert 10 Tagen", "dans les 10 jours", "entro 5 giorni"
+const SHORT_PERIOD_PATTERN =
+  /(?:within|innert|innerhalb(?:\s+von)?|binnen|dans(?:\s+les|\s+un\s+délai\s+de)?|entro)\s+(\d{1,3})\s+(?:days|tagen|jours|giorni)/g;
+// Periods up to ten days are treated as imminent, e.g. the Rechtsvorschlag against a payment order.
+// Answers name 30-day periods for ordinary tenancy and employment matters, so those don't count
+const IMMINENT_DAYS = 10;
+
+export interface SafetyCheckInput {
+  question: string;
+  answer: string;
+  language?: LanguageCode;
+  // Legal answers always get the disclaimer; greetings and small talk only when flagged
+  legalAnswer: boolean;
+}
+
+/**
+ * Post-answer safety pass: flags situations where general information isn't
+ * enough, and attaches the disclaimer, a notice per flag and emergency
+ * contacts in the answer's language. Pattern-based, so it costs no model call
+ * and also covers questions the domain classifier took for small talk.
+ */
+export function assessSafety({ question, answer, language = "de", legalAnswer }: SafetyCheckInput): SafetyInfo | undefined {
+  const normalizedQuestion = question.toLowerCase();
+  const raised = new Set<SafetyFlag>();
+
+  for (const [flag, pattern] of Object.entries(SITUATION_PATTERNS) as [SafetyFlag, RegExp][]) {
+    if (pattern.test(normalizedQuestion)) raised.add(flag);
+  }
+  if (URGENT_QUESTION_PATTERN.test(normalizedQuestion) || hasShortDeadline(answer)) {
+    raised.add("deadline");
+  }
+
+  const flags = FLAG_ORDER.filter((flag) => raised.has(flag));
+  if (flags.length === 0 && !legalAnswer) return undefined;
+
+  const contacts = new Map<string, EmergencyContact>();
+  for (const flag of flags) {
+    for (const contact of getEmergencyContacts(flag, language)) {
+      contacts.set(contact.phone || contact.url || contact.name, contact);
+    }
+  }
+
+  return {
+    flags,
+    disclaimer: LEGAL_DISCLAIMERS[language],
+    warnings: flags.map((flag) => SAFETY_WARNINGS[flag][language]),
+    emergencyContacts: Array.from(contacts.values()),
+  };
+}
+
+// A period of at most ten days. Warning callouts don't count by themselves: the structured
+// answer prompt puts every deadline in one, however long it is
+function hasShortDeadline(answer: string): boolean {
+  for (const match of answer.toLowerCase().matchAll(SHORT_PERIOD_PATTERN)) {
+    if (parseInt(match[1], 10) <= IMMINENT_DAYS) return true;
+  }
+  return false;
+}
@@ -0,0 +1,90 @@
+import type { LanguageCode } from "@/lib/shared/types/corpus";
+import type { EmergencyContact, SafetyFlag } from "@/lib/shared/types/llm-response";
+
+export const LEGAL_DISCLAIMERS: Record<LanguageCode, string> = {
+  de: "Diese Informationen sind allgemeiner Natur und stellen keine Rechtsberatung dar. Für eine Beratung zu Ihrer Situation wenden Sie sich bitte an eine Anwältin oder einen Anwalt.",
+  fr: "Ces informations sont générales et ne constituent pas un conseil juridique. Pour un conseil adapté à votre situation, veuillez consulter une avocate ou un avocat.",
+  it: "Queste informazioni sono di carattere generale e non costituiscono una consulenza legale. Per una consulenza sulla sua situazione si rivolga a un'avvocata o a un avvocato.",
+  en: "This information is general and does not constitute legal advice. For advice on your situation, please consult a lawyer.",
+};
+
+export const SAFETY_WARNINGS: Record<SafetyFlag, Record<LanguageCode, string>> = {
+  selfHarm: {
+    de: "Wenn Sie daran denken, sich das Leben zu nehmen oder sich zu verletzen, sprechen Sie bitte jetzt mit jemandem. Die Dargebotene Hand ist rund um die Uhr unter 143 erreichbar, im Notfall die Sanität unter 144.",
+    fr: "Si vous pensez à mettre fin à vos jours ou à vous faire du mal, parlez-en maintenant à quelqu'un. La Main Tendue est joignable jour et nuit au 143, en cas d'urgence l'ambulance au 144.",
+    it: "Se sta pensando di togliersi la vita o di farsi del male, ne parli subito con qualcuno. Telefono Amico risponde giorno e notte al 143, in caso di emergenza l'ambulanza al 144.",
+    en: "If you are thinking about ending your life or harming yourself, please talk to someone now. Die Dargebotene Hand (helpline) answers around the clock on 143; in an emergency call an ambulance on 144.",
+  },
+  domesticViolence: {
+    de: "Wenn Sie in Gefahr sind, rufen Sie die Polizei unter 117. Die Opferhilfe berät Betroffene von Gewalt kostenlos und vertraulich, auch bevor Sie Anzeige erstatten.",
+    fr: "Si vous êtes en danger, appelez la police au 117. L'aide aux victimes conseille gratuitement et en toute confidentialité les personnes touchées par la violence, même avant une plainte.",
+    it: "Se è in pericolo, chiami la polizia al 117. L'aiuto alle vittime offre consulenza gratuita e confidenziale alle persone colpite da violenza, anche prima di una denuncia.",
+    en: "If you are in danger, call the police on 117. Victim support (Opferhilfe) advises people affected by violence free of charge and in confidence, even before you report it.",
+  },
+  criminal: {
+    de: "In einem Strafverfahren müssen Sie nicht gegen sich selbst aussagen und können vor jeder Einvernahme eine Verteidigerin oder einen Verteidiger beiziehen. Lassen Sie sich beraten, bevor Sie aussagen oder einen Strafbefehl akzeptieren.",
+    fr: "Dans une procédure pénale, vous n'êtes pas tenu de témoigner contre vous-même et pouvez faire appel à un avocat avant toute audition. Faites-vous conseiller avant de vous exprimer ou d'accepter une ordonnance pénale.",
+    it: "In un procedimento penale non è tenuto a deporre contro sé stesso e può farsi assistere da un difensore prima di ogni interrogatorio. Si faccia consigliare prima di rilasciare dichiarazioni o di accettare un decreto d'accusa.",
+    en: "In criminal proceedings you do not have to testify against yourself and may have a defence lawyer before any questioning. Get advice before you make a statement or accept a penalty order.",
+  },
+  deadline: {
+    de: "Hier läuft möglicherweise eine kurze Frist. Eine verpasste Frist lässt sich meist nicht nachholen. Prüfen Sie das Datum, ab dem sie läuft, und handeln Sie rechtzeitig.",
+    fr: "Un délai court est peut-être en cours. Un délai manqué ne peut généralement pas être rattrapé. Vérifiez la date à partir de laquelle il court et agissez à temps.",
+    it: "Potrebbe essere in corso un termine breve. Un termine scaduto di solito non può essere recuperato. Verifichi la data da cui decorre e agisca per tempo.",
+    en: "A short deadline may be running. A missed deadline usually cannot be made up. Check the date it runs from and act in time.",
+  },
+};
+
+const HELPLINE_NAMES: Record<LanguageCode, string> = {
+  de: "Die Dargebotene Hand",
+  fr: "La Main Tendue",
+  it: "Telefono Amico",
+  en: "Die Dargebotene Hand (helpline)",
+};
+
+const YOUTH_HELPLINE_NAMES: Record<LanguageCode, string> = {
+  de: "Pro Juventute (Kinder und Jugendliche)",
+  fr: "Pro Juventute (enfants et jeunes)",
+  it: "Pro Juventute (bambini e giovani)",
+  en: "Pro Juventute (children and young people)",
+};
+
+const AMBULANCE_NAMES: Record<LanguageCode, string> = {
+  de: "Sanitätsnotruf",
+  fr: "Urgences sanitaires",
+  it: "Ambulanza",
+  en: "Ambulance",
+};
+
+const POLICE_NAMES: Record<LanguageCode, string> = {
+  de: "Polizei",
+  fr: "Police",
+  it: "Polizia",
+  en: "Police",
+};
+
+const VICTIM_SUPPORT_NAMES: Record<LanguageCode, string> = {
+  de: "Opferhilfe Schweiz",
+  fr: "Aide aux victimes Suisse",
+  it: "Aiuto alle vittime Svizzera",
+  en: "Victim support Switzerland (Opferhilfe)",
+};
+
+// Swiss national numbers; only flags that call for immediate help have contacts
+export function getEmergencyContacts(flag: SafetyFlag, language: LanguageCode): EmergencyContact[] {
+  switch (flag) {
+    case "selfHarm":
+      return [
+        { name: HELPLINE_NAMES[language], phone: "143", url: "https://www.143.ch" },
+        { name: YOUTH_HELPLINE_NAMES[language], phone: "147", url: "https://www.147.ch" },
+        { name: AMBULANCE_NAMES[language], phone: "144" },
+      ];
+    case "domesticViolence":
+      return [
+        { name: POLICE_NAMES[language], phone: "117" },
+        { name: VICTIM_SUPPORT_NAMES[language], url: "https://www.opferhilfe-schweiz.ch" },
+      ];
+    default:
+      return [];
+  }
+}
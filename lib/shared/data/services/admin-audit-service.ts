@@ -0,0 +1,31 @@
+import { BaseAdminService, type BaseDocument } from "./base_admin_service";
+
+export type AdminAuditOutcome = "allowed" | "denied";
+
+// Who did what through the admin API, and whether it was allowed
+export interface AdminAuditEntry extends BaseDocument {
+  action: string;
+  uid: string | null;
+  email: string | null;
+  method: string;
+  path: string;
+  outcome: AdminAuditOutcome;
+  // HTTP status the handler answered with
+  status: number;
+  details: Record<string, any> | null;
+}
+
+export class AdminAuditService {
+  private auditService: BaseAdminService<AdminAuditEntry>;
+
+  constructor() {
+    this.auditService = new BaseAdminService<AdminAuditEntry>("admin_audit_log");
+  }
+
+  async record(entry: Omit<AdminAuditEntry, "id" | "createdAt" | "updatedAt">): Promise<void> {
+    const result = await this.auditService.create(entry);
+    if (!result.success) {
+      console.error(`Could not write admin audit entry for ${entry.action}:`, result.error);
+    }
+  }
+}
@@ -1,24 +1,39 @@
-import { Pinecone } from "@pinecone-database/pinecone";
-import { PineconeStore } from "@langchain/pinecone";
 import { PDFLoader } from "@langchain/community/document_loaders/fs/pdf";
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
-import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
-import type {  EnhancedSource, Citation, ResponseMetrics } from '@/lib/shared/types/llm-response';
-
-// Module-level singleton store
-let vectorStore: PineconeStore | null = null;
-
-export interface LawyerRecommendation {
-  name: string;
-  specialties: string[];
-  rating: number;
-  phone: string;
-  email: string;
-  address: string;
-  availability: string;
-  experience: string;
-  languages: string[];
-}
+import { LegalStructureTextSplitter } from "@/lib/shared/data/text-splitters/legal-structure-splitter";
+import { promises as fs } from "fs";
+import { createHash } from "crypto";
+import { isAbsolute, join } from "path";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import type { Callbacks } from "@langchain/core/callbacks/manager";
+import type {  EnhancedSource, Citation, MessageBlock, ResponseMetrics, RetrievalQuery, UsageStage } from '@/lib/shared/types/llm-response';
+import type { CorpusDocument, CorpusChunkMetadata, LanguageCode } from '@/lib/shared/types/corpus';
+import { CANTONS, type Canton } from '@/lib/shared/types/canton';
+import { PRACTICE_AREAS, type LawyerRecommendation, type LawyerReferral, type PracticeArea } from '@/lib/shared/types/lawyer';
+import { LANGUAGE_NAMES, resolveQuestionLanguage } from '@/lib/shared/utils/language-detection';
+import { formatArticleReference, getPageNumber } from '@/lib/shared/utils/document-metadata';
+import { hasStructuredBlocks, parseMessageBlocks } from '@/lib/shared/utils/message-blocks';
+import {
+  getVectorStoreProvider,
+  type VectorStoreBackend,
+  type VectorStoreProvider,
+} from "@/lib/shared/data/vector-stores";
+import { getKeywordIndex, type BM25Index } from "@/lib/shared/data/keyword-index";
+import {
+  mergeResultLists,
+  reciprocalRankFusion,
+  type FusedDocument,
+} from "@/lib/shared/data/retrieval/rank-fusion";
+import { rewriteQuery, unchangedQuery } from "@/lib/shared/data/retrieval/query-rewriter";
+import { createReranker, type RerankerName } from "@/lib/shared/data/rerankers";
+import {
+  checkFaithfulness,
+  estimateConfidence,
+  SENTENCE_ABBREVIATIONS,
+} from "@/lib/shared/data/confidence/confidence-estimator";
+import { UsageTracker } from "@/lib/shared/data/usage";
+import { IngestionManifestService } from "./ingestion-manifest-service";
+import { getLLMProvider, type LLMProviderName } from "@/lib/shared/data/llm-providers";
 
 export interface RAGResponse {
   answer: string;
@@ -28,7 +43,104 @@ export interface RAGResponse {
   citations: Citation[];
   followUps: string[];
   metrics: ResponseMetrics;
+  // Lawyers from the verified directory, when the answer calls for a referral
   lawyerRecommendations?: LawyerRecommendation[];
+  // Language of the question, which the answer is written in
+  language?: LanguageCode;
+  // The answer split into quotes, callouts, tables and lists, if structured blocks are on
+  blocks?: MessageBlock[];
+}
+
+export interface IngestionStats {
+  totalDocuments: number;
+  totalChunks: number;
+  totalPages: number;
+  processingTime: number;
+  added: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+}
+
+export interface ProcessDocumentResult {
+  success: boolean;
+  message: string;
+  stats: IngestionStats;
+}
+
+export type IngestionStage = "load" | "split" | "embed" | "upsert";
+
+export interface IngestionProgress {
+  stage: IngestionStage;
+  completed: number;
+  total: number;
+}
+
+export interface ProcessDocumentOptions {
+  // Only ingest these registry entries (defaults to all)
+  documentIds?: string[];
+  // Re-embed every chunk even if its content hash is unchanged
+  force?: boolean;
+  // Called as each stage advances; awaited so callers can persist it in order
+  onProgress?: (progress: IngestionProgress) => void | Promise<void>;
+}
+
+export interface RetrievalConfig {
+  // Chunks handed to the LLM as context
+  topK: number;
+  // Candidates fetched from each retriever before fusion
+  candidateK: number;
+  // Reciprocal-rank-fusion weights; 0 disables a retriever
+  vectorWeight: number;
+  keywordWeight: number;
+  // RRF damping constant; larger values flatten the gap between ranks
+  rrfK: number;
+  // Rescoring of the fused candidates; defaults to the RERANKER env var
+  reranker: RerankerName;
+  // Fused candidates handed to the reranker, of which topK are kept
+  rerankTopN: number;
+  // Rewrite follow-ups into standalone questions before searching; QUERY_REWRITE=false turns it off
+  rewriteQueries: boolean;
+  // Also search sub-queries for the parts of a question; defaults to QUERY_EXPANSION=true
+  expandQueries: boolean;
+  maxSubQueries: number;
+  // Also search translations of the question into the corpus languages;
+  // CROSS_LINGUAL_RETRIEVAL=false turns it off
+  crossLingual: boolean;
+}
+
+export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
+  topK: 5,
+  candidateK: 20,
+  vectorWeight: 1,
+  keywordWeight: 1,
+  rrfK: 60,
+  reranker: "lexical",
+  rerankTopN: 20,
+  rewriteQueries: true,
+  expandQueries: false,
+  maxSubQueries: 3,
+  crossLingual: true,
+};
+
+export interface RetrievedDocument extends FusedDocument {
+  // 1-based position in the fused ranking, before reranking
+  fusedRank: number;
+  // Reranker score in [0, 1], if a reranker ran
+  rerankScore?: number;
+  // Relevance in [0, 1] shown with the source: the rerank score, else the normalised fusion score
+  relevance: number;
+}
+
+export interface RAGStreamMetadata {
+  sources: EnhancedSource[];
+  citations: Citation[];
+}
+
+// Optional callbacks for streaming the answer as it is generated
+export interface RAGStreamHandlers {
+  onToken?: (token: string) => void;
+  onMetadata?: (metadata: RAGStreamMetadata) => void;
 }
 
 // Normalize LangChain/OpenAI message content to a string
@@ -58,6 +170,9 @@ function resolveContentToString(content: any): string {
   }
 }
 
+// Chunks embedded per provider call, which is also how often embed progress is reported
+const EMBEDDING_BATCH_SIZE = 100;
+
 export interface BaseRAGConfig {
   llmModel: string;
   embedModel: string;
@@ -66,8 +181,30 @@ export interface BaseRAGConfig {
   domainKeywords: string[];
   domainName: string;
   documentPath?: string;
+  // Document registry to ingest; falls back to a single entry for documentPath
+  documents?: CorpusDocument[];
   chunkSize?: number;
   chunkOverlap?: number;
+  // Defaults to VECTOR_STORE env var, then "pinecone"
+  vectorStore?: VectorStoreBackend;
+  // File for the local backend; "" keeps the index in memory only
+  localStorePath?: string;
+  // Defaults to LLM_PROVIDER env var, then "openai"
+  llmProvider?: LLMProviderName;
+  // Defaults to EMBEDDING_PROVIDER env var, then the LLM provider
+  embeddingProvider?: LLMProviderName;
+  // Server URL for self-hosted providers; defaults to OLLAMA_BASE_URL
+  providerBaseUrl?: string;
+  // Hybrid search settings, merged over DEFAULT_RETRIEVAL_CONFIG
+  retrieval?: Partial<RetrievalConfig>;
+  // BM25 index file; defaults to .keyword-index/<indexName>.json, "" keeps it in memory only
+  keywordIndexPath?: string;
+  // Let the LLM grade the answer's faithfulness for the confidence score;
+  // defaults to CONFIDENCE_SELF_CHECK=true
+  faithfulnessCheck?: boolean;
+  // Ask for statute quotes, deadline warnings and comparison tables and return them
+  // as message blocks; defaults to STRUCTURED_BLOCKS=true
+  structuredBlocks?: boolean;
 }
 
 export abstract class BaseRAGService {
@@ -78,8 +215,18 @@ export abstract class BaseRAGService {
   protected domainKeywords: string[];
   protected domainName: string;
   protected documentPath?: string;
+  protected documents: CorpusDocument[];
   protected chunkSize: number;
   protected chunkOverlap: number;
+  protected vectorStoreBackend: VectorStoreBackend;
+  protected localStorePath?: string;
+  protected llmProvider: LLMProviderName;
+  protected embeddingProvider: LLMProviderName;
+  protected providerBaseUrl?: string;
+  protected retrieval: RetrievalConfig;
+  protected keywordIndexPath?: string;
+  protected faithfulnessCheck: boolean;
+  protected structuredBlocks: boolean;
 
   constructor(config: BaseRAGConfig) {
     this.llmModel = config.llmModel;
@@ -89,73 +236,135 @@ export abstract class BaseRAGService {
     this.domainKeywords = config.domainKeywords;
     this.domainName = config.domainName;
     this.documentPath = config.documentPath;
+    this.documents =
+      config.documents ||
+      (config.documentPath
+        ? [{ id: "default", title: config.domainName, language: "de", filePath: config.documentPath }]
+        : []);
     this.chunkSize = config.chunkSize || 1200;
     this.chunkOverlap = config.chunkOverlap || 300;
+    this.vectorStoreBackend =
+      config.vectorStore || (process.env.VECTOR_STORE as VectorStoreBackend) || "pinecone";
+    this.localStorePath = config.localStorePath;
+    this.llmProvider =
+      config.llmProvider || (process.env.LLM_PROVIDER as LLMProviderName) || "openai";
+    this.embeddingProvider =
+      config.embeddingProvider ||
+      (process.env.EMBEDDING_PROVIDER as LLMProviderName) ||
+      this.llmProvider;
+    this.providerBaseUrl = config.providerBaseUrl;
+    this.retrieval = {
+      ...DEFAULT_RETRIEVAL_CONFIG,
+      reranker: (process.env.RERANKER as RerankerName) || DEFAULT_RETRIEVAL_CONFIG.reranker,
+      rewriteQueries: process.env.QUERY_REWRITE !== "false",
+      expandQueries: process.env.QUERY_EXPANSION === "true",
+      crossLingual: process.env.CROSS_LINGUAL_RETRIEVAL !== "false",
+      ...config.retrieval,
+    };
+    this.keywordIndexPath = config.keywordIndexPath;
+    this.faithfulnessCheck =
+      config.faithfulnessCheck ?? process.env.CONFIDENCE_SELF_CHECK === "true";
+    this.structuredBlocks = config.structuredBlocks ?? process.env.STRUCTURED_BLOCKS === "true";
   }
 
-  async processDocument(documents?: any[]): Promise<{
-    success: boolean;
-    message: string;
-    stats: { totalChunks: number; totalPages: number; processingTime: number };
-  }> {
+  protected createChatModel(temperature: number = 0.2, callbacks?: Callbacks): BaseChatModel {
+    return getLLMProvider(this.llmProvider).createChatModel({
+      model: this.llmModel,
+      temperature,
+      baseUrl: this.providerBaseUrl,
+      callbacks,
+    });
+  }
+
+  protected createEmbeddings(): EmbeddingsInterface {
+    return getLLMProvider(this.embeddingProvider).createEmbeddings({
+      model: this.embedModel,
+      baseUrl: this.providerBaseUrl,
+    });
+  }
+
+  protected getVectorStore(embeddings: EmbeddingsInterface = this.createEmbeddings()): VectorStoreProvider {
+    return getVectorStoreProvider(
+      {
+        backend: this.vectorStoreBackend,
+        indexName: this.indexName,
+        pineconeApiKey: this.pineconeApiKey,
+        localStorePath: this.localStorePath,
+        embeddingKey: `${this.embeddingProvider}:${this.embedModel}`,
+      },
+      embeddings
+    );
+  }
+
+  // Languages the ingested documents are written in
+  protected getCorpusLanguages(): LanguageCode[] {
+    return Array.from(new Set(this.documents.map((doc) => doc.language)));
+  }
+
+  protected getKeywordIndex(): BM25Index {
+    return getKeywordIndex({ indexName: this.indexName, filePath: this.keywordIndexPath });
+  }
+
+  async processDocument(
+    documents?: any[],
+    options: ProcessDocumentOptions = {}
+  ): Promise<ProcessDocumentResult> {
     const startTime = Date.now();
+    const report = async (stage: IngestionStage, completed: number, total: number) => {
+      await options.onProgress?.({ stage, completed, total });
+    };
 
     try {
       let docs = documents;
+      let totalDocuments = 0;
       
-      // Load documents from path if no documents provided
-      if (!docs && this.documentPath) {
-        const loader = new PDFLoader(this.documentPath);
-        docs = await loader.load();
-        console.log(`Loaded ${docs.length} pages from PDF`);
+      // Load registry documents if no documents provided
+      if (!docs && this.documents.length > 0) {
+        const loaded = await this.loadCorpusDocuments(options.documentIds, report);
+        docs = loaded.pages;
+        totalDocuments = loaded.totalDocuments;
+        console.log(`Loaded ${docs.length} pages from ${totalDocuments} documents`);
       } else if (docs) {
+        totalDocuments = new Set(docs.map((doc) => doc.metadata?.documentId || doc.metadata?.source)).size;
+        await report("load", totalDocuments, totalDocuments);
         console.log(`Loaded ${docs.length} pages`);
       } else {
-        throw new Error("No documents provided and no document path configured");
+        throw new Error("No documents provided and no document registry configured");
+      }
+
+      if (docs.length === 0) {
+        throw new Error("None of the registered documents could be loaded");
       }
 
-      // Split into chunks using configured sizes
-      const textSplitter = new RecursiveCharacterTextSplitter({
+      // Split along articles and paragraphs, falling back to configured sizes
+      const textSplitter = new LegalStructureTextSplitter({
         chunkSize: this.chunkSize,
         chunkOverlap: this.chunkOverlap,
       });
+      await report("split", 0, docs.length);
       const chunks = await textSplitter.splitDocuments(docs);
+      await report("split", docs.length, docs.length);
       console.log(`Split into ${chunks.length} chunks`);
 
-      // Create embeddings (OpenAI)
-      const embeddings = new OpenAIEmbeddings({
-        model: this.embedModel,
-        apiKey: process.env.OPENAI_API_KEY,
-      } as any);
+      // Create embeddings with the configured provider
+      const embeddings = this.createEmbeddings();
 
       // Auto-detect embedding dimension
       const testEmbed = await embeddings.embedQuery("dimension test");
       const dimension = testEmbed.length;
       console.log(`Embedding dimension: ${dimension}`);
 
-      // Initialize Pinecone
-      const pc = new Pinecone({ apiKey: this.pineconeApiKey });
-
       // Ensure index exists with correct dimension
-      const indexes = await pc.listIndexes();
-      const exists = indexes.indexes?.some((i) => i.name === this.indexName);
-      if (!exists) {
-        await pc.createIndex({
-          name: this.indexName,
-          dimension,
-          metric: "cosine",
-          spec: { serverless: { cloud: "aws", region: "us-east-1" } },
-        });
-        console.log(`Created Pinecone index: ${this.indexName}`);
-      }
+      const store = this.getVectorStore(embeddings);
+      await store.ensureIndex(dimension);
 
-      const pineconeIndex = pc.index(this.indexName);
+      const changes = await this.syncChunks(store, embeddings, chunks, report, options.force);
+      console.log(
+        `Synced ${store.backend} vector store: ${changes.added} added, ${changes.updated} updated, ` +
+          `${changes.deleted} deleted, ${changes.unchanged} unchanged`
+      );
 
-      // Store vectors in Pinecone
-      vectorStore = await PineconeStore.fromDocuments(chunks, embeddings, {
-        pineconeIndex: pineconeIndex as any,
-      });
-      console.log(`Stored ${chunks.length} chunks in Pinecone`);
+      await this.updateKeywordIndex(chunks);
 
       const processingTime = Date.now() - startTime;
 
@@ -163,9 +372,11 @@ export abstract class BaseRAGService {
         success: true,
         message: "Document processed successfully",
         stats: {
+          totalDocuments,
           totalChunks: chunks.length,
           totalPages: docs.length,
           processingTime,
+          ...changes,
         },
       };
     } catch (error) {
@@ -176,64 +387,385 @@ export abstract class BaseRAGService {
           error instanceof Error ? error.message : "Unknown error"
         }`,
         stats: {
+          totalDocuments: 0,
           totalChunks: 0,
           totalPages: 0,
           processingTime: Date.now() - startTime,
+          added: 0,
+          updated: 0,
+          deleted: 0,
+          unchanged: 0,
         },
       };
     }
   }
 
-  async query(question: string, conversationMessages?: any[]): Promise<RAGResponse> {
-    const startTime = Date.now();
+  // Diff chunks against the stored manifest of each document: upsert only new
+  // or changed chunks and delete chunks that no longer exist
+  private async syncChunks(
+    store: VectorStoreProvider,
+    embeddings: EmbeddingsInterface,
+    chunks: any[],
+    report: (stage: IngestionStage, completed: number, total: number) => Promise<void>,
+    force: boolean = false
+  ): Promise<{ added: number; updated: number; deleted: number; unchanged: number }> {
+    const manifests = new IngestionManifestService();
+    const changes = { added: 0, updated: 0, deleted: 0, unchanged: 0 };
+    const plans: {
+      documentKey: string;
+      current: Record<string, string>;
+      toUpsert: any[];
+      staleIds: string[];
+    }[] = [];
 
-    try {
-      if (!vectorStore) {
-        // Initialize from existing index
-        const embeddings = new OpenAIEmbeddings({
-          model: this.embedModel,
-          apiKey: process.env.OPENAI_API_KEY,
-        } as any);
-        const pc = new Pinecone({ apiKey: this.pineconeApiKey });
-        const pineconeIndex = pc.index(this.indexName);
-        vectorStore = await PineconeStore.fromExistingIndex(embeddings, {
-          pineconeIndex: pineconeIndex as any,
-        });
+    for (const [documentKey, documentChunks] of this.assignChunkIds(chunks)) {
+      const previous = await manifests.getManifest(this.indexName, documentKey);
+      const current: Record<string, string> = {};
+      const toUpsert: any[] = [];
+
+      for (const chunk of documentChunks) {
+        const { chunkId, contentHash } = chunk.metadata;
+        current[chunkId] = contentHash;
+
+        if (!(chunkId in previous)) {
+          changes.added++;
+          toUpsert.push(chunk);
+        } else if (previous[chunkId] !== contentHash || force) {
+          changes.updated++;
+          toUpsert.push(chunk);
+        } else {
+          changes.unchanged++;
+        }
+      }
+
+      const staleIds = Object.keys(previous).filter((id) => !(id in current));
+      changes.deleted += staleIds.length;
+      plans.push({ documentKey, current, toUpsert, staleIds });
+    }
+
+    // Embed everything up front so embedding and upserting report separate progress
+    const pending = plans.flatMap((plan) => plan.toUpsert);
+    const vectors: number[][] = [];
+    await report("embed", 0, pending.length);
+    for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE);
+      vectors.push(...(await embeddings.embedDocuments(batch.map((chunk) => chunk.pageContent))));
+      await report("embed", vectors.length, pending.length);
+    }
+
+    let upserted = 0;
+    await report("upsert", 0, pending.length);
+    for (const plan of plans) {
+      if (plan.toUpsert.length > 0) {
+        await store.addVectors(
+          vectors.slice(upserted, upserted + plan.toUpsert.length),
+          plan.toUpsert,
+          plan.toUpsert.map((chunk) => chunk.metadata.chunkId)
+        );
+        upserted += plan.toUpsert.length;
+      }
+      await store.deleteDocuments(plan.staleIds);
+
+      const saved = await manifests.saveManifest(this.indexName, plan.documentKey, plan.current);
+      if (!saved) {
+        console.warn(`Could not save ingestion manifest for ${plan.documentKey}; the next run will re-embed it`);
+      }
+      await report("upsert", upserted, pending.length);
+    }
+
+    return changes;
+  }
+
+  // Give every chunk a deterministic id and a content hash, grouped by document.
+  // Article chunks are keyed by their position in the statute (so an amended
+  // article is an update); other chunks are keyed by their content.
+  private assignChunkIds(chunks: any[]): Map<string, any[]> {
+    const byDocument = new Map<string, any[]>();
+    const occurrences = new Map<string, number>();
+
+    for (const chunk of chunks) {
+      const metadata = chunk.metadata || {};
+      const documentKey = this.getDocumentKey(metadata);
+      const contentHash = this.sha256(chunk.pageContent).slice(0, 32);
+
+      const baseKey = metadata.article
+        ? `${documentKey}|art:${metadata.article}|${metadata.paragraph || ""}`
+        : `${documentKey}|content:${contentHash}`;
+      const occurrence = occurrences.get(baseKey) || 0;
+      occurrences.set(baseKey, occurrence + 1);
+
+      const chunkId = `${documentKey}:${this.sha256(`${baseKey}#${occurrence}`).slice(0, 24)}`;
+      chunk.metadata = { ...metadata, chunkId, contentHash };
+
+      if (!byDocument.has(documentKey)) byDocument.set(documentKey, []);
+      byDocument.get(documentKey)!.push(chunk);
+    }
+
+    return byDocument;
+  }
+
+  private getDocumentKey(metadata: Record<string, any>): string {
+    return String(metadata.documentId || metadata.source || "default");
+  }
+
+  // Rebuild the BM25 entries of every ingested document from its full chunk
+  // list (not just the changed chunks), so the keyword index always mirrors the vectors
+  private async updateKeywordIndex(chunks: any[]): Promise<void> {
+    const keywordIndex = this.getKeywordIndex();
+    const byDocument = new Map<string, any[]>();
+    for (const chunk of chunks) {
+      const documentKey = this.getDocumentKey(chunk.metadata || {});
+      if (!byDocument.has(documentKey)) byDocument.set(documentKey, []);
+      byDocument.get(documentKey)!.push(chunk);
+    }
+
+    for (const [documentKey, documentChunks] of byDocument) {
+      await keywordIndex.replaceDocument(
+        documentKey,
+        documentChunks.map((chunk) => ({
+          id: chunk.metadata.chunkId,
+          pageContent: chunk.pageContent,
+          metadata: chunk.metadata,
+        }))
+      );
+    }
+    await keywordIndex.save();
+    console.log(`Updated keyword index for ${byDocument.size} documents`);
+  }
+
+  private sha256(value: string): string {
+    return createHash("sha256").update(value).digest("hex");
+  }
+
+  // Load each registry entry's PDF and stamp its metadata onto every page,
+  // which the splitter then copies onto every chunk
+  protected async loadCorpusDocuments(
+    documentIds?: string[],
+    report?: (stage: IngestionStage, completed: number, total: number) => Promise<void>
+  ): Promise<{ pages: any[]; totalDocuments: number }> {
+    const selected = documentIds
+      ? this.documents.filter((doc) => documentIds.includes(doc.id))
+      : this.documents;
+
+    const pages: any[] = [];
+    let totalDocuments = 0;
+
+    for (const [index, corpusDoc] of selected.entries()) {
+      await report?.("load", index, selected.length);
+
+      const filePath = isAbsolute(corpusDoc.filePath)
+        ? corpusDoc.filePath
+        : join(process.cwd(), corpusDoc.filePath);
+
+      try {
+        await fs.access(filePath);
+      } catch {
+        console.warn(`Skipping ${corpusDoc.id}: file not found at ${filePath}`);
+        continue;
       }
 
-      // Set up LLM (OpenAI)
-      const llm = new ChatOpenAI({
-        model: this.llmModel,
-        temperature: 0.2,
-        apiKey: process.env.OPENAI_API_KEY,
-      } as any);
+      const loader = new PDFLoader(filePath);
+      const docPages = await loader.load();
+      const metadata = this.toChunkMetadata(corpusDoc);
+      docPages.forEach((page) => {
+        page.metadata = { ...page.metadata, ...metadata };
+      });
+
+      console.log(`Loaded ${docPages.length} pages from ${corpusDoc.id}`);
+      pages.push(...docPages);
+      totalDocuments++;
+    }
 
+    await report?.("load", selected.length, selected.length);
+
+    return { pages, totalDocuments };
+  }
 
+  protected toChunkMetadata(corpusDoc: CorpusDocument): CorpusChunkMetadata {
+    const metadata: CorpusChunkMetadata = {
+      documentId: corpusDoc.id,
+      documentTitle: corpusDoc.title,
+      documentShortTitle: corpusDoc.shortTitle,
+      srNumber: corpusDoc.srNumber,
+      language: corpusDoc.language,
+      versionDate: corpusDoc.versionDate,
+      documentUrl: corpusDoc.url || this.toPublicUrl(corpusDoc.filePath),
+      jurisdiction: corpusDoc.jurisdiction,
+    };
+
+    // Vector stores reject undefined metadata values
+    return Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => value !== undefined)
+    ) as CorpusChunkMetadata;
+  }
+
+  // Files under public/ are served from the site root
+  private toPublicUrl(filePath: string): string | undefined {
+    const match = filePath.replace(/\\/g, "/").match(/(?:^|\/)public(\/.+)$/);
+    return match ? match[1] : undefined;
+  }
+
+  /**
+   * Hybrid retrieval: vector and BM25 candidates merged by weighted
+   * reciprocal-rank fusion, then the best rerankTopN rescored by the
+   * configured reranker. Falls back to vector search alone while the
+   * keyword index is empty (e.g. a Pinecone index ingested elsewhere).
+   * Sub-queries and translations are searched too, each retriever's lists
+   * merged before fusion.
+   */
+  protected async retrieve(query: string | RetrievalQuery, usage?: UsageTracker): Promise<RetrievedDocument[]> {
+    const { standalone: question, subQueries, translations } =
+      typeof query === "string" ? unchangedQuery(query) : query;
+    const { topK, candidateK, vectorWeight, keywordWeight, rrfK, reranker, rerankTopN } = this.retrieval;
+    const keywordIndex = this.getKeywordIndex();
+    const embeddings = usage
+      ? usage.embeddings(this.createEmbeddings(), "retrieval")
+      : this.createEmbeddings();
+    const queries = [question, ...subQueries, ...translations];
+
+    const [vectorLists, keywordLists] = await Promise.all([
+      vectorWeight > 0
+        ? Promise.all(
+            queries.map(async (query) =>
+              this.getVectorStore(embeddings).similaritySearchByVector(
+                await embeddings.embedQuery(query),
+                candidateK
+              )
+            )
+          )
+        : Promise.resolve([]),
+      keywordWeight > 0
+        ? Promise.all(queries.map((query) => keywordIndex.search(query, candidateK))).catch((error) => {
+            console.warn("Keyword search failed, using vector results only:", error);
+            return [];
+          })
+        : Promise.resolve([]),
+    ]);
+    const vectorResults = mergeResultLists(vectorLists, candidateK);
+    const keywordResults = mergeResultLists(keywordLists, candidateK);
+
+    const fused = reciprocalRankFusion(
+      [
+        { name: "vector", results: vectorResults, weight: vectorWeight },
+        { name: "keyword", results: keywordResults, weight: keywordWeight },
+      ],
+      rrfK
+    );
+
+    // A chunk ranked first by every enabled retriever scores 1
+    const maxFusedScore = (Math.max(vectorWeight, 0) + Math.max(keywordWeight, 0)) / (rrfK + 1);
+    const candidates: RetrievedDocument[] = fused
+      .slice(0, reranker === "none" ? topK : Math.max(rerankTopN, topK))
+      .map((doc, index) => ({
+        ...doc,
+        fusedRank: index + 1,
+        relevance: maxFusedScore > 0 ? doc.score / maxFusedScore : 0,
+      }));
+
+    // Translations give the reranker terms that match chunks in other languages
+    const rerankQuery = [question, ...translations].join("\n");
+    const retrieved = (await this.rerank(rerankQuery, candidates, reranker, usage)).slice(0, topK);
+
+    console.log(
+      `Retrieved ${vectorResults.length} vector and ${keywordResults.length} keyword candidates, ` +
+        `reranked ${candidates.length} with ${reranker}, kept ${retrieved.length}`
+    );
+    return retrieved;
+  }
+
+  // Rescore candidates and sort by the new score; on reranker failure the fused order is kept
+  protected async rerank(
+    question: string,
+    candidates: RetrievedDocument[],
+    rerankerName: RerankerName,
+    usage?: UsageTracker
+  ): Promise<RetrievedDocument[]> {
+    if (candidates.length === 0) return candidates;
+
+    try {
+      const reranker = createReranker(rerankerName, {
+        chatModel: rerankerName === "llm" ? this.createChatModel(0, usage?.callbacks("rerank")) : undefined,
+      });
+      if (!reranker) return candidates;
+
+      const scores = await reranker.score(question, candidates.map(({ document }) => document));
+      return candidates
+        .map((candidate, i) => ({ ...candidate, rerankScore: scores[i], relevance: scores[i] }))
+        .sort((a, b) => b.rerankScore - a.rerankScore);
+    } catch (error) {
+      console.warn(`Reranking with ${rerankerName} failed, keeping fused order:`, error);
+      return candidates;
+    }
+  }
+
+  async query(
+    question: string,
+    conversationMessages?: any[],
+    handlers?: RAGStreamHandlers
+  ): Promise<RAGResponse> {
+    const startTime = Date.now();
+    const language = resolveQuestionLanguage(question, conversationMessages);
+    const usage = new UsageTracker({ chatModel: this.llmModel, embedModel: this.embedModel });
+    // One chat model per stage, so token usage is reported per stage
+    const llmFor = (stage: UsageStage, temperature?: number) =>
+      this.createChatModel(temperature, usage.callbacks(stage));
+
+    try {
       // Check if the question is domain-related, considering conversation context
-      const isDomainRelated = await this.isDomainRelatedQuestion(question, llm, conversationMessages);
+      const isDomainRelated = await this.isDomainRelatedQuestion(
+        question,
+        llmFor("classification"),
+        conversationMessages
+      );
 
       console.log('isDomainRelated', isDomainRelated);
       
       if (!isDomainRelated) {
         // Handle general conversation naturally
-        const generalAnswer = await llm.invoke(
-          `You are Mis RächtMitch, a Swiss legal assistant. Respond naturally to: ${question}. If it's a greeting, introduce yourself briefly and ask how you can help with legal questions. Format your response in markdown.`
+        const generalAnswer = await this.generateAnswer(
+          llmFor("answer"),
+          `You are Mis RächtMitch, a Swiss legal assistant. Respond naturally to: ${question}. If it's a greeting, introduce yourself briefly and ask how you can help with legal questions. Respond in ${LANGUAGE_NAMES[language]}. Format your response in markdown.`,
+          handlers
         );
 
         const processingTime = Date.now() - startTime;
         return this.createRAGResponse(
-          resolveContentToString(generalAnswer.content),
+          generalAnswer,
           [],
           0.5,
           processingTime,
           [],
-          []
+          [],
+          undefined,
+          usage.report(),
+          language
         );
       }
 
       // For domain-related questions, use RAG
-      const retriever = vectorStore.asRetriever({ k: 5 });
-      const docs = await retriever.invoke(question);
+      // Resolve follow-ups against the conversation so the search sees a complete question
+      // and, for cross-lingual retrieval, in the languages of the corpus
+      const { rewriteQueries, expandQueries, maxSubQueries, crossLingual } = this.retrieval;
+      const translateTo = crossLingual ? this.getCorpusLanguages().filter((code) => code !== language) : [];
+      let retrievalQuery =
+        rewriteQueries || expandQueries || translateTo.length > 0
+          ? await rewriteQuery(llmFor("rewrite", 0), question, rewriteQueries ? conversationMessages : [], {
+              expand: expandQueries,
+              maxSubQueries,
+              translateTo,
+            })
+          : unchangedQuery(question);
+      if (!rewriteQueries) {
+        retrievalQuery = { ...retrievalQuery, standalone: question };
+      }
+      console.log(
+        `Retrieval query (${language}): "${retrievalQuery.standalone}"` +
+          (retrievalQuery.subQueries.length > 0 ? `, sub-queries: ${JSON.stringify(retrievalQuery.subQueries)}` : "") +
+          (retrievalQuery.translations.length > 0 ? `, translations: ${JSON.stringify(retrievalQuery.translations)}` : "")
+      );
+
+      const retrieved = await this.retrieve(retrievalQuery, usage);
+      const docs = retrieved.map(({ document }) => document);
 
       // Build context even if no docs (might have conversation context)
       const context = this.buildContext(docs, conversationMessages);
@@ -241,22 +773,27 @@ export abstract class BaseRAGService {
       if (docs.length === 0 && (!conversationMessages || conversationMessages.length === 0)) {
         const processingTime = Date.now() - startTime;
         return this.createRAGResponse(
-          this.getNoInformationMessage(),
+          this.getNoInformationMessage(language),
           [],
           0,
           processingTime,
           [],
-          []
+          [],
+          undefined,
+          { ...usage.report(), retrievalQuery },
+          language
         );
       }
 
       // Context already built above (handles both docs and conversation)
       // Get domain-specific prompt (no longer needs conversationContext)
-      const prompt = this.getDomainPrompt(context, question);
+      const prompt = this.getDomainPrompt(context, question, language);
 
-      // Add markdown formatting instruction to ensure consistent output
+      // Add markdown formatting and citation instructions to ensure consistent output
       const markdownPrompt = `${prompt}
 
+CITATIONS: The context contains numbered sources ([Source 1], [Source 2], ...). Whenever a sentence relies on a source, put its number in square brackets right after that sentence, e.g. "The notice period is three months. [2]". Cite several sources as [1][3]. Only use numbers of sources that appear in the context; never invent source numbers.
+
 CRITICAL: Format your entire response in markdown. Use proper markdown syntax including:
 - Headers (# ## ###)
 - Bold text (**text**)
@@ -265,36 +802,66 @@ CRITICAL: Format your entire response in markdown. Use proper markdown syntax in
 - Code blocks (\`\`\`language)
 - Links ([text](url))
 - Blockquotes (> quote)
-
+${
+  this.structuredBlocks
+    ? `
+STRUCTURE: The answer is displayed in sections, so follow these conventions:
+- When a provision's exact wording matters, quote it as a blockquote ending with its source number, e.g. "> Der Mieter kann ... [2]". Use blockquotes for nothing else.
+- Put every deadline, time limit or limitation period the user has to act on in a warning: a line "> [!WARNING]" followed by "> " lines stating the period, when it starts and what happens if it is missed.
+- Put other important notes in "> [!NOTE]" blocks and practical tips in "> [!TIP]" blocks.
+- When comparing options, procedures or rules, use a markdown table with a header row.
+`
+    : ""
+}
 Your response must be in markdown format.`;
 
-      const answer = await llm.invoke(markdownPrompt);
-      const finalAnswer = resolveContentToString(answer.content);
+      const finalAnswer = await this.generateAnswer(llmFor("answer"), markdownPrompt, handlers);
 
       // Create enhanced sources with stable IDs and URLs
-      const sources = this.createEnhancedSources(docs);
+      const sources = this.createEnhancedSources(retrieved);
       
       // Attach citations to the answer
       const { textWithCitations, citations } = this.attachCitations(finalAnswer, sources);
+      handlers?.onMetadata?.({ sources, citations });
       
       // Generate follow-up questions
-      const followUps = await this.generateFollowUps(question, finalAnswer, llm);
+      const followUps = await this.generateFollowUps(question, finalAnswer, llmFor("followUps"), language);
       
-      // Generate lawyer recommendations
-      const lawyerRecommendations = await this.generateLawyerRecommendations(question, finalAnswer, llm);
+      // The model only decides whether a lawyer is needed; the lawyers come from the directory
+      const referral = await this.decideLawyerReferral(question, finalAnswer, llmFor("lawyers"));
+      const lawyerRecommendations = referral
+        ? await this.findLawyers(referral, question, conversationMessages, language)
+        : [];
       
-      const confidence = Math.min(0.95, 0.6 + docs.length * 0.1);
+      const faithfulness = this.faithfulnessCheck
+        ? await checkFaithfulness(llmFor("selfCheck", 0), textWithCitations, context)
+        : undefined;
+      const { confidence, breakdown } = estimateConfidence({
+        retrieved,
+        answer: textWithCitations,
+        citations,
+        topK: this.retrieval.topK,
+        faithfulness,
+      });
       const processingTime = Date.now() - startTime;
+      const usageReport = usage.report();
+      console.log(
+        `Used ${usageReport.tokenUsage?.total} tokens, estimated USD ${usageReport.cost?.usd.toFixed(4)}`
+      );
 
-      return this.createRAGResponse(
+      const response = this.createRAGResponse(
         textWithCitations,
         sources,
         confidence,
         processingTime,
         citations,
         followUps,
-        lawyerRecommendations
+        lawyerRecommendations,
+        { confidenceBreakdown: breakdown, ...usageReport, retrievalQuery },
+        language
       );
+      const blocks = this.structuredBlocks ? parseMessageBlocks(textWithCitations, sources) : [];
+      return hasStructuredBlocks(blocks) ? { ...response, blocks } : response;
     } catch (error) {
       console.error("Error querying:", error);
       const processingTime = Date.now() - startTime;
@@ -304,14 +871,17 @@ Your response must be in markdown format.`;
         0,
         processingTime,
         [],
-        []
+        [],
+        undefined,
+        usage.report(),
+        language
       );
     }
   }
 
   protected async isDomainRelatedQuestion(
     question: string,
-    llm: { invoke: (input: any) => Promise<any> },
+    llm: BaseChatModel,
     conversationMessages?: any[]
   ): Promise<boolean> {
     const lowerQuestion = question.toLowerCase().trim();
@@ -377,28 +947,50 @@ Question: "${question}"`;
   }
 
   // Abstract methods to be implemented by specific domain services
-  protected abstract getNoInformationMessage(): string;
+  protected abstract getNoInformationMessage(language: LanguageCode): string;
   protected abstract buildContext(docs: any[], conversationMessages?: any[]): string;
-  protected abstract getDomainPrompt(context: string, question: string): string;
+  protected abstract getDomainPrompt(context: string, question: string, language: LanguageCode): string;
 
 
   async isReady(): Promise<boolean> {
     try {
-      if (vectorStore) return true;
-
-      // Check Pinecone index
-      const pc = new Pinecone({ apiKey: this.pineconeApiKey });
-      const stats = await pc.index(this.indexName).describeIndexStats();
-      return (stats.totalRecordCount || 0) > 0;
+      return await this.getVectorStore().isReady();
     } catch {
       return false;
     }
   }
 
+  // Invoke the LLM, streaming tokens to the handler when one is provided
+  private async generateAnswer(
+    llm: BaseChatModel,
+    prompt: string,
+    handlers?: RAGStreamHandlers
+  ): Promise<string> {
+    if (!handlers?.onToken) {
+      const response = await llm.invoke(prompt);
+      return resolveContentToString(response.content);
+    }
+
+    let answer = "";
+    const stream = await llm.stream(prompt);
+    for await (const chunk of stream) {
+      const token = resolveContentToString(chunk.content);
+      if (!token) continue;
+      answer += token;
+      handlers.onToken(token);
+    }
+    return answer;
+  }
+
   // Helper method to generate follow-up questions
-  private async generateFollowUps(question: string, answer: string, llm: any): Promise<string[]> {
+  private async generateFollowUps(
+    question: string,
+    answer: string,
+    llm: BaseChatModel,
+    language: LanguageCode
+  ): Promise<string[]> {
     try {
-      const followUpPrompt = `Based on this question and answer, suggest 3 helpful follow-up questions that a user might want to ask. Keep them concise and relevant.
+      const followUpPrompt = `Based on this question and answer, suggest 3 helpful follow-up questions that a user might want to ask. Keep them concise and relevant, and write them in ${LANGUAGE_NAMES[language]}.
 
 Question: ${question}
 Answer: ${answer}
@@ -419,110 +1011,179 @@ Return only the questions, one per line, without numbering or bullet points.`;
     }
   }
 
-  // Helper method to generate lawyer recommendations
-  private async generateLawyerRecommendations(question: string, answer: string, llm: any): Promise<LawyerRecommendation[]> {
+  // Ask the model whether the question calls for a lawyer, and in which practice areas and canton.
+  // Returns null when no referral is needed or the reply can't be parsed.
+  private async decideLawyerReferral(question: string, answer: string, llm: BaseChatModel): Promise<LawyerReferral | null> {
     try {
-      const lawyerPrompt = `Based on this legal question and answer, determine if lawyer recommendations would be helpful. Only recommend lawyers if:
-1. The user specifically asks for lawyer recommendations
+      const referralPrompt = `Based on this legal question and answer, decide whether the user should be referred to a lawyer. Refer only if:
+1. The user specifically asks for a lawyer
 2. The question involves complex legal procedures requiring professional assistance
 3. The answer suggests the user needs professional legal representation
 
 Question: ${question}
 Answer: ${answer}
 
-If lawyer recommendations are appropriate, provide 2-3 Swiss lawyers with the following JSON format:
-{
-  "lawyerRecommendations": [
-    {
-      "name": "Dr. [First Name] [Last Name]",
-      "specialties": ["relevant practice areas"],
-      "rating": 4.5,
-      "phone": "+41 [area code] [number]",
-      "email": "[name]@law.ch",
-      "address": "[Street], [ZIP] [City], Switzerland",
-      "availability": "Mon-Fri 9:00-17:00",
-      "experience": "10+ years",
-      "languages": ["German", "English", "French"]
-    }
-  ]
-}
+Reply with JSON only, in this format:
+{"referral": true, "practiceAreas": ["family law"], "canton": "ZH"}
 
-If no lawyer recommendations are needed, return: {"lawyerRecommendations": []}
+- "practiceAreas": one or two of ${PRACTICE_AREAS.map((area) => `"${area}"`).join(", ")}.
+- "canton": the two-letter code of the canton where the user needs a lawyer, or null if the question and answer don't say.
+- Do not name lawyers, law firms or contact details.
 
-Focus on lawyers who specialize in the relevant area of Swiss law mentioned in the question.`;
+If no referral is needed, reply: {"referral": false}`;
 
-      const response = await llm.invoke(lawyerPrompt);
+      const response = await llm.invoke(referralPrompt);
       const responseText = resolveContentToString(response.content);
-      
+
       try {
-        // Extract JSON from markdown code blocks if present
-        let jsonText = responseText.trim();
-        
-        // Remove markdown code block markers
-        if (jsonText.startsWith('```json')) {
-          jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        } else if (jsonText.startsWith('```')) {
-          jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-        }
-        
-        // Clean up any extra whitespace
-        jsonText = jsonText.trim();
-        
+        // Extract the JSON object, also from markdown code blocks
+        const jsonText = responseText.slice(responseText.indexOf("{"), responseText.lastIndexOf("}") + 1);
         const parsed = JSON.parse(jsonText);
-        return parsed.lawyerRecommendations || [];
+        if (parsed.referral !== true) return null;
+
+        const practiceAreas = (Array.isArray(parsed.practiceAreas) ? parsed.practiceAreas : [])
+          .map((area: unknown) => String(area).toLowerCase())
+          .filter((area: string): area is PracticeArea => (PRACTICE_AREAS as readonly string[]).includes(area));
+        const canton = typeof parsed.canton === "string" ? parsed.canton.toUpperCase() : "";
+
+        return (CANTONS as readonly string[]).includes(canton)
+          ? { practiceAreas, canton: canton as Canton }
+          : { practiceAreas };
       } catch (parseError) {
-        console.error('Error parsing lawyer recommendations JSON:', parseError);
+        console.error('Error parsing lawyer referral JSON:', parseError);
         console.error('Response text:', responseText);
-        return [];
+        return null;
       }
     } catch (error) {
-      console.error('Error generating lawyer recommendations:', error);
-      return [];
+      console.error('Error deciding lawyer referral:', error);
+      return null;
     }
   }
 
+  // Look up lawyers for a referral. The base service has no directory; domain services override this.
+  protected async findLawyers(
+    _referral: LawyerReferral,
+    _question: string,
+    _conversationMessages: any[] | undefined,
+    _language: LanguageCode
+  ): Promise<LawyerRecommendation[]> {
+    return [];
+  }
+
   // Helper method to create enhanced sources with stable IDs and URLs
-  private createEnhancedSources(docs: any[]): EnhancedSource[] {
-    return docs.map((doc, index) => {
-      const page = doc.metadata?.loc?.pageNumber || 0;
+  private createEnhancedSources(retrieved: RetrievedDocument[]): EnhancedSource[] {
+    return retrieved.map(({ document: doc, relevance }) => {
+      const metadata = doc.metadata || {};
+      const page = getPageNumber(metadata);
       const content = doc.pageContent || '';
-      const score = Math.max(0.1, 0.9 - index * 0.2);
+      const score = Math.round(relevance * 100) / 100;
       
-      // Create stable ID based on content hash and page
+      // Create stable ID based on document, page and content hash
       const contentHash = this.hashString(content.slice(0, 100));
-      const id = `pdf:${page}:${contentHash}`;
+      const id = `${metadata.documentId || 'pdf'}:${page}:${contentHash}`;
+
+      const documentLabel = metadata.documentShortTitle
+        ? `${metadata.documentTitle} (${metadata.documentShortTitle})`
+        : metadata.documentTitle || 'Swiss Legal Code';
+      const articleReference = formatArticleReference(metadata);
+      const title = articleReference
+        ? metadata.documentShortTitle ? articleReference : `${articleReference} ${documentLabel}`
+        : `${documentLabel} – Page ${page}`;
       
       return {
         id,
-        title: `Swiss Legal Code – Page ${page}`,
+        title,
         page,
-        url: `/docs/swiss_legal.pdf#page=${page}`,
+        // Firestore rejects undefined fields, so chunks without a document URL get no url key
+        ...(metadata.documentUrl && { url: `${metadata.documentUrl}#page=${page}` }),
         snippet: content.slice(0, 200) + (content.length > 200 ? '...' : ''),
         score
       };
     });
   }
 
-  // Helper method to attach citations to answer text
+  // Helper method to validate the model's inline [n] markers against the
+  // retrieved sources and anchor each one to the sentence it follows
   private attachCitations(answer: string, sources: EnhancedSource[]): { textWithCitations: string; citations: Citation[] } {
     const citations: Citation[] = [];
-    let textWithCitations = answer;
-    
-    // Add citation markers [1], [2], etc. at the end of sentences that reference sources
-    sources.forEach((source, index) => {
-      const marker = index + 1;
-      citations.push({
-        marker,
-        sourceId: source.id
+    const codeRanges = this.findCodeRanges(answer);
+    // [1], [1, 2] or [1;2] -- but not markdown links like [1](url)
+    const markerPattern = /(\s*)\[(\d+(?:\s*[,;]\s*\d+)*)\](?!\()/g;
+
+    let textWithCitations = "";
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = markerPattern.exec(answer)) !== null) {
+      const matchIndex = match.index;
+      if (codeRanges.some(([start, end]) => matchIndex >= start && matchIndex < end)) {
+        continue;
+      }
+
+      textWithCitations += answer.slice(lastIndex, matchIndex);
+      lastIndex = matchIndex + match[0].length;
+
+      const markers = Array.from(
+        new Set(match[2].split(/[,;]/).map((n) => parseInt(n.trim(), 10)))
+      ).filter((marker) => marker >= 1 && marker <= sources.length);
+
+      // Drop hallucinated markers (and the whitespace before them) entirely
+      if (markers.length === 0) continue;
+
+      const end = textWithCitations.length;
+      const start = this.findSentenceStart(textWithCitations, end);
+      markers.forEach((marker) => {
+        citations.push({
+          marker,
+          sourceId: sources[marker - 1].id,
+          offsets: { start, end },
+        });
       });
-      
-      // Add citation marker at the end of the text
-      textWithCitations += ` [${marker}]`;
-    });
-    
+
+      textWithCitations += match[1] + markers.map((marker) => `[${marker}]`).join("");
+    }
+
+    textWithCitations += answer.slice(lastIndex);
     return { textWithCitations, citations };
   }
 
+  // Character ranges covered by fenced or inline code, where [n] is not a citation
+  private findCodeRanges(text: string): Array<[number, number]> {
+    const ranges: Array<[number, number]> = [];
+    const codePattern = /```[\s\S]*?(?:```|$)|`[^`\n]*`/g;
+    let match: RegExpExecArray | null;
+    while ((match = codePattern.exec(text)) !== null) {
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+    return ranges;
+  }
+
+  // Walk back from `end` to the start of the sentence, ignoring the sentence's
+  // own closing punctuation and common legal abbreviations ("Art. 8", "Abs. 2")
+  private findSentenceStart(text: string, end: number): number {
+    for (let i = end - 2; i >= 0; i--) {
+      const char = text[i];
+      if (char === "\n") {
+        // Skip list bullets, headings and blockquote markers at the start of a line
+        const lineStart = this.skipWhitespace(text, i + 1, end);
+        const prefix = text.slice(lineStart, end).match(/^(?:[-*+]|\d+\.|#{1,6}|>)\s+/);
+        return lineStart + (prefix ? prefix[0].length : 0);
+      }
+
+      if (".!?".includes(char) && /\s/.test(text[i + 1] || "")) {
+        const word = text.slice(0, i).split(/\s/).pop()?.toLowerCase() || "";
+        if (char === "." && SENTENCE_ABBREVIATIONS.includes(word)) continue;
+        return this.skipWhitespace(text, i + 1, end);
+      }
+    }
+    return this.skipWhitespace(text, 0, end);
+  }
+
+  private skipWhitespace(text: string, index: number, end: number): number {
+    while (index < end && /\s/.test(text[index])) index++;
+    return index;
+  }
+
   // Helper method to create a simple hash of a string
   private hashString(str: string): string {
     let hash = 0;
@@ -542,10 +1203,14 @@ Focus on lawyers who specialize in the relevant area of Swiss law mentioned in t
     processingTime: number,
     citations: Citation[] = [],
     followUps: string[] = [],
-    lawyerRecommendations?: LawyerRecommendation[]
+    lawyerRecommendations?: LawyerRecommendation[],
+    // Optional diagnostics: confidence breakdown, token usage, retrieval query
+    extraMetrics: Partial<ResponseMetrics> = {},
+    language?: LanguageCode
   ): RAGResponse {
     return {
       answer,
+      language,
       sources,
       confidence,
       processingTime,
@@ -559,7 +1224,8 @@ Focus on lawyers who specialize in the relevant area of Swiss law mentioned in t
           prompt: 0,
           completion: 0,
           total: 0
-        }
+        },
+        ...extraMetrics
       }
     };
   }
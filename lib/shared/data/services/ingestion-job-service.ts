@@ -0,0 +1,172 @@
+import { randomUUID } from "crypto";
+import { BaseAdminService, type BaseDocument } from "./base_admin_service";
+import type { IngestionProgress, IngestionStage, IngestionStats } from "./base-rag-service";
+
+export type IngestionJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export type IngestionStageStatus = "pending" | "running" | "done";
+
+export interface IngestionStageProgress {
+  status: IngestionStageStatus;
+  completed: number;
+  total: number;
+}
+
+export interface IngestionJobRequest {
+  mode: "pdf" | "test";
+  documentIds: string[] | null;
+  chunkSize: number;
+  chunkOverlap: number;
+  force: boolean;
+}
+
+export interface IngestionJobError {
+  message: string;
+  // Stage that was running when the job failed
+  stage: IngestionStage | null;
+}
+
+// One background ingestion run, polled by the admin UI
+export interface IngestionJob extends BaseDocument {
+  status: IngestionJobStatus;
+  indexName: string;
+  vectorStore: string;
+  request: IngestionJobRequest;
+  stages: Record<IngestionStage, IngestionStageProgress>;
+  currentStage: IngestionStage | null;
+  stats: IngestionStats | null;
+  error: IngestionJobError | null;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+const INGESTION_STAGES: IngestionStage[] = ["load", "split", "embed", "upsert"];
+
+// The worker reports progress every few seconds; a running job silent this long has lost its worker
+const STALE_JOB_MS = 360 * 1000;
+
+export class IngestionJobService {
+  private jobService: BaseAdminService<IngestionJob>;
+
+  constructor() {
+    this.jobService = new BaseAdminService<IngestionJob>("ingestion_jobs");
+  }
+
+  async createJob(
+    indexName: string,
+    vectorStore: string,
+    request: IngestionJobRequest
+  ): Promise<IngestionJob | null> {
+    const stages = Object.fromEntries(
+      INGESTION_STAGES.map((stage) => [stage, { status: "pending", completed: 0, total: 0 }])
+    ) as Record<IngestionStage, IngestionStageProgress>;
+
+    const result = await this.jobService.create({
+      id: randomUUID(),
+      status: "queued",
+      indexName,
+      vectorStore,
+      request,
+      stages,
+      currentStage: null,
+      stats: null,
+      error: null,
+      startedAt: null,
+      finishedAt: null,
+    });
+    return result.success && result.data ? this.normalize(result.data) : null;
+  }
+
+  async getJob(jobId: string): Promise<IngestionJob | null> {
+    const result = await this.jobService.getById(jobId);
+    return result.success && result.data ? this.normalize(result.data) : null;
+  }
+
+  // The oldest queued job, marked running. The transaction keeps two workers from taking the same job
+  async claimNextJob(): Promise<IngestionJob | null> {
+    // An empty orderBy avoids the composite index status + createdAt would need; the few queued jobs are sorted here
+    const result = await this.jobService.getAll({
+      where: [{ field: "status", operator: "==", value: "queued" }],
+      orderBy: [],
+    });
+    if (!result.success) {
+      throw new Error(result.error || "Could not load queued ingestion jobs");
+    }
+
+    const queued = (result.data || [])
+      .map((job) => this.normalize(job))
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+    for (const job of queued) {
+      const jobRef = this.jobService.getDocRef(job.id!);
+      const startedAt = new Date();
+      const claimed = await jobRef.firestore.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(jobRef);
+        if (snapshot.get("status") !== "queued") return false;
+        transaction.update(jobRef, { status: "running", startedAt, updatedAt: startedAt });
+        return true;
+      });
+      if (claimed) return { ...job, status: "running", startedAt, updatedAt: startedAt };
+    }
+    return null;
+  }
+
+  // Earlier stages are marked done as soon as a later one reports
+  async updateProgress(jobId: string, progress: IngestionProgress): Promise<void> {
+    const update: Record<string, any> = {
+      currentStage: progress.stage,
+      [`stages.${progress.stage}`]: {
+        status: progress.completed >= progress.total ? "done" : "running",
+        completed: progress.completed,
+        total: progress.total,
+      },
+    };
+    for (const stage of INGESTION_STAGES.slice(0, INGESTION_STAGES.indexOf(progress.stage))) {
+      update[`stages.${stage}.status`] = "done";
+    }
+    await this.jobService.update(jobId, update);
+  }
+
+  async markSucceeded(jobId: string, stats: IngestionStats): Promise<void> {
+    await this.jobService.update(jobId, {
+      status: "succeeded",
+      stats,
+      finishedAt: new Date(),
+    });
+  }
+
+  async markFailed(jobId: string, error: IngestionJobError): Promise<void> {
+    await this.jobService.update(jobId, {
+      status: "failed",
+      error,
+      finishedAt: new Date(),
+    });
+  }
+
+  // Marks a running job failed once it has stopped reporting, so pollers don't wait forever.
+  // Queued jobs are left alone: they wait for a worker however long that takes
+  async failIfStale(job: IngestionJob): Promise<IngestionJob> {
+    if (job.status !== "running") return job;
+
+    const lastReport = job.updatedAt || job.startedAt;
+    if (!lastReport || Date.now() - lastReport.getTime() < STALE_JOB_MS) return job;
+
+    const error: IngestionJobError = {
+      message: "The job stopped responding, most likely because its worker was stopped",
+      stage: job.currentStage,
+    };
+    await this.markFailed(job.id!, error);
+    return { ...job, status: "failed", error, finishedAt: new Date() };
+  }
+
+  // Firestore hands dates back as Timestamps
+  private normalize(job: IngestionJob): IngestionJob {
+    const toDate = (value: any) => (value && typeof value.toDate === "function" ? value.toDate() : value);
+    return {
+      ...job,
+      createdAt: toDate(job.createdAt),
+      updatedAt: toDate(job.updatedAt),
+      startedAt: toDate(job.startedAt),
+      finishedAt: toDate(job.finishedAt),
+    };
+  }
+}
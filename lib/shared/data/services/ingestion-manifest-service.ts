@@ -0,0 +1,49 @@
+import { BaseAdminService, type BaseDocument } from "./base_admin_service";
+
+// What was last ingested for one document into one index
+export interface IngestionManifest extends BaseDocument {
+  indexName: string;
+  documentKey: string;
+  // chunk id -> content hash
+  chunks: Record<string, string>;
+}
+
+export class IngestionManifestService {
+  private manifestService: BaseAdminService<IngestionManifest>;
+
+  constructor() {
+    this.manifestService = new BaseAdminService<IngestionManifest>("ingestion_manifests");
+  }
+
+  /**
+   * Empty for a document never ingested. Throws when the manifest can't be read:
+   * treating it as empty would re-embed every chunk and then overwrite the
+   * manifest, orphaning the vectors of chunks that have since disappeared.
+   */
+  async getManifest(indexName: string, documentKey: string): Promise<Record<string, string>> {
+    const result = await this.manifestService.getById(this.manifestId(indexName, documentKey));
+    if (result.success) return result.data?.chunks || {};
+    if (result.error === "Document not found") return {};
+
+    throw new Error(`Could not read ingestion manifest for ${documentKey}: ${result.error}`);
+  }
+
+  async saveManifest(
+    indexName: string,
+    documentKey: string,
+    chunks: Record<string, string>
+  ): Promise<boolean> {
+    const result = await this.manifestService.create({
+      id: this.manifestId(indexName, documentKey),
+      indexName,
+      documentKey,
+      chunks,
+    });
+    return result.success;
+  }
+
+  // One Firestore document per (index, document) keeps each manifest well under the size limit
+  private manifestId(indexName: string, documentKey: string): string {
+    return `${indexName}__${documentKey}`.replace(/\//g, "_");
+  }
+}
@@ -1,4 +1,5 @@
-import { BaseRAGService, BaseRAGConfig } from "./base-rag-service";
+import { BaseRAGService, BaseRAGConfig, ProcessDocumentResult } from "./base-rag-service";
+import { getPageNumber } from "@/lib/shared/utils/document-metadata";
 
 export interface RAGResponse {
   answer: string;
@@ -28,11 +29,7 @@ export class LangChainRAGService extends BaseRAGService {
   }
 
   // Override processDocument to use PDF path
-  async processDocument(): Promise<{
-    success: boolean;
-    message: string;
-    stats: { totalChunks: number; totalPages: number; processingTime: number };
-  }> {
+  async processDocument(): Promise<ProcessDocumentResult> {
     return super.processDocument();
   }
 
@@ -45,7 +42,7 @@ export class LangChainRAGService extends BaseRAGService {
     return docs
       .map(
         (d, i) =>
-          `Article ${d.metadata?.loc?.pageNumber || "Unknown"}:\n${
+          `Article ${getPageNumber(d.metadata) || "Unknown"}:\n${
             d.pageContent
           }`
       )
@@ -0,0 +1,111 @@
+import type { CostEstimate, ResponseMetrics, TokenUsage } from "@/lib/shared/types/llm-response";
+import { BaseAdminService, type BaseDocument } from "./base_admin_service";
+
+// Token usage of one answered question, kept for per-user accounting
+export interface UsageRecord extends BaseDocument {
+  uid: string;
+  conversationId: string;
+  messageId: string | null;
+  // UTC day the question was answered (YYYY-MM-DD)
+  day: string;
+  tokenUsage: TokenUsage;
+  usageByStage: ResponseMetrics["usageByStage"] | null;
+  cost: CostEstimate | null;
+}
+
+export interface DailyUsageSummary {
+  uid: string;
+  day: string;
+  requests: number;
+  prompt: number;
+  completion: number;
+  total: number;
+  cost: CostEstimate;
+}
+
+export interface UsageSummaryQuery {
+  // Inclusive YYYY-MM-DD bounds
+  from: string;
+  to: string;
+  uid?: string;
+}
+
+export class UsageService {
+  private usageService: BaseAdminService<UsageRecord>;
+
+  constructor() {
+    this.usageService = new BaseAdminService<UsageRecord>("token_usage");
+  }
+
+  async record(
+    uid: string,
+    conversationId: string,
+    messageId: string | null,
+    metrics: ResponseMetrics
+  ): Promise<void> {
+    const result = await this.usageService.create({
+      uid,
+      conversationId,
+      messageId,
+      day: new Date().toISOString().slice(0, 10),
+      tokenUsage: metrics.tokenUsage || {},
+      usageByStage: metrics.usageByStage || null,
+      cost: metrics.cost || null,
+    });
+    if (!result.success) {
+      console.error(`Could not record token usage for conversation ${conversationId}:`, result.error);
+    }
+  }
+
+  // One row per user and day, sorted by day then user
+  async summarize({ from, to, uid }: UsageSummaryQuery): Promise<DailyUsageSummary[]> {
+    // Filtered and ordered on `day` alone, which its single-field index serves; getAll's default
+    // createdAt order would need a composite index
+    const result = await this.usageService.getAll({
+      where: [
+        { field: "day", operator: ">=", value: from },
+        { field: "day", operator: "<=", value: to },
+      ],
+      orderBy: [{ field: "day", direction: "asc" }],
+    });
+    if (!result.success) {
+      throw new Error(result.error || "Could not load token usage");
+    }
+
+    const summaries = new Map<string, DailyUsageSummary>();
+    for (const record of result.data || []) {
+      if (uid && record.uid !== uid) continue;
+
+      const key = `${record.day}:${record.uid}`;
+      const summary = summaries.get(key) || {
+        uid: record.uid,
+        day: record.day,
+        requests: 0,
+        prompt: 0,
+        completion: 0,
+        total: 0,
+        cost: { usd: 0, chf: 0 },
+      };
+      summary.requests += 1;
+      summary.prompt += record.tokenUsage?.prompt || 0;
+      summary.completion += record.tokenUsage?.completion || 0;
+      summary.total += record.tokenUsage?.total || 0;
+      summary.cost = {
+        usd: summary.cost.usd + (record.cost?.usd || 0),
+        chf: summary.cost.chf + (record.cost?.chf || 0),
+      };
+      summaries.set(key, summary);
+    }
+
+    return Array.from(summaries.values())
+      .map((summary) => ({
+        ...summary,
+        cost: { usd: roundCost(summary.cost.usd), chf: roundCost(summary.cost.chf) },
+      }))
+      .sort((a, b) => a.day.localeCompare(b.day) || a.uid.localeCompare(b.uid));
+  }
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
@@ -0,0 +1,38 @@
+import type { Locale } from "@/lib/shared/i18n";
+import { BaseAdminService, type BaseDocument } from "./base_admin_service";
+
+// users/{uid}: preferences the user can change themselves
+export interface UserProfile extends BaseDocument {
+  username?: string;
+  full_name?: string;
+  avatar_url?: string;
+  locale?: Locale;
+}
+
+export type UserProfileUpdate = Pick<UserProfile, "username" | "full_name" | "avatar_url" | "locale">;
+
+export class UserProfileService {
+  private profileService: BaseAdminService<UserProfile>;
+
+  constructor() {
+    this.profileService = new BaseAdminService<UserProfile>("users");
+  }
+
+  async getProfile(uid: string): Promise<UserProfile | null> {
+    const result = await this.profileService.getById(uid);
+    return result.success ? result.data || null : null;
+  }
+
+  // Creates the profile on the first update
+  async updateProfile(uid: string, update: UserProfileUpdate): Promise<UserProfile | null> {
+    const existing = await this.getProfile(uid);
+    const result = existing
+      ? await this.profileService.update(uid, update)
+      : await this.profileService.create({ id: uid, ...update });
+    if (!result.success) {
+      console.error(`Could not update profile of user ${uid}:`, result.error);
+      return null;
+    }
+    return result.data || null;
+  }
+}
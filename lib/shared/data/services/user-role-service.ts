@@ -0,0 +1,31 @@
+import { BaseAdminService, type BaseDocument } from "./base_admin_service";
+
+export type UserRole = "admin";
+
+// roles/{uid}: roles granted to a user without touching their custom claims
+export interface UserRoles extends BaseDocument {
+  roles: UserRole[];
+}
+
+export class UserRoleService {
+  private roleService: BaseAdminService<UserRoles>;
+
+  constructor() {
+    this.roleService = new BaseAdminService<UserRoles>("roles");
+  }
+
+  async getRoles(uid: string): Promise<UserRole[]> {
+    const result = await this.roleService.getById(uid);
+    return result.success ? result.data?.roles || [] : [];
+  }
+
+  async hasRole(uid: string, role: UserRole): Promise<boolean> {
+    const roles = await this.getRoles(uid);
+    return roles.includes(role);
+  }
+
+  async setRoles(uid: string, roles: UserRole[]): Promise<boolean> {
+    const result = await this.roleService.create({ id: uid, roles });
+    return result.success;
+  }
+}
@@ -0,0 +1,242 @@
+import { Document } from "@langchain/core/documents";
+import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import { getPageNumber } from "@/lib/shared/utils/document-metadata";
+
+export interface LegalStructureSplitterOptions {
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+interface SourceLine {
+  text: string;
+  page: number;
+}
+
+interface Paragraph {
+  number?: string;
+  lines: SourceLine[];
+}
+
+interface Segment {
+  article?: string;
+  headingPath: string[];
+  lines: SourceLine[];
+}
+
+// "Art. 336c", "Art. 271a", "Art. 6bis" at the start of a line (same in DE, FR and IT)
+const ARTICLE_PATTERN =
+  /^Art\.\s*(\d+)([a-z]?(?:bis|ter|quater|quinquies|sexies|septies|octies|novies|decies)?)(?=[\s.]|$)/;
+
+// Numbered paragraph (Absatz / alinéa / capoverso) at the start of a line
+const PARAGRAPH_PATTERN = /^(\d{1,2})\s+\S/;
+
+// Ordinal or number after a French or Italian heading keyword: "premier", "huitième", "secondo",
+// "undicesimo", "II", "3". Wrapped body lines starting with "partie" or "parte" have none
+const ROMANCE_ORDINAL =
+  "(?:premier|première|second|seconde|[a-zé]+ième|primo|prima|secondo|seconda|terzo|terza|quarto|quarta|" +
+  "quinto|quinta|sesto|sesta|settimo|settima|ottavo|ottava|nono|nona|decimo|decima|[a-z]+esim[oa]|[IVXLC]+|\\d+)";
+
+// Structural headings, by nesting level
+const HEADING_PATTERNS: Array<{ level: number; pattern: RegExp; resetsNumbering?: boolean }> = [
+  { level: 0, pattern: /^(?:Schlusstitel|Titre final|Titolo finale)\b/, resetsNumbering: true },
+  { level: 0, pattern: /^(?:[A-ZÄÖÜ][a-zäöü]+(?:er|es|e)|\d+\.)\s+(?:Buch|Teil|Abteilung)\b/ },
+  { level: 0, pattern: new RegExp(`^(?:Livre|Partie|Libro|Parte)\\s+${ROMANCE_ORDINAL}(?![\\wÀ-ÿ])`) },
+  { level: 1, pattern: /^(?:[A-ZÄÖÜ][a-zäöü]+(?:er|es|e)|\d+\.)\s+Titel\b/ },
+  { level: 1, pattern: new RegExp(`^(?:Titre|Titolo)\\s+${ROMANCE_ORDINAL}(?![\\wÀ-ÿ])`) },
+  { level: 2, pattern: /^(?:[A-ZÄÖÜ][a-zäöü]+(?:er|es|e)|\d+\.)\s+(?:Abschnitt|Kapitel)\b/ },
+  { level: 2, pattern: new RegExp(`^(?:Chapitre|Capo|Capitolo)\\s+${ROMANCE_ORDINAL}(?![\\wÀ-ÿ])`) },
+  { level: 3, pattern: /^(?:Section|Sezione|[A-ZÄÖÜ][a-zäöü]+(?:er|es|e)\s+Unterabschnitt)\b/ },
+];
+
+const MAX_HEADING_LENGTH = 150;
+
+/**
+ * Splits Swiss statutes along their legal structure: each article becomes one
+ * chunk where it fits, oversized articles are split between numbered
+ * paragraphs, and every chunk records its article, paragraph range and
+ * heading path (Book > Title > Chapter). Documents without recognisable
+ * articles fall back to plain recursive character splitting.
+ */
+export class LegalStructureTextSplitter {
+  private chunkSize: number;
+  private fallbackSplitter: RecursiveCharacterTextSplitter;
+
+  constructor(options: LegalStructureSplitterOptions) {
+    this.chunkSize = options.chunkSize;
+    this.fallbackSplitter = new RecursiveCharacterTextSplitter({
+      chunkSize: options.chunkSize,
+      chunkOverlap: options.chunkOverlap,
+    });
+  }
+
+  async splitDocuments(documents: Document[]): Promise<Document[]> {
+    const chunks: Document[] = [];
+
+    for (const pages of this.groupByDocument(documents)) {
+      const segments = this.segment(pages);
+      const hasArticles = segments.some((segment) => segment.article);
+
+      if (!hasArticles) {
+        chunks.push(...(await this.fallbackSplitter.splitDocuments(pages)));
+        continue;
+      }
+
+      const { loc: _loc, ...baseMetadata } = pages[0].metadata || {};
+      for (const segment of segments) {
+        chunks.push(...(await this.splitSegment(segment, baseMetadata)));
+      }
+    }
+
+    return chunks;
+  }
+
+  // Articles run across pages, so pages of the same document are processed together
+  private groupByDocument(documents: Document[]): Document[][] {
+    const groups = new Map<string, Document[]>();
+    documents.forEach((doc, index) => {
+      const key = String(doc.metadata?.documentId ?? doc.metadata?.source ?? `doc-${index}`);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(doc);
+    });
+    return Array.from(groups.values());
+  }
+
+  private segment(pages: Document[]): Segment[] {
+    const segments: Segment[] = [];
+    const headingPath: string[] = [];
+    let current: Segment = { headingPath: [], lines: [] };
+    let lastArticleNumber = 0;
+
+    for (const page of pages) {
+      const pageNumber = getPageNumber(page.metadata);
+
+      for (const rawLine of page.pageContent.split("\n")) {
+        const text = rawLine.trim();
+        if (!text) continue;
+
+        const heading = this.matchHeading(text);
+        if (heading) {
+          headingPath.splice(heading.level);
+          headingPath[heading.level] = text;
+          if (heading.resetsNumbering) lastArticleNumber = 0;
+          continue;
+        }
+
+        const article = text.match(ARTICLE_PATTERN);
+        // Statutes number articles in ascending order; a lower number is an
+        // inline cross-reference that happens to start a wrapped line
+        if (article && parseInt(article[1], 10) >= lastArticleNumber) {
+          const articleId = `${article[1]}${article[2]}`;
+          if (articleId !== current.article) {
+            if (current.lines.length > 0) segments.push(current);
+            current = { article: articleId, headingPath: headingPath.filter(Boolean), lines: [] };
+            lastArticleNumber = parseInt(article[1], 10);
+          }
+        }
+
+        current.lines.push({ text, page: pageNumber });
+      }
+    }
+
+    if (current.lines.length > 0) segments.push(current);
+    return segments;
+  }
+
+  private matchHeading(text: string): { level: number; resetsNumbering?: boolean } | null {
+    // Headings are no sentences; a line ending like one is body text and must be kept
+    if (text.length > MAX_HEADING_LENGTH || /[.;,]$/.test(text)) return null;
+    const match = HEADING_PATTERNS.find(({ pattern }) => pattern.test(text));
+    return match ? { level: match.level, resetsNumbering: match.resetsNumbering } : null;
+  }
+
+  private async splitSegment(segment: Segment, baseMetadata: Record<string, any>): Promise<Document[]> {
+    const metadataFor = (lines: SourceLine[], paragraph?: string) =>
+      this.compact({
+        ...baseMetadata,
+        loc: { pageNumber: lines[0]?.page || 0 },
+        article: segment.article,
+        paragraph,
+        headingPath: segment.headingPath.length > 0 ? segment.headingPath.join(" > ") : undefined,
+      });
+
+    const text = this.joinLines(segment.lines);
+    if (text.length <= this.chunkSize) {
+      return [new Document({ pageContent: text, metadata: metadataFor(segment.lines) })];
+    }
+
+    // Preamble or other text outside an article: plain splitting
+    if (!segment.article) {
+      const pieces = await this.fallbackSplitter.splitText(text);
+      return pieces.map((piece) => new Document({ pageContent: piece, metadata: metadataFor(segment.lines) }));
+    }
+
+    const header = segment.lines[0].text;
+    const chunks: Document[] = [];
+    let group: Paragraph[] = [];
+
+    const flush = async () => {
+      if (group.length === 0) return;
+      const lines = group.flatMap((p) => p.lines);
+      const numbers = group.map((p) => p.number).filter(Boolean) as string[];
+      const paragraph =
+        numbers.length === 0
+          ? undefined
+          : numbers.length === 1
+            ? numbers[0]
+            : `${numbers[0]}-${numbers[numbers.length - 1]}`;
+
+      // Repeat the article heading on continuation chunks so they stay attributable
+      const body = this.joinLines(lines);
+      const content = chunks.length === 0 || body.startsWith(header) ? body : `${header}\n${body}`;
+
+      if (content.length <= this.chunkSize) {
+        chunks.push(new Document({ pageContent: content, metadata: metadataFor(lines, paragraph) }));
+      } else {
+        // A single paragraph that is still too long
+        const pieces = await this.fallbackSplitter.splitText(body);
+        pieces.forEach((piece, i) => {
+          const pieceContent = chunks.length === 0 && i === 0 ? piece : `${header}\n${piece}`;
+          chunks.push(new Document({ pageContent: pieceContent, metadata: metadataFor(lines, paragraph) }));
+        });
+      }
+      group = [];
+    };
+
+    for (const paragraph of this.splitParagraphs(segment.lines)) {
+      const candidate = this.joinLines([...group.flatMap((p) => p.lines), ...paragraph.lines]);
+      if (group.length > 0 && candidate.length + header.length + 1 > this.chunkSize) {
+        await flush();
+      }
+      group.push(paragraph);
+    }
+    await flush();
+
+    return chunks;
+  }
+
+  // Group an article's lines into its numbered paragraphs (1, 2, 3, ... in order)
+  private splitParagraphs(lines: SourceLine[]): Paragraph[] {
+    const paragraphs: Paragraph[] = [{ lines: [] }];
+    let expected = 1;
+
+    lines.forEach((line, index) => {
+      const match = index > 0 ? line.text.match(PARAGRAPH_PATTERN) : null;
+      if (match && parseInt(match[1], 10) === expected) {
+        paragraphs.push({ number: match[1], lines: [line] });
+        expected++;
+      } else {
+        paragraphs[paragraphs.length - 1].lines.push(line);
+      }
+    });
+
+    return paragraphs.filter((p) => p.lines.length > 0);
+  }
+
+  private joinLines(lines: SourceLine[]): string {
+    return lines.map((line) => line.text).join("\n");
+  }
+
+  private compact(metadata: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined));
+  }
+}
@@ -0,0 +1,10 @@
+export { UsageTracker } from "./usage-tracker";
+export type { UsageReport, UsageTrackerOptions } from "./usage-tracker";
+export {
+  DEFAULT_MODEL_PRICES,
+  estimateCostUsd,
+  getModelPrice,
+  getPriceTable,
+  getUsdToChfRate,
+} from "./pricing";
+export type { ModelPrice, PriceTable } from "./pricing";
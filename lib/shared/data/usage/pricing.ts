@@ -0,0 +1,63 @@
+// USD per million tokens; embedding models only have an input price
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// List prices at the time of writing. Override or extend with LLM_PRICES, e.g.
+// LLM_PRICES='{"gpt-4o-mini":{"input":0.15,"output":0.6}}'
+export const DEFAULT_MODEL_PRICES: PriceTable = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "text-embedding-ada-002": { input: 0.1, output: 0 },
+};
+
+const DEFAULT_USD_TO_CHF = 0.8;
+
+let cachedPrices: PriceTable | null = null;
+
+export function getPriceTable(): PriceTable {
+  if (cachedPrices) return cachedPrices;
+
+  let overrides: PriceTable = {};
+  if (process.env.LLM_PRICES) {
+    try {
+      overrides = JSON.parse(process.env.LLM_PRICES);
+    } catch (error) {
+      console.warn("Ignoring LLM_PRICES, it is not valid JSON:", error);
+    }
+  }
+  cachedPrices = { ...DEFAULT_MODEL_PRICES, ...overrides };
+  return cachedPrices;
+}
+
+export function getUsdToChfRate(): number {
+  const rate = parseFloat(process.env.USD_TO_CHF || "");
+  return Number.isFinite(rate) && rate > 0 ? rate : DEFAULT_USD_TO_CHF;
+}
+
+/**
+ * Price of a model, matching dated snapshots ("gpt-4o-mini-2024-07-18") by
+ * their longest listed prefix. Models without a price (local Ollama models,
+ * the fake provider) are free.
+ */
+export function getModelPrice(model: string, prices: PriceTable = getPriceTable()): ModelPrice {
+  if (prices[model]) return prices[model];
+
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : { input: 0, output: 0 };
+}
+
+export function estimateCostUsd(model: string, prompt: number, completion: number, prices?: PriceTable): number {
+  const price = getModelPrice(model, prices);
+  return (prompt * price.input + completion * price.output) / 1_000_000;
+}
@@ -0,0 +1,162 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import { Embeddings, type EmbeddingsInterface } from "@langchain/core/embeddings";
+import type { AIMessage, BaseMessage } from "@langchain/core/messages";
+import type { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import type { Serialized } from "@langchain/core/load/serializable";
+import type { ResponseMetrics, StageUsage, UsageStage } from "@/lib/shared/types/llm-response";
+import { estimateCostUsd, getUsdToChfRate, type PriceTable } from "./pricing";
+
+export type UsageReport = Pick<ResponseMetrics, "tokenUsage" | "usageByStage" | "cost">;
+
+export interface UsageTrackerOptions {
+  chatModel: string;
+  embedModel: string;
+  // Defaults to getPriceTable()
+  prices?: PriceTable;
+}
+
+interface CallUsage {
+  prompt: number;
+  completion: number;
+  estimated: boolean;
+}
+
+// Rough rule of thumb for English and German text when a provider reports no usage
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function messageText(message: BaseMessage): string {
+  return typeof message.content === "string" ? message.content : JSON.stringify(message.content);
+}
+
+/**
+ * Sums the tokens and estimated cost of every model call made for one query,
+ * per stage. Chat models report through LangChain callbacks; embeddings are
+ * wrapped, since LangChain doesn't surface their usage.
+ */
+export class UsageTracker {
+  private options: UsageTrackerOptions;
+  private stages = new Map<UsageStage, StageUsage>();
+
+  constructor(options: UsageTrackerOptions) {
+    this.options = options;
+  }
+
+  // Callbacks for a chat model whose calls count towards the stage
+  callbacks(stage: UsageStage): BaseCallbackHandler[] {
+    return [new StageUsageHandler((usage) => this.record(stage, this.options.chatModel, usage))];
+  }
+
+  // Embeddings whose calls count towards the stage
+  embeddings(embeddings: EmbeddingsInterface, stage: UsageStage): EmbeddingsInterface {
+    return new TrackedEmbeddings(embeddings, (tokens) =>
+      this.record(stage, this.options.embedModel, { prompt: tokens, completion: 0, estimated: true })
+    );
+  }
+
+  report(): UsageReport {
+    const usageByStage = Object.fromEntries(this.stages) as UsageReport["usageByStage"];
+    const all = Array.from(this.stages.values());
+    const sum = (field: "prompt" | "completion" | "total" | "costUsd") =>
+      all.reduce((total, stage) => total + stage[field], 0);
+    const usd = sum("costUsd");
+
+    return {
+      tokenUsage: { prompt: sum("prompt"), completion: sum("completion"), total: sum("total") },
+      usageByStage,
+      cost: { usd: roundCost(usd), chf: roundCost(usd * getUsdToChfRate()) },
+    };
+  }
+
+  private record(stage: UsageStage, model: string, usage: CallUsage): void {
+    const current = this.stages.get(stage) || { prompt: 0, completion: 0, total: 0, calls: 0, costUsd: 0 };
+    const costUsd = current.costUsd + estimateCostUsd(model, usage.prompt, usage.completion, this.options.prices);
+
+    this.stages.set(stage, {
+      prompt: current.prompt + usage.prompt,
+      completion: current.completion + usage.completion,
+      total: current.total + usage.prompt + usage.completion,
+      calls: current.calls + 1,
+      ...(current.estimated || usage.estimated ? { estimated: true } : {}),
+      costUsd: roundCost(costUsd),
+    });
+  }
+}
+
+// Cost figures are fractions of a cent; keep enough digits to sum them later
+function roundCost(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+class StageUsageHandler extends BaseCallbackHandler {
+  name = "stage_usage";
+  private onUsage: (usage: CallUsage) => void;
+  // Prompt size per run, for providers that report no usage
+  private promptEstimates = new Map<string, number>();
+
+  constructor(onUsage: (usage: CallUsage) => void) {
+    // Usage must be recorded before the query builds its response
+    super({ _awaitHandler: true });
+    this.onUsage = onUsage;
+  }
+
+  async handleChatModelStart(_llm: Serialized, messages: BaseMessage[][], runId: string): Promise<void> {
+    this.promptEstimates.set(runId, estimateTokens(messages.flat().map(messageText).join("\n")));
+  }
+
+  async handleLLMEnd(output: LLMResult, runId: string): Promise<void> {
+    const promptEstimate = this.promptEstimates.get(runId) || 0;
+    this.promptEstimates.delete(runId);
+
+    const generation = output.generations?.[0]?.[0] as ChatGeneration | undefined;
+    const metadata = (generation?.message as AIMessage | undefined)?.usage_metadata;
+    if (metadata) {
+      this.onUsage({ prompt: metadata.input_tokens, completion: metadata.output_tokens, estimated: false });
+      return;
+    }
+
+    const tokenUsage = output.llmOutput?.tokenUsage;
+    if (tokenUsage?.promptTokens !== undefined) {
+      this.onUsage({
+        prompt: tokenUsage.promptTokens,
+        completion: tokenUsage.completionTokens || 0,
+        estimated: false,
+      });
+      return;
+    }
+
+    this.onUsage({
+      prompt: promptEstimate,
+      completion: estimateTokens(generation?.text || ""),
+      estimated: true,
+    });
+  }
+
+  async handleLLMError(_error: Error, runId: string): Promise<void> {
+    this.promptEstimates.delete(runId);
+  }
+}
+
+class TrackedEmbeddings extends Embeddings {
+  private inner: EmbeddingsInterface;
+  private onTokens: (tokens: number) => void;
+
+  constructor(inner: EmbeddingsInterface, onTokens: (tokens: number) => void) {
+    super({});
+    this.inner = inner;
+    this.onTokens = onTokens;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    const vectors = await this.inner.embedDocuments(documents);
+    this.onTokens(documents.reduce((sum, document) => sum + estimateTokens(document), 0));
+    return vectors;
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    const vector = await this.inner.embedQuery(document);
+    this.onTokens(estimateTokens(document));
+    return vector;
+  }
+}
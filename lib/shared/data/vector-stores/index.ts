@@ -0,0 +1,58 @@
+import { join } from "path";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { PineconeVectorStoreProvider } from "./pinecone-vector-store";
+import { LocalVectorStoreProvider } from "./local-vector-store";
+import type { VectorStoreBackend, VectorStoreProvider } from "./vector-store-provider";
+
+export interface VectorStoreOptions {
+  backend: VectorStoreBackend;
+  indexName: string;
+  pineconeApiKey?: string;
+  localStorePath?: string;
+  // Distinguishes indexes built with different embedding models
+  embeddingKey?: string;
+}
+
+// Module-level cache so the index survives across service instances (one per request)
+const providers = new Map<string, VectorStoreProvider>();
+
+export function getVectorStoreProvider(
+  options: VectorStoreOptions,
+  embeddings: EmbeddingsInterface
+): VectorStoreProvider {
+  const key = [options.backend, options.indexName, options.embeddingKey].filter(Boolean).join(":");
+  const cached = providers.get(key);
+  if (cached) return cached;
+
+  let provider: VectorStoreProvider;
+  switch (options.backend) {
+    case "local":
+      provider = new LocalVectorStoreProvider(
+        {
+          filePath:
+            options.localStorePath ??
+            join(process.cwd(), ".vector-store", `${options.indexName}.json`),
+        },
+        embeddings
+      );
+      break;
+    case "pinecone":
+      if (!options.pineconeApiKey) {
+        throw new Error("Pinecone API key is required for the pinecone vector store");
+      }
+      provider = new PineconeVectorStoreProvider(
+        { apiKey: options.pineconeApiKey, indexName: options.indexName },
+        embeddings
+      );
+      break;
+    default:
+      throw new Error(`Unknown vector store backend: ${options.backend}`);
+  }
+
+  providers.set(key, provider);
+  return provider;
+}
+
+export type { VectorStoreBackend, VectorStoreProvider, ScoredDocument } from "./vector-store-provider";
+export { PineconeVectorStoreProvider } from "./pinecone-vector-store";
+export { LocalVectorStoreProvider } from "./local-vector-store";
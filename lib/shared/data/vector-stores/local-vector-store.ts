@@ -0,0 +1,161 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import { randomUUID } from "crypto";
+import { Document } from "@langchain/core/documents";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import type { ScoredDocument, VectorStoreProvider } from "./vector-store-provider";
+
+export interface LocalVectorStoreConfig {
+  // JSON file the index is persisted to; omit for a purely in-memory index
+  filePath?: string;
+}
+
+interface LocalVectorRecord {
+  id: string;
+  embedding: number[];
+  pageContent: string;
+  metadata: Record<string, any>;
+}
+
+interface LocalIndexFile {
+  dimension: number | null;
+  records: LocalVectorRecord[];
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * File-backed cosine index for development, tests and the ingest script
+ * when no Pinecone account is available. Brute-force search, so it is only
+ * meant for corpora of a few thousand chunks.
+ */
+export class LocalVectorStoreProvider implements VectorStoreProvider {
+  readonly backend = "local" as const;
+  private filePath?: string;
+  private embeddings: EmbeddingsInterface;
+  private dimension: number | null = null;
+  private records: Map<string, LocalVectorRecord> | null = null;
+  private loadedMtime = 0;
+
+  constructor(config: LocalVectorStoreConfig, embeddings: EmbeddingsInterface) {
+    this.filePath = config.filePath;
+    this.embeddings = embeddings;
+  }
+
+  async ensureIndex(dimension: number): Promise<void> {
+    const records = await this.load();
+    if (this.dimension !== null && this.dimension !== dimension && records.size > 0) {
+      throw new Error(
+        `Local index has dimension ${this.dimension} but embeddings have dimension ${dimension}`
+      );
+    }
+    this.dimension = dimension;
+    await this.persist();
+  }
+
+  async addDocuments(documents: Document[], ids?: string[]): Promise<void> {
+    const embeddings = await this.embeddings.embedDocuments(
+      documents.map((doc) => doc.pageContent)
+    );
+    await this.addVectors(embeddings, documents, ids);
+  }
+
+  async addVectors(vectors: number[][], documents: Document[], ids?: string[]): Promise<void> {
+    const records = await this.load();
+
+    documents.forEach((doc, i) => {
+      const id = ids?.[i] || randomUUID();
+      records.set(id, {
+        id,
+        embedding: vectors[i],
+        pageContent: doc.pageContent,
+        metadata: doc.metadata || {},
+      });
+    });
+
+    await this.persist();
+  }
+
+  async deleteDocuments(ids: string[]): Promise<void> {
+    const records = await this.load();
+    ids.forEach((id) => records.delete(id));
+    await this.persist();
+  }
+
+  async similaritySearch(query: string, k: number): Promise<ScoredDocument[]> {
+    const records = await this.load();
+    if (records.size === 0) return [];
+
+    return this.similaritySearchByVector(await this.embeddings.embedQuery(query), k);
+  }
+
+  async similaritySearchByVector(vector: number[], k: number): Promise<ScoredDocument[]> {
+    const records = await this.load();
+
+    return Array.from(records.values())
+      .map((record): ScoredDocument => [
+        new Document({ pageContent: record.pageContent, metadata: record.metadata, id: record.id }),
+        cosineSimilarity(vector, record.embedding),
+      ])
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, k);
+  }
+
+  async isReady(): Promise<boolean> {
+    try {
+      const records = await this.load();
+      return records.size > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  // Reloads when another process (e.g. `npm run ingest`) rewrote the file
+  private async load(): Promise<Map<string, LocalVectorRecord>> {
+    if (!this.filePath) {
+      this.records ??= new Map();
+      return this.records;
+    }
+
+    let mtime = 0;
+    try {
+      mtime = (await fs.stat(this.filePath)).mtimeMs;
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") throw error;
+    }
+
+    if (this.records && mtime <= this.loadedMtime) return this.records;
+
+    this.records = new Map();
+    this.loadedMtime = mtime;
+    if (mtime > 0) {
+      const parsed: LocalIndexFile = JSON.parse(await fs.readFile(this.filePath, "utf8"));
+      this.dimension = parsed.dimension ?? null;
+      parsed.records.forEach((record) => this.records!.set(record.id, record));
+    }
+    return this.records;
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.filePath || !this.records) return;
+
+    const data: LocalIndexFile = {
+      dimension: this.dimension,
+      records: Array.from(this.records.values()),
+    };
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(data));
+    this.loadedMtime = (await fs.stat(this.filePath)).mtimeMs;
+  }
+}
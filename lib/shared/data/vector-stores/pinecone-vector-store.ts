@@ -0,0 +1,83 @@
+import { Pinecone } from "@pinecone-database/pinecone";
+import { PineconeStore } from "@langchain/pinecone";
+import type { Document } from "@langchain/core/documents";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import type { ScoredDocument, VectorStoreProvider } from "./vector-store-provider";
+
+export interface PineconeVectorStoreConfig {
+  apiKey: string;
+  indexName: string;
+}
+
+export class PineconeVectorStoreProvider implements VectorStoreProvider {
+  readonly backend = "pinecone" as const;
+  private client: Pinecone;
+  private indexName: string;
+  private embeddings: EmbeddingsInterface;
+  private store: PineconeStore | null = null;
+
+  constructor(config: PineconeVectorStoreConfig, embeddings: EmbeddingsInterface) {
+    this.client = new Pinecone({ apiKey: config.apiKey });
+    this.indexName = config.indexName;
+    this.embeddings = embeddings;
+  }
+
+  async ensureIndex(dimension: number): Promise<void> {
+    const indexes = await this.client.listIndexes();
+    const exists = indexes.indexes?.some((i) => i.name === this.indexName);
+    if (!exists) {
+      await this.client.createIndex({
+        name: this.indexName,
+        dimension,
+        metric: "cosine",
+        spec: { serverless: { cloud: "aws", region: "us-east-1" } },
+        waitUntilReady: true,
+      });
+      console.log(`Created Pinecone index: ${this.indexName}`);
+    }
+  }
+
+  async addDocuments(documents: Document[], ids?: string[]): Promise<void> {
+    const store = await this.getStore();
+    await store.addDocuments(documents, ids ? { ids } : undefined);
+  }
+
+  async addVectors(vectors: number[][], documents: Document[], ids?: string[]): Promise<void> {
+    const store = await this.getStore();
+    await store.addVectors(vectors, documents, ids ? { ids } : undefined);
+  }
+
+  async deleteDocuments(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const store = await this.getStore();
+    await store.delete({ ids });
+  }
+
+  async similaritySearch(query: string, k: number): Promise<ScoredDocument[]> {
+    const store = await this.getStore();
+    return store.similaritySearchWithScore(query, k);
+  }
+
+  async similaritySearchByVector(vector: number[], k: number): Promise<ScoredDocument[]> {
+    const store = await this.getStore();
+    return store.similaritySearchVectorWithScore(vector, k);
+  }
+
+  async isReady(): Promise<boolean> {
+    try {
+      const stats = await this.client.index(this.indexName).describeIndexStats();
+      return (stats.totalRecordCount || 0) > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  private async getStore(): Promise<PineconeStore> {
+    if (!this.store) {
+      this.store = await PineconeStore.fromExistingIndex(this.embeddings, {
+        pineconeIndex: this.client.index(this.indexName) as any,
+      });
+    }
+    return this.store;
+  }
+}
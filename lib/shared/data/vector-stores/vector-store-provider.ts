@@ -0,0 +1,29 @@
+import type { Document } from "@langchain/core/documents";
+
+export type VectorStoreBackend = "pinecone" | "local";
+
+// A similarity search hit: the stored chunk and its cosine similarity to the query
+export type ScoredDocument = [Document, number];
+
+export interface VectorStoreProvider {
+  readonly backend: VectorStoreBackend;
+
+  // Create the underlying index if it doesn't exist yet
+  ensureIndex(dimension: number): Promise<void>;
+
+  // Embed and upsert documents; ids overwrite existing records with the same id
+  addDocuments(documents: Document[], ids?: string[]): Promise<void>;
+
+  // Upsert documents whose embeddings were computed by the caller
+  addVectors(vectors: number[][], documents: Document[], ids?: string[]): Promise<void>;
+
+  deleteDocuments(ids: string[]): Promise<void>;
+
+  similaritySearch(query: string, k: number): Promise<ScoredDocument[]>;
+
+  // Search with a query embedding computed by the caller
+  similaritySearchByVector(vector: number[], k: number): Promise<ScoredDocument[]>;
+
+  // True once the index holds at least one record
+  isReady(): Promise<boolean>;
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react'
-import { User, onAuthStateChanged, signOut as firebaseSignOut } from 'firebase/auth'
+import { User, onIdTokenChanged, signOut as firebaseSignOut } from 'firebase/auth'
 import { auth } from '@/lib/shared/core/config'
 import { toast } from 'sonner'
 import { setAuthCookie, clearAuthCookie } from '@/lib/shared/utils/cookie-utils'
@@ -63,7 +63,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, async (firebaseUser: User | null) => {
+    // Also fires when Firebase refreshes the hourly ID token, so the middleware's cookie stays valid
+    const unsubscribe = onIdTokenChanged(auth, async (firebaseUser: User | null) => {
       if (firebaseUser) {
         try {
           // Get fresh token and set cookie
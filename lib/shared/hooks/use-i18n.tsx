@@ -0,0 +1,117 @@
+'use client'
+
+import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from 'react'
+import { auth } from '@/lib/shared/core/config'
+import { useAuth } from '@/lib/shared/hooks/use-auth'
+import {
+  LOCALE_COOKIE,
+  MESSAGES,
+  interpolate,
+  isLocale,
+  type Locale,
+  type MessageKey,
+  type MessageValues,
+  type Namespace
+} from '@/lib/shared/i18n'
+
+interface I18nContextType {
+  locale: Locale
+  setLocale: (locale: Locale) => Promise<void>
+}
+
+const I18nContext = createContext<I18nContextType | undefined>(undefined)
+
+const ONE_YEAR = 60 * 60 * 24 * 365
+
+async function authHeaders() {
+  const token = auth.currentUser ? await auth.currentUser.getIdToken() : null
+  return token ? { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' } : null
+}
+
+// Must be rendered inside AuthProvider: the signed-in user's profile locale wins over the cookie
+export function I18nProvider({ initialLocale, children }: { initialLocale: Locale; children: ReactNode }) {
+  const { user } = useAuth()
+  const [locale, setLocaleState] = useState<Locale>(initialLocale)
+
+  const applyLocale = useCallback((next: Locale) => {
+    setLocaleState(next)
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${ONE_YEAR}; samesite=lax`
+    document.documentElement.lang = next
+  }, [])
+
+  useEffect(() => {
+    if (!user) return
+    let cancelled = false
+
+    const loadProfileLocale = async () => {
+      try {
+        const headers = await authHeaders()
+        if (!headers) return
+        const response = await fetch('/api/profile', { headers })
+        if (!response.ok) return
+        const data = await response.json()
+        if (!cancelled && isLocale(data.profile?.locale)) {
+          applyLocale(data.profile.locale)
+        }
+      } catch (error) {
+        console.error('Error loading profile locale:', error)
+      }
+    }
+    loadProfileLocale()
+
+    return () => {
+      cancelled = true
+    }
+  }, [user?.id, applyLocale])
+
+  const setLocale = async (next: Locale) => {
+    applyLocale(next)
+    try {
+      const headers = await authHeaders()
+      if (!headers) return
+      const response = await fetch('/api/profile', {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify({ locale: next })
+      })
+      if (!response.ok) {
+        console.error('Error saving profile locale:', response.status)
+      }
+    } catch (error) {
+      console.error('Error saving profile locale:', error)
+    }
+  }
+
+  return (
+    <I18nContext.Provider value={{ locale, setLocale }}>
+      {children}
+    </I18nContext.Provider>
+  )
+}
+
+export function useI18n() {
+  const context = useContext(I18nContext)
+  if (context === undefined) {
+    throw new Error('useI18n must be used within an I18nProvider')
+  }
+  return context
+}
+
+export function useLocale(): Locale {
+  return useI18n().locale
+}
+
+/**
+ * Translator for one catalog namespace, in the style of next-intl:
+ * `const t = useTranslations('chat')` then `t('updatedToday', { time })`.
+ */
+export function useTranslations<N extends Namespace>(namespace: N) {
+  const locale = useLocale()
+  return useCallback(
+    (key: MessageKey<N>, values?: MessageValues): string => {
+      const messages = MESSAGES[locale][namespace] as Record<string, string>
+      return interpolate(messages[key], values)
+    },
+    [locale, namespace]
+  )
+}
@@ -0,0 +1,50 @@
+import type { LanguageCode } from '@/lib/shared/types/corpus'
+
+export type Locale = LanguageCode
+
+export const LOCALES = ['de', 'fr', 'it', 'en'] as const satisfies readonly Locale[]
+
+export const DEFAULT_LOCALE: Locale = 'de'
+
+// Read by the root layout so the first render is already in the right language
+export const LOCALE_COOKIE = 'locale'
+
+// BCP 47 tags for Intl formatting, Swiss variants where they exist
+export const LOCALE_TAGS: Record<Locale, string> = {
+  de: 'de-CH',
+  fr: 'fr-CH',
+  it: 'it-CH',
+  en: 'en-GB'
+}
+
+// Each language in its own name, for the switcher
+export const LOCALE_LABELS: Record<Locale, string> = {
+  de: 'Deutsch',
+  fr: 'Français',
+  it: 'Italiano',
+  en: 'English'
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value)
+}
+
+/**
+ * Picks the first supported language from an Accept-Language header,
+ * e.g. "fr-CH,fr;q=0.9,en;q=0.8" gives "fr".
+ */
+export function negotiateLocale(acceptLanguage: string | null | undefined): Locale {
+  if (!acceptLanguage) return DEFAULT_LOCALE
+
+  const ranked = acceptLanguage
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';')
+      const quality = params.find((param) => param.trim().startsWith('q='))
+      return { language: tag.split('-')[0].toLowerCase(), q: quality ? Number(quality.trim().slice(2)) || 0 : 1 }
+    })
+    .sort((a, b) => b.q - a.q)
+
+  const match = ranked.find((entry) => isLocale(entry.language))
+  return match ? (match.language as Locale) : DEFAULT_LOCALE
+}
@@ -0,0 +1,36 @@
+import { LOCALE_TAGS, type Locale } from './config'
+import type { Messages } from './messages'
+
+export type Namespace = keyof Messages
+export type MessageKey<N extends Namespace> = keyof Messages[N] & string
+export type MessageValues = Record<string, string | number>
+
+// Fills {name} placeholders; unknown placeholders are left as they are
+export function interpolate(template: string, values?: MessageValues): string {
+  if (!values) return template
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  )
+}
+
+export function formatTime(date: Date, locale: Locale): string {
+  return new Intl.DateTimeFormat(LOCALE_TAGS[locale], { hour: '2-digit', minute: '2-digit' }).format(date)
+}
+
+export function formatDate(date: Date, locale: Locale): string {
+  return new Intl.DateTimeFormat(LOCALE_TAGS[locale], { dateStyle: 'medium' }).format(date)
+}
+
+/**
+ * Whether a date falls on today or yesterday in local time, so callers can
+ * pick their "Today at {time}" / "Yesterday at {time}" message.
+ */
+export function relativeDay(date: Date, now: Date = new Date()): 'today' | 'yesterday' | null {
+  const sameDay = (a: Date, b: Date) =>
+    a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate()
+
+  if (sameDay(date, now)) return 'today'
+  const yesterday = new Date(now)
+  yesterday.setDate(now.getDate() - 1)
+  return sameDay(date, yesterday) ? 'yesterday' : null
+}
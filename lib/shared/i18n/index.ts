@@ -0,0 +1,14 @@
+export {
+  DEFAULT_LOCALE,
+  LOCALE_COOKIE,
+  LOCALE_LABELS,
+  LOCALE_TAGS,
+  LOCALES,
+  isLocale,
+  negotiateLocale,
+} from './config'
+export type { Locale } from './config'
+export { MESSAGES } from './messages'
+export type { Messages } from './messages'
+export { formatDate, formatTime, interpolate, relativeDay } from './format'
+export type { MessageKey, MessageValues, Namespace } from './format'
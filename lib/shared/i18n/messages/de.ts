@@ -0,0 +1,182 @@
+import type { Messages } from './en'
+
+// Swiss Standard German: "ss" instead of "ß"
+export const de: Messages = {
+  chat: {
+    defaultTitle: 'Chat',
+    subtitle: 'Schnelle Antworten zu Schweizer Recht und Verfahren.',
+    updatedToday: 'Heute um {time}',
+    updatedYesterday: 'Gestern um {time}',
+    updatedOn: '{date} um {time}',
+    deleteConversation: 'Unterhaltung löschen',
+    loadingConversation: 'Unterhaltung wird geladen...',
+    emptyTitle: 'Fragen Sie mich zu Schweizer Recht und rechtlichen Verfahren.',
+    emptyHint: 'Ich kann Ihnen auch passende Anwältinnen und Anwälte in der Schweiz vorschlagen.',
+    thinking: 'Denke nach...',
+    typing: 'KI schreibt...',
+    inputPlaceholder: 'Stellen Sie eine Frage',
+    sendLabel: 'Nachricht senden',
+    send: 'Senden',
+    sending: 'Wird gesendet...',
+    you: 'Sie',
+    error: 'Entschuldigung, es ist ein Fehler aufgetreten. Bitte versuchen Sie es erneut.'
+  },
+  blocks: {
+    info: 'Hinweis',
+    warning: 'Achtung',
+    success: 'Tipp',
+    source: 'Quelle {number}',
+    showSource: 'Quelle anzeigen'
+  },
+  safety: {
+    title: 'Wichtig',
+    contacts: 'Sofort Hilfe holen',
+    call: '{phone} anrufen'
+  },
+  consultation: {
+    request: 'Beratung anfragen',
+    title: 'Beratung bei {name}',
+    description: '{name} erhält Ihre Anfrage per E-Mail und meldet sich direkt bei Ihnen.',
+    excerpts: 'Aus diesem Gespräch teilen',
+    excerptsHint: 'Nur die ausgewählten Nachrichten werden gesendet.',
+    you: 'Sie',
+    assistant: 'Assistent',
+    message: 'Nachricht an die Anwältin oder den Anwalt',
+    messagePlaceholder: 'Beschreiben Sie kurz Ihre Situation und wann Sie erreichbar sind.',
+    phone: 'Telefon (optional)',
+    contactNote: 'Ihre E-Mail-Adresse {email} wird ebenfalls mitgeteilt.',
+    send: 'Anfrage senden',
+    sending: 'Wird gesendet...',
+    cancel: 'Abbrechen',
+    sent: 'Ihre Anfrage wurde an {name} gesendet',
+    failed: 'Die Anfrage konnte nicht gesendet werden. Bitte versuchen Sie es erneut.',
+    empty: 'Schreiben Sie eine Nachricht oder wählen Sie mindestens eine Nachricht zum Teilen aus.',
+    myRequests: 'Meine Anfragen',
+    myRequestsHint: 'Beratungen, die Sie bei Anwältinnen und Anwälten angefragt haben.',
+    loading: 'Anfragen werden geladen...',
+    noRequests: 'Sie haben noch keine Beratung angefragt.',
+    loadFailed: 'Ihre Anfragen konnten nicht geladen werden',
+    backToChat: 'Zurück zum Chat',
+    sentOn: 'Gesendet am {date}',
+    sharedMessages: 'Geteilte Nachrichten: {count}',
+    lawyerReply: 'Antwort der Anwältin oder des Anwalts',
+    close: 'Anfrage abschliessen',
+    closeFailed: 'Die Anfrage konnte nicht abgeschlossen werden',
+    statusSent: 'Gesendet',
+    statusAccepted: 'Angenommen',
+    statusDeclined: 'Abgelehnt',
+    statusClosed: 'Abgeschlossen',
+    respondTitle: 'Anfrage für eine Beratung',
+    respondIntro: 'Eine Person, die Swiss Legal Assistant nutzt, bittet Sie um eine Beratung. Ihre Antwort erscheint in deren Konto; die Kontaktangaben finden Sie in der E-Mail.',
+    reply: 'Notiz für die Person (optional)',
+    accept: 'Annehmen',
+    decline: 'Ablehnen',
+    respondDone: 'Vielen Dank, Ihre Antwort wurde gespeichert.',
+    respondFailed: 'Ihre Antwort konnte nicht gespeichert werden. Bitte versuchen Sie es erneut.',
+    currentStatus: 'Diese Anfrage wurde bereits beantwortet. Status: {status}',
+    notFound: 'Dieser Link ist ungültig.'
+  },
+  sidebar: {
+    appTitle: 'Schweizer Rechtsassistent',
+    newChat: 'Neuer Chat',
+    loading: 'Unterhaltungen werden geladen...',
+    emptyTitle: 'Noch keine Unterhaltungen',
+    emptyHint: 'Beginnen Sie eine neue Unterhaltung',
+    updatedToday: 'Heute, {time}',
+    updatedYesterday: 'Gestern, {time}',
+    updatedOn: '{date}, {time}',
+    userFallback: 'Benutzer',
+    myRequests: 'Meine Anfragen',
+    logout: 'Abmelden',
+    logoutTitle: 'Abmelden bestätigen',
+    logoutDescription: 'Möchten Sie sich wirklich abmelden? Sie müssen sich erneut anmelden, um auf Ihre Unterhaltungen zuzugreifen.',
+    deleteTitle: 'Unterhaltung löschen',
+    deleteDescription: 'Möchten Sie diese Unterhaltung wirklich löschen? Dies kann nicht rückgängig gemacht werden.',
+    delete: 'Löschen',
+    cancel: 'Abbrechen'
+  },
+  confidence: {
+    high: 'Hohe Zuverlässigkeit',
+    medium: 'Mittlere Zuverlässigkeit',
+    low: 'Geringe Zuverlässigkeit',
+    retrievalSimilarity: 'Ähnlichkeit der Quellen',
+    rerankerAgreement: 'Übereinstimmung beim Reranking',
+    citationCoverage: 'Abdeckung durch Zitate',
+    faithfulness: 'Selbstprüfung der Quellentreue',
+    tokens: '{count} Tokens'
+  },
+  sources: {
+    show: 'Quellen anzeigen ({count})',
+    hide: 'Quellen ausblenden ({count})',
+    page: 'Seite {page}',
+    relevance: '{percent}% relevant',
+    relevanceHint: 'Wie gut dieser Auszug zu Ihrer Frage passt',
+    view: 'Quelle öffnen →'
+  },
+  login: {
+    title: 'Bei Ihrem Konto anmelden',
+    description: 'Geben Sie Ihre E-Mail-Adresse ein, um sich anzumelden',
+    email: 'E-Mail',
+    password: 'Passwort',
+    forgotPassword: 'Passwort vergessen?',
+    submit: 'Anmelden',
+    submitting: 'Anmeldung läuft...',
+    noAccount: 'Noch kein Konto?',
+    signUp: 'Registrieren',
+    success: 'Erfolgreich angemeldet!',
+    notConfigured: 'Firebase ist nicht korrekt konfiguriert. Bitte prüfen Sie Ihre Umgebungsvariablen.',
+    unexpectedError: 'Ein unerwarteter Fehler ist aufgetreten',
+    userNotFound: 'Zu dieser E-Mail-Adresse wurde kein Konto gefunden',
+    wrongPassword: 'Falsches Passwort',
+    invalidEmail: 'Ungültige E-Mail-Adresse',
+    tooManyRequests: 'Zu viele fehlgeschlagene Versuche. Bitte versuchen Sie es später erneut'
+  },
+  signup: {
+    title: 'Konto erstellen',
+    description: 'Geben Sie Ihre Angaben ein, um ein Konto zu erstellen',
+    fullName: 'Vollständiger Name',
+    fullNamePlaceholder: 'Max Muster',
+    username: 'Benutzername',
+    email: 'E-Mail',
+    password: 'Passwort',
+    submit: 'Konto erstellen',
+    submitting: 'Konto wird erstellt...',
+    hasAccount: 'Haben Sie bereits ein Konto?',
+    signIn: 'Anmelden',
+    success: 'Konto erfolgreich erstellt!',
+    unexpectedError: 'Ein unerwarteter Fehler ist aufgetreten',
+    emailInUse: 'Zu dieser E-Mail-Adresse besteht bereits ein Konto',
+    invalidEmail: 'Ungültige E-Mail-Adresse',
+    weakPassword: 'Das Passwort ist zu schwach. Bitte wählen Sie ein stärkeres Passwort'
+  },
+  otp: {
+    emailRequired: 'Für die Bestätigung wird eine E-Mail-Adresse benötigt.',
+    backToLogin: 'Zurück zur Anmeldung',
+    title: 'E-Mail-Adresse bestätigen',
+    sentTo: 'Wir haben einen 6-stelligen Bestätigungscode gesendet an',
+    codeLabel: 'Bestätigungscode',
+    codeHint: 'Geben Sie den 6-stelligen Code aus der E-Mail ein',
+    verify: 'E-Mail bestätigen',
+    verifying: 'Wird bestätigt...',
+    noCode: 'Keinen Code erhalten?',
+    resend: 'Code erneut senden',
+    resending: 'Wird erneut gesendet...',
+    missingToken: 'Bitte geben Sie den Bestätigungscode ein.',
+    invalidToken: 'Ungültiger Bestätigungscode. Bitte versuchen Sie es erneut.',
+    missingEmail: 'Die E-Mail-Adresse fehlt.',
+    resendFailed: 'Der Bestätigungscode konnte nicht erneut gesendet werden. Bitte versuchen Sie es erneut.',
+    resent: 'Der Bestätigungscode wurde erneut an Ihre E-Mail-Adresse gesendet.',
+    checkEmail: 'Bitte prüfen Sie Ihre E-Mails auf den Bestätigungscode.',
+    verifyByLink: 'Bitte bestätigen Sie Ihre E-Mail-Adresse über den Link, den wir Ihnen gesendet haben.',
+    verificationFailed: 'Die Bestätigung ist fehlgeschlagen. Bitte versuchen Sie es erneut.'
+  },
+  errorPage: {
+    title: 'Etwas ist schiefgelaufen',
+    description: 'Es ist ein unerwarteter Fehler aufgetreten. Bitte versuchen Sie es erneut oder wenden Sie sich an den Support, falls das Problem weiterhin besteht.',
+    tryAgain: 'Erneut versuchen',
+    goHome: 'Zur Startseite'
+  },
+  locale: {
+    label: 'Sprache'
+  }
+}
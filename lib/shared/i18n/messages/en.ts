@@ -0,0 +1,183 @@
+// The reference catalog: every other locale must provide the same keys.
+// Placeholders in braces, e.g. {time}, are filled in by the translator.
+export const en = {
+  chat: {
+    defaultTitle: 'Chat',
+    subtitle: 'Quick answers about Swiss law and procedures.',
+    updatedToday: 'Today at {time}',
+    updatedYesterday: 'Yesterday at {time}',
+    updatedOn: '{date} at {time}',
+    deleteConversation: 'Delete conversation',
+    loadingConversation: 'Loading conversation...',
+    emptyTitle: 'Ask me about Swiss law and legal procedures.',
+    emptyHint: 'I can also suggest relevant Swiss lawyers.',
+    thinking: 'Thinking...',
+    typing: 'AI is typing...',
+    inputPlaceholder: 'Ask anything',
+    sendLabel: 'Send message',
+    send: 'Send',
+    sending: 'Sending...',
+    you: 'You',
+    error: "I'm sorry, I encountered an error. Please try again."
+  },
+  blocks: {
+    info: 'Note',
+    warning: 'Warning',
+    success: 'Tip',
+    source: 'Source {number}',
+    showSource: 'Show source'
+  },
+  safety: {
+    title: 'Important',
+    contacts: 'Get help now',
+    call: 'Call {phone}'
+  },
+  consultation: {
+    request: 'Request consultation',
+    title: 'Consultation with {name}',
+    description: '{name} gets your request by email and replies to you directly.',
+    excerpts: 'Share from this conversation',
+    excerptsHint: 'Only the selected messages are sent.',
+    you: 'You',
+    assistant: 'Assistant',
+    message: 'Message to the lawyer',
+    messagePlaceholder: 'Briefly describe your situation and when you can be reached.',
+    phone: 'Phone (optional)',
+    contactNote: 'The lawyer also sees your email address {email}.',
+    send: 'Send request',
+    sending: 'Sending...',
+    cancel: 'Cancel',
+    sent: 'Your request was sent to {name}',
+    failed: 'The request could not be sent. Please try again.',
+    empty: 'Write a message or select at least one message to share.',
+    myRequests: 'My requests',
+    myRequestsHint: 'Consultations you requested from lawyers.',
+    loading: 'Loading requests...',
+    noRequests: 'You have not requested a consultation yet.',
+    loadFailed: 'Failed to load your requests',
+    backToChat: 'Back to chat',
+    sentOn: 'Sent on {date}',
+    sharedMessages: 'Shared messages: {count}',
+    lawyerReply: 'Reply from the lawyer',
+    close: 'Close request',
+    closeFailed: 'The request could not be closed',
+    statusSent: 'Sent',
+    statusAccepted: 'Accepted',
+    statusDeclined: 'Declined',
+    statusClosed: 'Closed',
+    respondTitle: 'Consultation request',
+    respondIntro: 'Someone using Swiss Legal Assistant asks you for a consultation. Your answer appears in their account; their contact details are in the email.',
+    reply: 'Note for the person (optional)',
+    accept: 'Accept',
+    decline: 'Decline',
+    respondDone: 'Thank you, your answer has been recorded.',
+    respondFailed: 'Your answer could not be saved. Please try again.',
+    currentStatus: 'This request has already been answered. Status: {status}',
+    notFound: 'This link is invalid.'
+  },
+  sidebar: {
+    appTitle: 'Swiss Legal Assistant',
+    newChat: 'New chat',
+    loading: 'Loading conversations...',
+    emptyTitle: 'No conversations yet',
+    emptyHint: 'Start a new conversation to get started',
+    updatedToday: 'Today, {time}',
+    updatedYesterday: 'Yesterday, {time}',
+    updatedOn: '{date}, {time}',
+    userFallback: 'User',
+    myRequests: 'My requests',
+    logout: 'Logout',
+    logoutTitle: 'Confirm Logout',
+    logoutDescription: 'Are you sure you want to logout? You will need to sign in again to access your conversations.',
+    deleteTitle: 'Delete Conversation',
+    deleteDescription: 'Are you sure you want to delete this conversation? This action cannot be undone.',
+    delete: 'Delete',
+    cancel: 'Cancel'
+  },
+  confidence: {
+    high: 'High confidence',
+    medium: 'Medium confidence',
+    low: 'Low confidence',
+    retrievalSimilarity: 'Retrieval similarity',
+    rerankerAgreement: 'Reranker agreement',
+    citationCoverage: 'Citation coverage',
+    faithfulness: 'Faithfulness self-check',
+    tokens: '{count} tokens'
+  },
+  sources: {
+    show: 'Show sources ({count})',
+    hide: 'Hide sources ({count})',
+    page: 'Page {page}',
+    relevance: '{percent}% relevant',
+    relevanceHint: 'How relevant this excerpt is to your question',
+    view: 'View source →'
+  },
+  login: {
+    title: 'Login to your account',
+    description: 'Enter your email below to login to your account',
+    email: 'Email',
+    password: 'Password',
+    forgotPassword: 'Forgot your password?',
+    submit: 'Login',
+    submitting: 'Signing in...',
+    noAccount: "Don't have an account?",
+    signUp: 'Sign up',
+    success: 'Successfully signed in!',
+    notConfigured: 'Firebase is not properly configured. Please check your environment variables.',
+    unexpectedError: 'An unexpected error occurred',
+    userNotFound: 'No account found with this email address',
+    wrongPassword: 'Incorrect password',
+    invalidEmail: 'Invalid email address',
+    tooManyRequests: 'Too many failed attempts. Please try again later'
+  },
+  signup: {
+    title: 'Create your account',
+    description: 'Enter your details below to create your account',
+    fullName: 'Full Name',
+    fullNamePlaceholder: 'John Doe',
+    username: 'Username',
+    email: 'Email',
+    password: 'Password',
+    submit: 'Create account',
+    submitting: 'Creating account...',
+    hasAccount: 'Already have an account?',
+    signIn: 'Sign in',
+    success: 'Account created successfully!',
+    unexpectedError: 'An unexpected error occurred',
+    emailInUse: 'An account with this email already exists',
+    invalidEmail: 'Invalid email address',
+    weakPassword: 'Password is too weak. Please choose a stronger password'
+  },
+  otp: {
+    emailRequired: 'Email address is required for verification.',
+    backToLogin: 'Back to Login',
+    title: 'Verify your email',
+    sentTo: "We've sent a 6-digit verification code to",
+    codeLabel: 'Verification Code',
+    codeHint: 'Enter the 6-digit code from your email',
+    verify: 'Verify Email',
+    verifying: 'Verifying...',
+    noCode: "Didn't receive the code?",
+    resend: 'Resend Code',
+    resending: 'Resending...',
+    missingToken: 'Please enter the verification code.',
+    invalidToken: 'Invalid verification code. Please try again.',
+    missingEmail: 'Email address is missing.',
+    resendFailed: 'Failed to resend verification code. Please try again.',
+    resent: 'Verification code has been resent to your email.',
+    checkEmail: 'Please check your email for the verification code.',
+    verifyByLink: 'Please verify your email by clicking the link sent to your inbox.',
+    verificationFailed: 'Verification failed. Please try again.'
+  },
+  errorPage: {
+    title: 'Something went wrong',
+    description: 'We encountered an unexpected error. Please try again or contact support if the problem persists.',
+    tryAgain: 'Try Again',
+    goHome: 'Go Home'
+  },
+  locale: {
+    label: 'Language'
+  }
+}
+
+export type Messages = typeof en
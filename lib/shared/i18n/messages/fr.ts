@@ -0,0 +1,181 @@
+import type { Messages } from './en'
+
+export const fr: Messages = {
+  chat: {
+    defaultTitle: 'Chat',
+    subtitle: 'Des réponses rapides sur le droit et les procédures en Suisse.',
+    updatedToday: "Aujourd'hui à {time}",
+    updatedYesterday: 'Hier à {time}',
+    updatedOn: '{date} à {time}',
+    deleteConversation: 'Supprimer la conversation',
+    loadingConversation: 'Chargement de la conversation...',
+    emptyTitle: 'Posez-moi vos questions sur le droit suisse et les procédures juridiques.',
+    emptyHint: 'Je peux aussi vous proposer des avocates et avocats en Suisse.',
+    thinking: 'Réflexion...',
+    typing: "L'IA écrit...",
+    inputPlaceholder: 'Posez votre question',
+    sendLabel: 'Envoyer le message',
+    send: 'Envoyer',
+    sending: 'Envoi...',
+    you: 'Vous',
+    error: "Désolé, une erreur s'est produite. Veuillez réessayer."
+  },
+  blocks: {
+    info: 'Remarque',
+    warning: 'Attention',
+    success: 'Conseil',
+    source: 'Source {number}',
+    showSource: 'Afficher la source'
+  },
+  safety: {
+    title: 'Important',
+    contacts: "Obtenir de l'aide maintenant",
+    call: 'Appeler le {phone}'
+  },
+  consultation: {
+    request: 'Demander une consultation',
+    title: 'Consultation avec {name}',
+    description: '{name} reçoit votre demande par e-mail et vous répond directement.',
+    excerpts: 'Partager de cette conversation',
+    excerptsHint: 'Seuls les messages sélectionnés sont envoyés.',
+    you: 'Vous',
+    assistant: 'Assistant',
+    message: "Message à l'avocat·e",
+    messagePlaceholder: 'Décrivez brièvement votre situation et quand vous êtes joignable.',
+    phone: 'Téléphone (facultatif)',
+    contactNote: "Votre adresse e-mail {email} est également transmise.",
+    send: 'Envoyer la demande',
+    sending: 'Envoi...',
+    cancel: 'Annuler',
+    sent: 'Votre demande a été envoyée à {name}',
+    failed: "La demande n'a pas pu être envoyée. Veuillez réessayer.",
+    empty: 'Écrivez un message ou sélectionnez au moins un message à partager.',
+    myRequests: 'Mes demandes',
+    myRequestsHint: 'Les consultations que vous avez demandées à des avocat·es.',
+    loading: 'Chargement des demandes...',
+    noRequests: "Vous n'avez encore demandé aucune consultation.",
+    loadFailed: "Impossible de charger vos demandes",
+    backToChat: 'Retour au chat',
+    sentOn: 'Envoyée le {date}',
+    sharedMessages: 'Messages partagés : {count}',
+    lawyerReply: "Réponse de l'avocat·e",
+    close: 'Clore la demande',
+    closeFailed: "La demande n'a pas pu être close",
+    statusSent: 'Envoyée',
+    statusAccepted: 'Acceptée',
+    statusDeclined: 'Refusée',
+    statusClosed: 'Close',
+    respondTitle: 'Demande de consultation',
+    respondIntro: "Une personne utilisant Swiss Legal Assistant souhaite vous consulter. Votre réponse s'affiche dans son compte ; ses coordonnées figurent dans l'e-mail.",
+    reply: 'Note pour la personne (facultatif)',
+    accept: 'Accepter',
+    decline: 'Refuser',
+    respondDone: 'Merci, votre réponse a été enregistrée.',
+    respondFailed: "Votre réponse n'a pas pu être enregistrée. Veuillez réessayer.",
+    currentStatus: 'Cette demande a déjà reçu une réponse. Statut : {status}',
+    notFound: "Ce lien n'est pas valable."
+  },
+  sidebar: {
+    appTitle: 'Assistant juridique suisse',
+    newChat: 'Nouveau chat',
+    loading: 'Chargement des conversations...',
+    emptyTitle: 'Aucune conversation pour le moment',
+    emptyHint: 'Commencez une nouvelle conversation',
+    updatedToday: "Aujourd'hui, {time}",
+    updatedYesterday: 'Hier, {time}',
+    updatedOn: '{date}, {time}',
+    userFallback: 'Utilisateur',
+    myRequests: 'Mes demandes',
+    logout: 'Se déconnecter',
+    logoutTitle: 'Confirmer la déconnexion',
+    logoutDescription: 'Voulez-vous vraiment vous déconnecter ? Vous devrez vous reconnecter pour accéder à vos conversations.',
+    deleteTitle: 'Supprimer la conversation',
+    deleteDescription: 'Voulez-vous vraiment supprimer cette conversation ? Cette action est irréversible.',
+    delete: 'Supprimer',
+    cancel: 'Annuler'
+  },
+  confidence: {
+    high: 'Fiabilité élevée',
+    medium: 'Fiabilité moyenne',
+    low: 'Fiabilité faible',
+    retrievalSimilarity: 'Similarité des sources',
+    rerankerAgreement: 'Concordance du reclassement',
+    citationCoverage: 'Couverture par les citations',
+    faithfulness: 'Autocontrôle de fidélité',
+    tokens: '{count} jetons'
+  },
+  sources: {
+    show: 'Afficher les sources ({count})',
+    hide: 'Masquer les sources ({count})',
+    page: 'Page {page}',
+    relevance: 'Pertinence {percent} %',
+    relevanceHint: 'Dans quelle mesure cet extrait répond à votre question',
+    view: 'Voir la source →'
+  },
+  login: {
+    title: 'Connexion à votre compte',
+    description: 'Saisissez votre adresse e-mail pour vous connecter',
+    email: 'E-mail',
+    password: 'Mot de passe',
+    forgotPassword: 'Mot de passe oublié ?',
+    submit: 'Se connecter',
+    submitting: 'Connexion...',
+    noAccount: "Vous n'avez pas de compte ?",
+    signUp: "S'inscrire",
+    success: 'Connexion réussie !',
+    notConfigured: "Firebase n'est pas correctement configuré. Veuillez vérifier vos variables d'environnement.",
+    unexpectedError: "Une erreur inattendue s'est produite",
+    userNotFound: 'Aucun compte ne correspond à cette adresse e-mail',
+    wrongPassword: 'Mot de passe incorrect',
+    invalidEmail: 'Adresse e-mail invalide',
+    tooManyRequests: 'Trop de tentatives échouées. Veuillez réessayer plus tard'
+  },
+  signup: {
+    title: 'Créer votre compte',
+    description: 'Saisissez vos informations pour créer votre compte',
+    fullName: 'Nom complet',
+    fullNamePlaceholder: 'Jean Dupont',
+    username: "Nom d'utilisateur",
+    email: 'E-mail',
+    password: 'Mot de passe',
+    submit: 'Créer un compte',
+    submitting: 'Création du compte...',
+    hasAccount: 'Vous avez déjà un compte ?',
+    signIn: 'Se connecter',
+    success: 'Compte créé avec succès !',
+    unexpectedError: "Une erreur inattendue s'est produite",
+    emailInUse: 'Un compte existe déjà avec cette adresse e-mail',
+    invalidEmail: 'Adresse e-mail invalide',
+    weakPassword: 'Mot de passe trop faible. Veuillez choisir un mot de passe plus sûr'
+  },
+  otp: {
+    emailRequired: "Une adresse e-mail est requise pour la vérification.",
+    backToLogin: 'Retour à la connexion',
+    title: 'Vérifiez votre adresse e-mail',
+    sentTo: 'Nous avons envoyé un code de vérification à 6 chiffres à',
+    codeLabel: 'Code de vérification',
+    codeHint: "Saisissez le code à 6 chiffres reçu par e-mail",
+    verify: "Vérifier l'e-mail",
+    verifying: 'Vérification...',
+    noCode: "Vous n'avez pas reçu le code ?",
+    resend: 'Renvoyer le code',
+    resending: 'Envoi en cours...',
+    missingToken: 'Veuillez saisir le code de vérification.',
+    invalidToken: 'Code de vérification invalide. Veuillez réessayer.',
+    missingEmail: "L'adresse e-mail est manquante.",
+    resendFailed: "Le code de vérification n'a pas pu être renvoyé. Veuillez réessayer.",
+    resent: 'Le code de vérification a été renvoyé à votre adresse e-mail.',
+    checkEmail: 'Veuillez consulter vos e-mails pour trouver le code de vérification.',
+    verifyByLink: 'Veuillez vérifier votre adresse e-mail en cliquant sur le lien envoyé dans votre boîte de réception.',
+    verificationFailed: 'La vérification a échoué. Veuillez réessayer.'
+  },
+  errorPage: {
+    title: "Une erreur s'est produite",
+    description: "Une erreur inattendue s'est produite. Veuillez réessayer ou contacter le support si le problème persiste.",
+    tryAgain: 'Réessayer',
+    goHome: "Retour à l'accueil"
+  },
+  locale: {
+    label: 'Langue'
+  }
+}
@@ -0,0 +1,181 @@
+import type { Messages } from './en'
+
+export const it: Messages = {
+  chat: {
+    defaultTitle: 'Chat',
+    subtitle: 'Risposte rapide sul diritto e sulle procedure in Svizzera.',
+    updatedToday: 'Oggi alle {time}',
+    updatedYesterday: 'Ieri alle {time}',
+    updatedOn: '{date} alle {time}',
+    deleteConversation: 'Elimina conversazione',
+    loadingConversation: 'Caricamento della conversazione...',
+    emptyTitle: 'Chiedimi del diritto svizzero e delle procedure legali.',
+    emptyHint: 'Posso anche suggerirti avvocate e avvocati in Svizzera.',
+    thinking: 'Sto pensando...',
+    typing: "L'IA sta scrivendo...",
+    inputPlaceholder: 'Fai una domanda',
+    sendLabel: 'Invia messaggio',
+    send: 'Invia',
+    sending: 'Invio...',
+    you: 'Tu',
+    error: 'Spiacente, si è verificato un errore. Riprova.'
+  },
+  blocks: {
+    info: 'Nota',
+    warning: 'Attenzione',
+    success: 'Consiglio',
+    source: 'Fonte {number}',
+    showSource: 'Mostra la fonte'
+  },
+  safety: {
+    title: 'Importante',
+    contacts: 'Aiuto immediato',
+    call: 'Chiama il {phone}'
+  },
+  consultation: {
+    request: 'Richiedi consulenza',
+    title: 'Consulenza con {name}',
+    description: '{name} riceve la sua richiesta per e-mail e le risponde direttamente.',
+    excerpts: 'Condividi da questa conversazione',
+    excerptsHint: 'Vengono inviati solo i messaggi selezionati.',
+    you: 'Lei',
+    assistant: 'Assistente',
+    message: "Messaggio per l'avvocato",
+    messagePlaceholder: 'Descriva brevemente la sua situazione e quando è raggiungibile.',
+    phone: 'Telefono (facoltativo)',
+    contactNote: 'Viene comunicato anche il suo indirizzo e-mail {email}.',
+    send: 'Invia richiesta',
+    sending: 'Invio in corso...',
+    cancel: 'Annulla',
+    sent: 'La sua richiesta è stata inviata a {name}',
+    failed: 'Non è stato possibile inviare la richiesta. Riprovi.',
+    empty: 'Scriva un messaggio o selezioni almeno un messaggio da condividere.',
+    myRequests: 'Le mie richieste',
+    myRequestsHint: 'Le consulenze che ha richiesto ad avvocati.',
+    loading: 'Caricamento delle richieste...',
+    noRequests: 'Non ha ancora richiesto alcuna consulenza.',
+    loadFailed: 'Impossibile caricare le sue richieste',
+    backToChat: 'Torna alla chat',
+    sentOn: 'Inviata il {date}',
+    sharedMessages: 'Messaggi condivisi: {count}',
+    lawyerReply: "Risposta dell'avvocato",
+    close: 'Chiudi richiesta',
+    closeFailed: 'Non è stato possibile chiudere la richiesta',
+    statusSent: 'Inviata',
+    statusAccepted: 'Accettata',
+    statusDeclined: 'Rifiutata',
+    statusClosed: 'Chiusa',
+    respondTitle: 'Richiesta di consulenza',
+    respondIntro: "Una persona che utilizza Swiss Legal Assistant le chiede una consulenza. La sua risposta appare nel suo account; i recapiti si trovano nell'e-mail.",
+    reply: 'Nota per la persona (facoltativa)',
+    accept: 'Accetta',
+    decline: 'Rifiuta',
+    respondDone: 'Grazie, la sua risposta è stata registrata.',
+    respondFailed: 'Non è stato possibile salvare la risposta. Riprovi.',
+    currentStatus: 'Questa richiesta ha già ricevuto una risposta. Stato: {status}',
+    notFound: 'Questo link non è valido.'
+  },
+  sidebar: {
+    appTitle: 'Assistente legale svizzero',
+    newChat: 'Nuova chat',
+    loading: 'Caricamento delle conversazioni...',
+    emptyTitle: 'Ancora nessuna conversazione',
+    emptyHint: 'Inizia una nuova conversazione',
+    updatedToday: 'Oggi, {time}',
+    updatedYesterday: 'Ieri, {time}',
+    updatedOn: '{date}, {time}',
+    userFallback: 'Utente',
+    myRequests: 'Le mie richieste',
+    logout: 'Esci',
+    logoutTitle: 'Conferma uscita',
+    logoutDescription: 'Vuoi davvero uscire? Dovrai accedere di nuovo per vedere le tue conversazioni.',
+    deleteTitle: 'Elimina conversazione',
+    deleteDescription: "Vuoi davvero eliminare questa conversazione? L'operazione non può essere annullata.",
+    delete: 'Elimina',
+    cancel: 'Annulla'
+  },
+  confidence: {
+    high: 'Affidabilità alta',
+    medium: 'Affidabilità media',
+    low: 'Affidabilità bassa',
+    retrievalSimilarity: 'Somiglianza delle fonti',
+    rerankerAgreement: 'Concordanza del riordino',
+    citationCoverage: 'Copertura delle citazioni',
+    faithfulness: 'Autoverifica di fedeltà',
+    tokens: '{count} token'
+  },
+  sources: {
+    show: 'Mostra le fonti ({count})',
+    hide: 'Nascondi le fonti ({count})',
+    page: 'Pagina {page}',
+    relevance: 'Pertinenza {percent}%',
+    relevanceHint: 'Quanto questo estratto è pertinente alla sua domanda',
+    view: 'Apri la fonte →'
+  },
+  login: {
+    title: 'Accedi al tuo account',
+    description: 'Inserisci la tua e-mail per accedere al tuo account',
+    email: 'E-mail',
+    password: 'Password',
+    forgotPassword: 'Password dimenticata?',
+    submit: 'Accedi',
+    submitting: 'Accesso in corso...',
+    noAccount: 'Non hai un account?',
+    signUp: 'Registrati',
+    success: 'Accesso effettuato!',
+    notConfigured: 'Firebase non è configurato correttamente. Controlla le variabili di ambiente.',
+    unexpectedError: 'Si è verificato un errore imprevisto',
+    userNotFound: 'Nessun account trovato con questo indirizzo e-mail',
+    wrongPassword: 'Password errata',
+    invalidEmail: 'Indirizzo e-mail non valido',
+    tooManyRequests: 'Troppi tentativi non riusciti. Riprova più tardi'
+  },
+  signup: {
+    title: 'Crea il tuo account',
+    description: 'Inserisci i tuoi dati per creare un account',
+    fullName: 'Nome completo',
+    fullNamePlaceholder: 'Mario Rossi',
+    username: 'Nome utente',
+    email: 'E-mail',
+    password: 'Password',
+    submit: 'Crea account',
+    submitting: 'Creazione account...',
+    hasAccount: 'Hai già un account?',
+    signIn: 'Accedi',
+    success: 'Account creato con successo!',
+    unexpectedError: 'Si è verificato un errore imprevisto',
+    emailInUse: 'Esiste già un account con questo indirizzo e-mail',
+    invalidEmail: 'Indirizzo e-mail non valido',
+    weakPassword: 'La password è troppo debole. Scegli una password più sicura'
+  },
+  otp: {
+    emailRequired: "Per la verifica è necessario un indirizzo e-mail.",
+    backToLogin: "Torna all'accesso",
+    title: 'Verifica la tua e-mail',
+    sentTo: 'Abbiamo inviato un codice di verifica di 6 cifre a',
+    codeLabel: 'Codice di verifica',
+    codeHint: "Inserisci il codice di 6 cifre ricevuto per e-mail",
+    verify: 'Verifica e-mail',
+    verifying: 'Verifica in corso...',
+    noCode: 'Non hai ricevuto il codice?',
+    resend: 'Invia di nuovo il codice',
+    resending: 'Invio in corso...',
+    missingToken: 'Inserisci il codice di verifica.',
+    invalidToken: 'Codice di verifica non valido. Riprova.',
+    missingEmail: "Manca l'indirizzo e-mail.",
+    resendFailed: 'Impossibile inviare di nuovo il codice di verifica. Riprova.',
+    resent: 'Il codice di verifica è stato inviato di nuovo alla tua e-mail.',
+    checkEmail: 'Controlla la tua e-mail per trovare il codice di verifica.',
+    verifyByLink: 'Verifica la tua e-mail cliccando sul link che ti abbiamo inviato.',
+    verificationFailed: 'Verifica non riuscita. Riprova.'
+  },
+  errorPage: {
+    title: 'Qualcosa è andato storto',
+    description: "Si è verificato un errore imprevisto. Riprova o contatta l'assistenza se il problema persiste.",
+    tryAgain: 'Riprova',
+    goHome: 'Vai alla home'
+  },
+  locale: {
+    label: 'Lingua'
+  }
+}
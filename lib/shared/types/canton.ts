@@ -0,0 +1,7 @@
+// Official two-letter codes of the 26 Swiss cantons
+export const CANTONS = [
+  'AG', 'AI', 'AR', 'BE', 'BL', 'BS', 'FR', 'GE', 'GL', 'GR', 'JU', 'LU', 'NE',
+  'NW', 'OW', 'SG', 'SH', 'SO', 'SZ', 'TG', 'TI', 'UR', 'VD', 'VS', 'ZG', 'ZH'
+] as const
+
+export type Canton = typeof CANTONS[number]
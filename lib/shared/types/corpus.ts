@@ -0,0 +1,32 @@
+export type LanguageCode = 'de' | 'fr' | 'it' | 'en'
+
+// An entry in the document registry: one legal text that can be ingested and cited
+export type CorpusDocument = {
+  id: string
+  title: string
+  // Abbreviation used in citations, e.g. "ZGB", "OR"
+  shortTitle?: string
+  // Systematic Collection (SR) number, e.g. "210" for the ZGB
+  srNumber?: string
+  language: LanguageCode
+  // ISO date of the consolidated version that was ingested
+  versionDate?: string
+  // Path relative to the project root
+  filePath: string
+  // Public URL of the file; derived from filePath when it lives under public/
+  url?: string
+  // "CH" for federal law, canton code (e.g. "ZH") for cantonal law
+  jurisdiction?: string
+}
+
+// Flat metadata stamped onto every chunk (vector stores don't support nested objects)
+export type CorpusChunkMetadata = {
+  documentId: string
+  documentTitle: string
+  documentShortTitle?: string
+  srNumber?: string
+  language: LanguageCode
+  versionDate?: string
+  documentUrl?: string
+  jurisdiction?: string
+}
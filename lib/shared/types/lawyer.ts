@@ -0,0 +1,37 @@
+import type { Canton } from './canton'
+import type { LanguageCode } from './corpus'
+
+// Practice areas of the lawyer directory; lawyers list them among their specialties
+export const PRACTICE_AREAS = [
+  'family law', 'criminal law', 'corporate law', 'real estate', 'immigration law',
+  'tax law', 'insurance law', 'inheritance law', 'contract law', 'labor law'
+] as const
+
+export type PracticeArea = typeof PRACTICE_AREAS[number]
+
+// The model's decision that a question calls for a lawyer; it never names lawyers itself
+export type LawyerReferral = {
+  practiceAreas: PracticeArea[]
+  // Where the user needs a lawyer, if the conversation says so
+  canton?: Canton
+}
+
+// A lawyer from the verified directory, ranked for a question
+export type LawyerRecommendation = {
+  id: string
+  name: string
+  specialties: string[]
+  rating: number
+  phone?: string
+  email?: string
+  website?: string
+  photoUrl?: string
+  address?: string
+  canton?: Canton
+  availability?: string
+  experience?: string
+  languages?: LanguageCode[]
+  // 0 to 5: matching specialties plus bonuses for rating and reviews
+  relevanceScore: number
+  matchReasons: string[]
+}
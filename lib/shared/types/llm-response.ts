@@ -1,21 +1,31 @@
+import type { LanguageCode } from './corpus'
+import type { LawyerRecommendation } from './lawyer'
+
 export type AssistantResponseV2 = {
   status: 'partial' | 'complete' | 'error'
   message: {
     textMd: string
     summary?: string
     blocks?: MessageBlock[]
+    // Language the answer is written in (that of the question)
+    language?: LanguageCode
   }
   citations: Citation[]
   sources: EnhancedSource[]
   followUps: string[]
   metrics: ResponseMetrics
   safety?: SafetyInfo
+  // Lawyers from the verified directory, when the answer calls for a referral
+  lawyerRecommendations?: LawyerRecommendation[]
 }
 
+// Sections of an answer for richer display; textMd holds the same content as plain markdown
 export type MessageBlock = 
   | { type: 'paragraph'; md: string }
+  // A quoted provision; sourceId points into `sources`
   | { type: 'quote'; md: string; sourceId?: string }
-  | { type: 'list'; items: string[] }
+  | { type: 'list'; items: string[]; ordered?: boolean }
+  // Warnings flag deadlines and time limits the user must act on
   | { type: 'callout'; kind: 'info' | 'warning' | 'success'; md: string }
   | { type: 'table'; headers: string[]; rows: string[][] }
 
@@ -37,10 +47,77 @@ export type EnhancedSource = {
 export type ResponseMetrics = {
   confidence: number
   processingTime: number
-  tokenUsage?: { prompt?: number; completion?: number; total?: number }
+  tokenUsage?: TokenUsage
+  confidenceBreakdown?: ConfidenceBreakdown
+  usageByStage?: Partial<Record<UsageStage, StageUsage>>
+  cost?: CostEstimate
+  // What the retriever actually searched for, for debugging
+  retrievalQuery?: RetrievalQuery
+}
+
+export type RetrievalQuery = {
+  original: string
+  // The question made self-contained using the conversation
+  standalone: string
+  // Narrower searches for questions with several parts; empty unless expansion is on
+  subQueries: string[]
+  // The standalone query in the other corpus languages, for cross-lingual retrieval
+  translations: string[]
+}
+
+export type TokenUsage = { prompt?: number; completion?: number; total?: number }
+
+// The model calls a query makes; retrieval covers the question embedding
+export type UsageStage =
+  | 'classification'
+  | 'rewrite'
+  | 'retrieval'
+  | 'rerank'
+  | 'answer'
+  | 'followUps'
+  | 'lawyers'
+  | 'selfCheck'
+
+export type StageUsage = {
+  prompt: number
+  completion: number
+  total: number
+  calls: number
+  // Some counts were estimated from text length because the provider reported none
+  estimated?: boolean
+  costUsd: number
+}
+
+// Estimated from the configured price table (see lib/shared/data/usage/pricing.ts)
+export type CostEstimate = { usd: number; chf: number }
+
+// Signals behind `confidence`, each in [0, 1]; absent signals weren't measured
+export type ConfidenceBreakdown = {
+  // Similarity of the best retrieved excerpts to the question
+  retrievalSimilarity: number
+  // How strongly the reranker confirms what retrieval ranked highest
+  rerankerAgreement?: number
+  // Share of the answer's sentences that cite a source
+  citationCoverage: number
+  // LLM self-check of how fully the sources support the answer
+  faithfulness?: number
+}
+
+// High-stakes situations that call for more than general information
+export type SafetyFlag = 'criminal' | 'deadline' | 'domesticViolence' | 'selfHarm'
+
+export type EmergencyContact = {
+  name: string
+  phone?: string
+  url?: string
 }
 
+// Texts are in the answer's language
 export type SafetyInfo = {
-  flags?: string[]
+  flags?: SafetyFlag[]
+  // "Not legal advice" notice; set on legal answers and whenever a flag is raised
   disclaimer?: string
+  // One notice per flag, in the order of `flags`
+  warnings?: string[]
+  emergencyContacts?: EmergencyContact[]
 }
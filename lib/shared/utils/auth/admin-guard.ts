@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFirebaseToken } from '@/lib/shared/utils/auth/firebase-auth';
+import { UserRoleService } from '@/lib/shared/data/services/user-role-service';
+import { AdminAuditService } from '@/lib/shared/data/services/admin-audit-service';
+
+export interface AdminRequestContext {
+  user: { id: string; email: string };
+  // Extra fields stored with the audit entry for this request
+  setAuditDetails: (details: Record<string, any>) => void;
+}
+
+type AdminRouteHandler<C> = (
+  request: NextRequest,
+  context: C,
+  admin: AdminRequestContext
+) => Promise<Response>;
+
+/**
+ * A user is an admin if their ID token carries an `admin: true` (or
+ * `roles: ['admin']`) custom claim, or if roles/{uid} lists "admin".
+ */
+export async function isAdminUser(uid: string, claims?: Record<string, any>): Promise<boolean> {
+  if (claims?.admin === true) return true;
+  if (Array.isArray(claims?.roles) && claims.roles.includes('admin')) return true;
+  return new UserRoleService().hasRole(uid, 'admin');
+}
+
+/**
+ * Wraps an /api/admin route handler: 401 without a valid Firebase ID token,
+ * 403 for non-admins. Denied attempts and every non-GET request are written
+ * to the admin audit log under `action`.
+ */
+export function withAdminAuth<C = unknown>(action: string, handler: AdminRouteHandler<C>) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const auth = await validateFirebaseToken(request);
+    if (!auth.user) {
+      return NextResponse.json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const auditService = new AdminAuditService();
+    const auditEntry = {
+      action,
+      uid: auth.user.id,
+      email: auth.user.email || null,
+      method: request.method,
+      path: request.nextUrl.pathname,
+    };
+
+    if (!(await isAdminUser(auth.user.id, auth.claims))) {
+      await auditService.record({ ...auditEntry, outcome: 'denied', status: 403, details: null });
+      return NextResponse.json({ ok: false, error: 'Forbidden' }, { status: 403 });
+    }
+
+    let details: Record<string, any> | null = null;
+    const response = await handler(request, context, {
+      user: auth.user,
+      setAuditDetails: (extra) => {
+        details = { ...details, ...extra };
+      },
+    });
+
+    // Reads such as job polling aren't actions worth auditing
+    if (request.method !== 'GET') {
+      await auditService.record({ ...auditEntry, outcome: 'allowed', status: response.status, details });
+    }
+
+    return response;
+  };
+}
@@ -1,10 +1,18 @@
 import { NextRequest } from 'next/server';
-import { extractUserIdFromToken, isTokenExpired } from '@/lib/shared/utils/token-validation';
+import {
+  extractUserIdFromToken,
+  isTestTokenMode,
+  isTokenExpired,
+  verifyFirebaseIdToken,
+  type FirebaseTokenPayload,
+} from '@/lib/shared/utils/token-validation';
 
 export interface AuthResult {
   user: { id: string; email: string } | null;
   error: string | null;
   accessToken: string | undefined;
+  // Decoded token payload, including custom claims such as `admin`
+  claims?: Record<string, any>;
 }
 
 export async function validateFirebaseToken(request: NextRequest): Promise<AuthResult> {
@@ -29,7 +37,10 @@ export async function validateFirebaseToken(request: NextRequest): Promise<AuthR
       return { user: null, error: 'Invalid token format', accessToken: undefined };
     }
     
-   
+    // Test-signed tokens are unknown to the Admin SDK
+    if (isTestTokenMode()) {
+      return verifiedResult(await verifyFirebaseIdToken(token), token);
+    }
     
     // Try to verify with Firebase Admin SDK in production
     try {
@@ -40,16 +51,26 @@ export async function validateFirebaseToken(request: NextRequest): Promise<AuthR
         return { 
           user: { id: decodedToken.uid, email: decodedToken.email! }, 
           error: null, 
-          accessToken: token 
+          accessToken: token,
+          claims: decodedToken
         };
       }
     } catch (adminError) {
       console.error('Firebase Admin SDK error:', adminError);
+      return { user: null, error: 'Firebase token validation failed', accessToken: undefined };
     }
     
-    return { user: null, error: 'Firebase token validation failed', accessToken: undefined };
+    // Without the Admin SDK, check the signature against Google's public keys
+    return verifiedResult(await verifyFirebaseIdToken(token), token);
   } catch (error) {
     console.error('Firebase token validation error:', error);
     return { user: null, error: 'Token validation failed', accessToken: undefined };
   }
 }
+
+function verifiedResult(claims: FirebaseTokenPayload | null, token: string): AuthResult {
+  if (!claims) {
+    return { user: null, error: 'Firebase token validation failed', accessToken: undefined };
+  }
+  return { user: { id: claims.uid, email: claims.email! }, error: null, accessToken: token, claims };
+}
@@ -2,15 +2,28 @@
  * Utility functions for setting cookies that work with Next.js middleware
  */
 
+// Seconds until the ID token expires; 0 when it can't be read
+function tokenLifetime(token: string): number {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')))
+    return Math.max(0, Math.floor(payload.exp - Date.now() / 1000))
+  } catch {
+    return 0
+  }
+}
+
+// The cookie expires with the ID token (one hour); AuthProvider writes each refreshed token
 export function setAuthCookie(token: string) {
+  const maxAge = tokenLifetime(token)
+
   // Set cookie with proper attributes for middleware
-  const cookieValue = `firebase_token=${token}; path=/; max-age=86400; samesite=strict`
+  const cookieValue = `firebase_token=${token}; path=/; max-age=${maxAge}; samesite=strict`
   
   // Set the cookie
   document.cookie = cookieValue
   
   // Also try setting it with different attributes for better compatibility
-  document.cookie = `firebase_token=${token}; path=/; max-age=86400`
+  document.cookie = `firebase_token=${token}; path=/; max-age=${maxAge}`
   
   // Set a flag to indicate auth is complete
   localStorage.setItem('auth_complete', 'true')
@@ -0,0 +1,71 @@
+// Minimal RFC 4180 CSV: quoted fields may contain delimiters, quotes ("") and line breaks
+
+// Spreadsheets set to a Swiss or German locale save with semicolons
+export function detectDelimiter(text: string): ',' | ';' {
+  const header = text.slice(0, text.search(/\r?\n|$/))
+  return header.split(';').length > header.split(',').length ? ';' : ','
+}
+
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  // Strip the byte-order mark Excel writes
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Blank lines carry no record
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''))
+}
+
+// Spreadsheets run cells starting with one of these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/
+
+// A leading quote makes spreadsheets show such a cell as text; the quote itself is not displayed
+export function escapeFormula(cell: string): string {
+  return FORMULA_START.test(cell) ? `'${cell}` : cell
+}
+
+// Undoes escapeFormula for files edited outside a spreadsheet, which keep the quote
+export function unescapeFormula(cell: string): string {
+  return cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell
+}
+
+// Cells that would run as formulas are escaped, so exports are safe to open in a spreadsheet
+export function toCsv(rows: string[][], delimiter: string = ','): string {
+  const quote = (cell: string) =>
+    cell.includes(delimiter) || /["\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+  return rows.map((cells) => cells.map((cell) => quote(escapeFormula(cell))).join(delimiter)).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,18 @@
+/**
+ * Helpers for reading chunk metadata written at ingestion time
+ */
+
+// Page number from loader metadata; Pinecone returns nested keys flattened ("loc.pageNumber")
+export function getPageNumber(metadata: Record<string, any> = {}): number {
+  return metadata.loc?.pageNumber || metadata["loc.pageNumber"] || metadata.page || 0;
+}
+
+// Statute reference such as "Art. 336c Abs. 1 OR", or null for chunks outside an article
+export function formatArticleReference(metadata: Record<string, any> = {}): string | null {
+  if (!metadata.article) return null;
+
+  const parts = [`Art. ${metadata.article}`];
+  if (metadata.paragraph) parts.push(`Abs. ${metadata.paragraph}`);
+  if (metadata.documentShortTitle) parts.push(metadata.documentShortTitle);
+  return parts.join(" ");
+}
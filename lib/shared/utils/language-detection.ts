@@ -0,0 +1,91 @@
+import type { LanguageCode } from '@/lib/shared/types/corpus'
+
+export const SUPPORTED_LANGUAGES: LanguageCode[] = ['de', 'fr', 'it', 'en']
+
+// English names, for instructing the LLM
+export const LANGUAGE_NAMES: Record<LanguageCode, string> = {
+  de: 'German',
+  fr: 'French',
+  it: 'Italian',
+  en: 'English'
+}
+
+// Frequent function words and greetings that are (nearly) unique to one language.
+// English "or" is left out: it is also the abbreviation of the Code of Obligations
+const LANGUAGE_MARKERS: Record<LanguageCode, string[]> = {
+  de: [
+    'der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'mein', 'meine', 'mit', 'ein', 'eine', 'einen',
+    'auf', 'für', 'wie', 'was', 'wer', 'kann', 'muss', 'darf', 'habe', 'hat', 'wird', 'werden', 'oder',
+    'bei', 'nach', 'wenn', 'auch', 'noch', 'welche', 'gilt', 'hallo', 'grüezi', 'danke', 'guten'
+  ],
+  fr: [
+    'le', 'les', 'une', 'est', 'et', 'je', 'mon', 'ma', 'mes', 'pour', 'avec', 'dans', 'pas', 'que',
+    'qui', 'quel', 'quelle', 'comment', 'puis', 'dois', 'peut', 'sont', 'ou', 'du', 'au', 'aux', 'ce',
+    'cette', 'mais', 'si', 'bonjour', 'salut', 'merci', 'vous', 'nous'
+  ],
+  it: [
+    'il', 'lo', 'gli', 'della', 'delle', 'che', 'di', 'non', 'sono', 'mio', 'mia', 'miei', 'per', 'con',
+    'una', 'uno', 'come', 'cosa', 'quale', 'posso', 'devo', 'può', 'anche', 'nel', 'nella', 'dal', 'dei',
+    'ma', 'se', 'ciao', 'buongiorno', 'grazie', 'ho', 'ha'
+  ],
+  en: [
+    'the', 'and', 'is', 'are', 'not', 'my', 'with', 'for', 'what', 'how', 'can', 'must', 'may', 'have',
+    'has', 'will', 'does', 'do', 'which', 'who', 'when', 'if', 'this', 'that', 'of', 'to', 'it',
+    'hi', 'hello', 'hey', 'thanks', 'you', 'we'
+  ]
+}
+
+// Letters and apostrophes that only occur in one of the languages. French counts only
+// elisions ("l'employeur", "qu'il"), English only contractions, so "What's my notice
+// period?" and "I'm being evicted, can't pay rent" are English, not French.
+const LETTER_MARKERS: [RegExp, LanguageCode][] = [
+  [/[äöüß]/, 'de'],
+  [/[çœêëîïôû]|\b(?:l|d|j|qu|n|s|c|m|t)['’]\p{L}/u, 'fr'],
+  [/[ìò]|\b(?:perché|più|già|città)\b/, 'it'],
+  [/\b\p{L}+['’](?:s|t|m|re|ve|ll|d)\b/u, 'en']
+]
+
+/**
+ * Guesses the language of a question from its function words and letters.
+ * Returns null when there is no clear winner, e.g. for "Art. 271 OR?".
+ */
+export function detectLanguage(text: string): LanguageCode | null {
+  const lower = text.toLowerCase()
+  const words = lower.match(/[\p{L}']+/gu) || []
+
+  const scores: Record<LanguageCode, number> = { de: 0, fr: 0, it: 0, en: 0 }
+  for (const word of words) {
+    for (const language of SUPPORTED_LANGUAGES) {
+      if (LANGUAGE_MARKERS[language].includes(word)) scores[language] += 1
+    }
+  }
+  for (const [pattern, language] of LETTER_MARKERS) {
+    if (pattern.test(lower)) scores[language] += 2
+  }
+
+  const ranked = SUPPORTED_LANGUAGES.slice().sort((a, b) => scores[b] - scores[a])
+  const [best, second] = ranked
+  return scores[best] > 0 && scores[best] > scores[second] ? best : null
+}
+
+/**
+ * The language to answer a question in: its own, else that of the latest
+ * earlier message with a known language, else the fallback.
+ */
+export function resolveQuestionLanguage(
+  question: string,
+  conversationMessages: { language?: LanguageCode | null; createdAt?: Date | string }[] = [],
+  fallback: LanguageCode = 'de'
+): LanguageCode {
+  const detected = detectLanguage(question)
+  if (detected) return detected
+
+  const previous = conversationMessages
+    .filter((message) => message.language)
+    .sort((a, b) => {
+      const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0
+      const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0
+      return dateB - dateA
+    })[0]
+  return previous?.language || fallback
+}
@@ -0,0 +1,159 @@
+import type { EnhancedSource, MessageBlock } from "@/lib/shared/types/llm-response";
+
+type CalloutKind = Extract<MessageBlock, { type: "callout" }>["kind"];
+
+// GitHub alert markers the answer prompt asks for, e.g. "> [!WARNING]"
+const CALLOUT_KINDS: Record<string, CalloutKind> = {
+  NOTE: "info",
+  INFO: "info",
+  TIP: "success",
+  IMPORTANT: "warning",
+  WARNING: "warning",
+  CAUTION: "warning",
+};
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const FENCE = /^\s*```/;
+const HEADING = /^#{1,6}\s/;
+// [n] but not a markdown link like [1](url)
+const CITATION_MARKER = /\[(\d+)\](?!\()/;
+
+/**
+ * Splits a markdown answer into message blocks: blockquotes become quotes
+ * (tied to the first source they cite) or callouts ("> [!WARNING]"), pipe
+ * tables become tables, top-level lists become lists and everything else
+ * stays markdown paragraphs. Blocks keep their [n] citation markers.
+ */
+export function parseMessageBlocks(markdown: string, sources: EnhancedSource[] = []): MessageBlock[] {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  const blocks: MessageBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    const md = paragraph.join("\n").trim();
+    if (md) blocks.push({ type: "paragraph", md });
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // Fenced code stays in the current paragraph, whatever it contains
+    if (FENCE.test(line)) {
+      const end = findFenceEnd(lines, i);
+      paragraph.push(...lines.slice(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+
+    if (line.trim() === "") {
+      flushParagraph();
+      i++;
+      continue;
+    }
+
+    if (HEADING.test(line)) {
+      flushParagraph();
+      blocks.push({ type: "paragraph", md: line.trim() });
+      i++;
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) {
+        quoted.push(lines[i].replace(/^\s*>\s?/, ""));
+        i++;
+      }
+      blocks.push(toQuoteBlock(quoted, sources));
+      continue;
+    }
+
+    if (line.includes("|") && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      flushParagraph();
+      const headers = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes("|") && lines[i].trim() !== "") {
+        const cells = splitTableRow(lines[i]);
+        rows.push(headers.map((_, column) => cells[column] ?? ""));
+        i++;
+      }
+      blocks.push({ type: "table", headers, rows });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item && item[1] === "") {
+      flushParagraph();
+      const ordered = /\d/.test(item[2]);
+      const isSameListItem = (text: string | undefined) => {
+        const match = text?.match(LIST_ITEM);
+        return Boolean(match && match[1] === "" && /\d/.test(match[2]) === ordered);
+      };
+
+      const items: string[] = [];
+      while (i < lines.length) {
+        const current = lines[i];
+        if (isSameListItem(current)) {
+          items.push(current.match(LIST_ITEM)![3]);
+        } else if (/^\s+\S/.test(current)) {
+          // Nested items and continuation lines belong to the item above
+          items[items.length - 1] += `\n${current}`;
+        } else if (current.trim() === "" && isSameListItem(lines[i + 1])) {
+          // A blank line between items doesn't end the list
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push(ordered ? { type: "list", items, ordered } : { type: "list", items });
+      continue;
+    }
+
+    paragraph.push(line);
+    i++;
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+// Whether the blocks say more than the markdown itself, i.e. aren't all plain paragraphs
+export function hasStructuredBlocks(blocks: MessageBlock[]): boolean {
+  return blocks.some((block) => block.type !== "paragraph");
+}
+
+function toQuoteBlock(lines: string[], sources: EnhancedSource[]): MessageBlock {
+  const alert = lines[0]?.trim().match(/^\[!(\w+)\]\s*(.*)$/);
+  const kind = alert ? CALLOUT_KINDS[alert[1].toUpperCase()] : undefined;
+  if (alert && kind) {
+    return { type: "callout", kind, md: [alert[2], ...lines.slice(1)].join("\n").trim() };
+  }
+
+  const md = lines.join("\n").trim();
+  const marker = md.match(CITATION_MARKER);
+  const source = marker ? sources[parseInt(marker[1], 10) - 1] : undefined;
+  // Firestore rejects undefined fields, so sourceId is left out rather than undefined
+  return source ? { type: "quote", md, sourceId: source.id } : { type: "quote", md };
+}
+
+// Cells of a "| a | b |" row; escaped pipes (\|) stay inside their cell
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim());
+}
+
+function findFenceEnd(lines: string[], start: number): number {
+  for (let i = start + 1; i < lines.length; i++) {
+    if (FENCE.test(lines[i])) return i;
+  }
+  return lines.length - 1;
+}
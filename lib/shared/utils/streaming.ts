@@ -1,45 +1,116 @@
 import type { AssistantResponseV2 } from '@/lib/shared/types/llm-response'
 
+export type StreamEventType = 'token' | 'metadata' | 'complete' | 'error'
+
+export interface StreamWriter {
+  token: (token: string) => void
+  metadata: (metadata: any) => void
+  complete: (data: AssistantResponseV2) => void
+  error: (error: string) => void
+  // True once the client has disconnected; later events are dropped
+  readonly aborted: boolean
+}
+
 export class StreamingResponse {
+  static readonly headers: HeadersInit = {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive'
+  }
+
   static createStream(
-    onToken: (token: string) => void,
-    onComplete: (data: AssistantResponseV2) => void,
-    onError?: (error: string) => void
+    run: (writer: StreamWriter) => Promise<void>
   ): ReadableStream {
+    let closed = false
+    let aborted = false
+
     return new ReadableStream({
       start(controller) {
         const encoder = new TextEncoder()
-        
-        const sendEvent = (event: string, data: any) => {
+
+        const sendEvent = (event: StreamEventType, data: any) => {
+          if (closed) return
           const eventData = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
-          controller.enqueue(encoder.encode(eventData))
+          try {
+            controller.enqueue(encoder.encode(eventData))
+          } catch {
+            // The stream was torn down without cancel()
+            closed = true
+            aborted = true
+          }
         }
 
-        // Store the callbacks for external use
-        (controller as any).onToken = (token: string) => {
-          sendEvent('token', { token })
-          onToken(token)
+        const close = () => {
+          if (closed) return
+          closed = true
+          controller.close()
         }
 
-        (controller as any).onMetadata = (metadata: any) => {
-          sendEvent('metadata', metadata)
+        const writer: StreamWriter = {
+          token: (token: string) => sendEvent('token', { token }),
+          metadata: (metadata: any) => sendEvent('metadata', metadata),
+          complete: (data: AssistantResponseV2) => {
+            sendEvent('complete', data)
+            close()
+          },
+          error: (error: string) => {
+            sendEvent('error', { error })
+            close()
+          },
+          get aborted() {
+            return aborted
+          }
         }
 
-        (controller as any).onComplete = (data: AssistantResponseV2) => {
-          sendEvent('complete', data)
-          onComplete(data)
-          controller.close()
-        }
+        // Don't block start() on the producer so events flush as they are enqueued
+        run(writer)
+          .catch((error) => {
+            console.error('Error in stream producer:', error)
+            writer.error(error instanceof Error ? error.message : 'Stream failed')
+          })
+          .finally(close)
+      },
 
-        (controller as any).onError = (error: string) => {
-          sendEvent('error', { error })
-          onError?.(error)
-          controller.close()
-        }
+      // The client disconnected
+      cancel() {
+        closed = true
+        aborted = true
       }
     })
   }
 
+  static toResponse(stream: ReadableStream): Response {
+    return new Response(stream, { headers: StreamingResponse.headers })
+  }
+
+  static async consume(
+    body: ReadableStream<Uint8Array>,
+    onEvent: (event: { type: string; data: any }) => void
+  ): Promise<void> {
+    const reader = body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const events = buffer.split('\n\n')
+      buffer = events.pop() || ''
+
+      for (const raw of events) {
+        const event = StreamingResponse.parseStreamEvent(raw)
+        if (event) onEvent(event)
+      }
+    }
+
+    if (buffer.trim()) {
+      const event = StreamingResponse.parseStreamEvent(buffer)
+      if (event) onEvent(event)
+    }
+  }
+
   static parseStreamEvent(event: string): { type: string; data: any } | null {
     try {
       const lines = event.split('\n')
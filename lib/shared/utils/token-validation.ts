@@ -1,66 +1,262 @@
 /**
  * Token validation utilities for Firebase authentication
+ *
+ * Verification only uses fetch and Web Crypto, so it runs in the edge
+ * middleware as well as in Node route handlers.
  */
 
-// Token validation utilities for Firebase authentication
+// Google's Firebase ID token signing keys, published as a JWK set
+const GOOGLE_JWKS_URL =
+  'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+
+// Used when the JWK response has no usable Cache-Control max-age
+const DEFAULT_KEY_CACHE_SECONDS = 3600;
+
+export interface FirebaseTokenPayload {
+  uid: string;
+  email?: string;
+  email_verified?: boolean;
+  iss: string;
+  aud: string;
+  sub: string;
+  iat: number;
+  exp: number;
+  auth_time: number;
+  [claim: string]: any;
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+  typ?: string;
+}
+
+let cachedKeys: { keys: Map<string, CryptoKey>; expiresAt: number } | null = null;
+let pendingKeys: Promise<Map<string, CryptoKey>> | null = null;
+
+function getProjectId(): string | undefined {
+  return process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_PROJECT_ID;
+}
 
 /**
- * Validates a Firebase ID token
- * @param token - The Firebase ID token to validate
- * @returns Promise<boolean> - True if token is valid, false otherwise
+ * Emulator/test mode: tokens are HS256-signed with FIREBASE_AUTH_TEST_SIGNING_KEY
+ * instead of Google's RS256 keys. Never enabled in production builds.
  */
-export async function validateFirebaseToken(token: string): Promise<boolean> {
-  try {
+function getTestSigningKey(): string | null {
+  const key = process.env.FIREBASE_AUTH_TEST_SIGNING_KEY;
+  if (!key) return null;
+  if (process.env.NODE_ENV === 'production') {
+    console.error('FIREBASE_AUTH_TEST_SIGNING_KEY is ignored in production');
+    return null;
+  }
+  return key;
+}
 
-    return true;
-    if (!token || token.length < 100) {
-      console.log('Invalid token: too short or empty');
-      return false;
-    }
+export function isTestTokenMode(): boolean {
+  return getTestSigningKey() !== null;
+}
 
-    // Check if token has proper JWT format (3 parts separated by dots)
-    const tokenParts = token.split('.');
-    if (tokenParts.length !== 3) {
-      console.log('Invalid token: not a valid JWT format');
-      return false;
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeJson<T>(segment: string): T {
+  return JSON.parse(new TextDecoder().decode(base64UrlToBytes(segment)));
+}
+
+function getMaxAge(cacheControl: string | null): number {
+  const match = cacheControl?.match(/max-age=(\d+)/);
+  return match ? parseInt(match[1], 10) : DEFAULT_KEY_CACHE_SECONDS;
+}
+
+async function fetchGooglePublicKeys(): Promise<Map<string, CryptoKey>> {
+  const response = await fetch(GOOGLE_JWKS_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Firebase signing keys: ${response.status}`);
+  }
+
+  const { keys } = (await response.json()) as { keys: (JsonWebKey & { kid: string })[] };
+  const imported = new Map<string, CryptoKey>();
+  for (const jwk of keys) {
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      jwk,
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    imported.set(jwk.kid, key);
+  }
+
+  cachedKeys = {
+    keys: imported,
+    expiresAt: Date.now() + getMaxAge(response.headers.get('cache-control')) * 1000,
+  };
+  return imported;
+}
+
+// Keys are cached for as long as Google's Cache-Control allows, and concurrent
+// requests share a single fetch
+async function getGooglePublicKeys(): Promise<Map<string, CryptoKey>> {
+  if (cachedKeys && cachedKeys.expiresAt > Date.now()) {
+    return cachedKeys.keys;
+  }
+  if (!pendingKeys) {
+    pendingKeys = fetchGooglePublicKeys().finally(() => {
+      pendingKeys = null;
+    });
+  }
+  return pendingKeys;
+}
+
+async function importHmacKey(secret: string, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+}
+
+async function verifySignature(header: JwtHeader, signingInput: string, signature: string): Promise<boolean> {
+  const data = new TextEncoder().encode(signingInput);
+  const signatureBytes = base64UrlToBytes(signature);
+
+  const testKey = getTestSigningKey();
+  if (testKey) {
+    if (header.alg !== 'HS256') return false;
+    const key = await importHmacKey(testKey, 'verify');
+    return crypto.subtle.verify('HMAC', key, signatureBytes, data);
+  }
+
+  if (header.alg !== 'RS256' || !header.kid) return false;
+  const keys = await getGooglePublicKeys();
+  const key = keys.get(header.kid);
+  if (!key) {
+    console.log('Invalid token: unknown signing key');
+    return false;
+  }
+  return crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signatureBytes, data);
+}
+
+/**
+ * Verifies a Firebase ID token's signature, issuer, audience, subject and
+ * lifetime, following https://firebase.google.com/docs/auth/admin/verify-id-tokens
+ * @param token - The Firebase ID token to verify
+ * @returns Promise<FirebaseTokenPayload | null> - The verified claims, or null if invalid
+ */
+export async function verifyFirebaseIdToken(token: string): Promise<FirebaseTokenPayload | null> {
+  try {
+    const projectId = getProjectId();
+    if (!projectId) {
+      console.error('Cannot verify Firebase token: NEXT_PUBLIC_PROJECT_ID is not set');
+      return null;
     }
 
-    // In development, if we have a properly formatted token, allow it
-    if (process.env.NODE_ENV === 'development') {
-      console.log('Development mode: allowing token without verification');
-      return true;
+    const parts = token?.split('.') || [];
+    if (parts.length !== 3) {
+      console.log('Invalid token: not a valid JWT format');
+      return null;
     }
 
-    // Try to verify with Firebase Admin SDK
-    try {
-      const { adminAuth } = await import('@/lib/shared/core/admin-config');
-      
-      // if (!adminAuth || typeof adminAuth.verifyIdToken !== 'function') {
-      //   console.warn('Firebase Admin SDK not available, allowing token in development');
-      //   return process.env.NODE_ENV === 'development';
-      // }
+    const [encodedHeader, encodedPayload, signature] = parts;
+    const header = decodeJson<JwtHeader>(encodedHeader);
+    const payload = decodeJson<FirebaseTokenPayload>(encodedPayload);
 
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof payload.exp !== 'number' || payload.exp <= now) {
+      console.log('Invalid token: expired');
+      return null;
+    }
+    if (typeof payload.iat !== 'number' || payload.iat > now) {
+      console.log('Invalid token: issued in the future');
+      return null;
+    }
+    if (typeof payload.auth_time !== 'number' || payload.auth_time > now) {
+      console.log('Invalid token: authenticated in the future');
+      return null;
+    }
+    if (payload.aud !== projectId || payload.iss !== `https://securetoken.google.com/${projectId}`) {
+      console.log('Invalid token: wrong audience or issuer');
+      return null;
+    }
+    if (typeof payload.sub !== 'string' || payload.sub.length === 0 || payload.sub.length > 128) {
+      console.log('Invalid token: missing subject');
+      return null;
+    }
 
-      // const decodedToken = await adminAuth.verifyIdToken(token);
-      // console.log('Token verified successfully for user:', decodedToken.uid);
-      return true;
-    } catch (adminError) {
-      console.error('Firebase Admin verification failed:', adminError);
-      
-      // // In development, allow token even if admin verification fails
-      // if (process.env.NODE_ENV === 'development') {
-      //   console.log('Development mode: allowing token despite admin verification failure');
-      //   return true;
-      // }
-      
-      return false;
+    if (!(await verifySignature(header, `${encodedHeader}.${encodedPayload}`, signature))) {
+      console.log('Invalid token: bad signature');
+      return null;
     }
+
+    return { ...payload, uid: payload.sub };
   } catch (error) {
     console.error('Token validation error:', error);
-    return false;
+    return null;
   }
 }
 
+/**
+ * Validates a Firebase ID token
+ * @param token - The Firebase ID token to validate
+ * @returns Promise<boolean> - True if token is valid, false otherwise
+ */
+export async function validateFirebaseToken(token: string): Promise<boolean> {
+  return (await verifyFirebaseIdToken(token)) !== null;
+}
+
+/**
+ * Mints an ID token accepted in test mode, for local development and tests
+ * @param claims - At least `sub`; standard claims default to a one hour token
+ * @returns Promise<string> - An HS256 token signed with FIREBASE_AUTH_TEST_SIGNING_KEY
+ */
+export async function createTestFirebaseToken(
+  claims: { sub: string; email?: string; [claim: string]: any }
+): Promise<string> {
+  const secret = getTestSigningKey();
+  const projectId = getProjectId();
+  if (!secret || !projectId) {
+    throw new Error('Test tokens need FIREBASE_AUTH_TEST_SIGNING_KEY and NEXT_PUBLIC_PROJECT_ID');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const encoder = new TextEncoder();
+  const header = bytesToBase64Url(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const payload = bytesToBase64Url(
+    encoder.encode(
+      JSON.stringify({
+        iss: `https://securetoken.google.com/${projectId}`,
+        aud: projectId,
+        iat: now,
+        auth_time: now,
+        exp: now + 3600,
+        ...claims,
+      })
+    )
+  );
+
+  const key = await importHmacKey(secret, 'sign');
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${header}.${payload}`));
+  return `${header}.${payload}.${bytesToBase64Url(new Uint8Array(signature))}`;
+}
+
 /**
  * Extracts user ID from a Firebase token (without verification)
  * @param token - The Firebase ID token
@@ -73,7 +269,7 @@ export function extractUserIdFromToken(token: string): string | null {
     }
 
     // Decode the payload (second part of JWT)
-    const payload = JSON.parse(atob(token.split('.')[1]));
+    const payload = decodeJson<Record<string, any>>(token.split('.')[1]);
     return payload.uid || payload.sub || null;
   } catch (error) {
     console.error('Error extracting user ID from token:', error);
@@ -92,9 +288,9 @@ export function isTokenExpired(token: string): boolean {
       return true;
     }
 
-    const payload = JSON.parse(atob(token.split('.')[1]));
+    const payload = decodeJson<Record<string, any>>(token.split('.')[1]);
     const exp = payload.exp;
-    
+
     if (!exp) {
       return true;
     }
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { ZodSchema, ZodError } from 'zod'
+import { ZodType, ZodTypeDef, ZodError } from 'zod'
+
+// Typed by the parsed output, which differs from the input for schemas with defaults or preprocessing
+type ZodSchema<T> = ZodType<T, ZodTypeDef, any>
 
 export interface ValidationError {
   field: string
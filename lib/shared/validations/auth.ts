@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { LOCALES } from '@/lib/shared/i18n/config'
 
 // Login validation schema
 export const loginSchema = z.object({
@@ -31,7 +32,8 @@ export const resendOtpSchema = z.object({
 export const profileUpdateSchema = z.object({
   username: z.string().min(3, 'Username must be at least 3 characters').max(50, 'Username must be less than 50 characters').optional(),
   full_name: z.string().min(2, 'Full name must be at least 2 characters').max(100, 'Full name must be less than 100 characters').optional(),
-  avatar_url: z.string().url('Invalid avatar URL').optional()
+  avatar_url: z.string().url('Invalid avatar URL').optional(),
+  locale: z.enum(LOCALES).optional()
 })
 
 export type LoginInput = z.infer<typeof loginSchema>
@@ -0,0 +1,35 @@
+import { z } from 'zod'
+
+const MAX_EXCERPTS = 20
+
+// Consultation request schema; the excerpts are the conversation messages the user chose to share
+export const consultationRequestSchema = z.object({
+  lawyerId: z.string().min(1, 'Lawyer is required'),
+  conversationId: z.string().min(1).optional().nullable(),
+  message: z.string().trim().max(2000, 'Message must be less than 2000 characters').default(''),
+  phone: z.string().trim().max(30, 'Phone must be less than 30 characters').optional().nullable(),
+  excerpts: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string().trim().min(1).max(10000, 'Excerpt must be less than 10000 characters')
+  })).max(MAX_EXCERPTS, `At most ${MAX_EXCERPTS} messages can be shared`).default([]),
+  language: z.enum(['de', 'fr', 'it', 'en']).default('de')
+}).refine((request) => request.message || request.excerpts.length > 0, {
+  message: 'Write a message or share part of the conversation',
+  path: ['message']
+})
+
+// The user can only close their own request
+export const consultationUpdateSchema = z.object({
+  status: z.literal('closed', { errorMap: () => ({ message: 'Status can only be set to closed' }) })
+})
+
+// The lawyer's answer through the secret link in their email
+export const consultationResponseSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  status: z.enum(['accepted', 'declined'], { errorMap: () => ({ message: 'Status must be accepted or declined' }) }),
+  reply: z.string().trim().max(1000, 'Reply must be less than 1000 characters').optional()
+})
+
+export type ConsultationRequestInput = z.infer<typeof consultationRequestSchema>
+export type ConsultationUpdateInput = z.infer<typeof consultationUpdateSchema>
+export type ConsultationResponseInput = z.infer<typeof consultationResponseSchema>
@@ -1,9 +1,40 @@
 import { z } from 'zod'
+import { CANTONS } from '@/lib/shared/types/canton'
 
-// Lawyer search validation schema
+const languageSchema = z.enum(['de', 'fr', 'it', 'en'])
+
+// Empty form, CSV and query string fields mean "not set"
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (value === '' ? undefined : value), schema.optional())
+
+const postcodeSchema = z.string().trim().regex(/^\d{4}$/, 'Postcode must be a four-digit Swiss postcode')
+
+// Lawyer search validation schema; all values arrive as query string parameters
 export const lawyerSearchSchema = z.object({
-  q: z.string().min(1, 'Search query is required').max(100, 'Search query must be less than 100 characters').optional()
+  q: z.string().min(1, 'Search query is required').max(100, 'Search query must be less than 100 characters').optional(),
+  canton: optional(z.string().toUpperCase().pipe(z.enum(CANTONS, { errorMap: () => ({ message: 'Canton must be a two-letter canton code' }) }))),
+  city: optional(z.string().trim().max(100, 'City must be less than 100 characters')),
+  postcode: optional(postcodeSchema),
+  // Around the city or postcode
+  radiusKm: optional(z.coerce.number().positive('Radius must be positive').max(300, 'Radius must be at most 300 km')),
+  language: optional(languageSchema),
+  specialty: optional(z.string().trim().max(100, 'Specialty must be less than 100 characters')),
+  minRating: optional(z.coerce.number().min(0).max(5)),
+  // true: only lawyers who take legal aid cases
+  legalAid: optional(z.enum(['true', 'false']).transform((value) => value === 'true')),
+  // Defaults to distance when a city or postcode is given
+  sort: optional(z.enum(['relevance', 'distance'])),
+  page: optional(z.coerce.number().int().min(1)),
+  pageSize: optional(z.coerce.number().int().min(1).max(50, 'Page size must be at most 50'))
 })
+  .refine((search) => search.radiusKm === undefined || search.city || search.postcode, {
+    message: 'A radius needs a city or postcode',
+    path: ['radiusKm']
+  })
+  .refine((search) => search.sort !== 'distance' || search.city || search.postcode, {
+    message: 'Sorting by distance needs a city or postcode',
+    path: ['sort']
+  })
 
 // Lawyer recommendation schema
 export const lawyerRecommendationSchema = z.object({
@@ -11,8 +42,51 @@ export const lawyerRecommendationSchema = z.object({
     role: z.enum(['user', 'assistant']),
     content: z.string()
   })),
-  userQuestion: z.string().min(1, 'User question is required')
+  userQuestion: z.string().min(1, 'User question is required'),
+  canton: z.enum(CANTONS).optional(),
+  language: languageSchema.optional(),
+  specialty: z.string().min(1).max(100, 'Specialty must be less than 100 characters').optional(),
+  limit: z.number().int().min(1).max(20).optional()
+})
+
+// A lawyer in the directory, as created by admins
+export const lawyerSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100, 'Name must be less than 100 characters'),
+  email: z.string().trim().email('Invalid email format'),
+  phone: optional(z.string().trim().max(30, 'Phone must be less than 30 characters')),
+  website: optional(z.string().trim().url('Website must be a URL')),
+  photoUrl: optional(z.string().trim().url('Photo must be a URL')),
+  specialties: z.array(z.string().trim().toLowerCase().min(1)).min(1, 'At least one specialty is required'),
+  canton: z.enum(CANTONS, { errorMap: () => ({ message: 'Canton must be a two-letter canton code' }) }),
+  address: optional(z.string().trim().max(200, 'Address must be less than 200 characters')),
+  postcode: optional(postcodeSchema),
+  city: optional(z.string().trim().max(100, 'City must be less than 100 characters')),
+  languages: z.array(languageSchema).min(1, 'At least one language is required'),
+  barRegistrationNumber: optional(z.string().trim().max(50, 'Bar registration number must be less than 50 characters')),
+  availability: optional(z.string().trim().max(100, 'Availability must be less than 100 characters')),
+  rating: optional(z.coerce.number().min(0).max(5)),
+  reviewCount: optional(z.coerce.number().int().min(0)),
+  experienceYears: optional(z.coerce.number().int().min(0).max(80)),
+  acceptsLegalAid: z.boolean().default(false),
+  active: z.boolean().default(true)
+})
+
+// Partial update; null removes an optional field
+export const lawyerUpdateSchema = lawyerSchema.partial().extend({
+  phone: lawyerSchema.shape.phone.nullable(),
+  website: lawyerSchema.shape.website.nullable(),
+  photoUrl: lawyerSchema.shape.photoUrl.nullable(),
+  address: lawyerSchema.shape.address.nullable(),
+  postcode: lawyerSchema.shape.postcode.nullable(),
+  city: lawyerSchema.shape.city.nullable(),
+  barRegistrationNumber: lawyerSchema.shape.barRegistrationNumber.nullable(),
+  availability: lawyerSchema.shape.availability.nullable(),
+  rating: lawyerSchema.shape.rating.nullable(),
+  reviewCount: lawyerSchema.shape.reviewCount.nullable(),
+  experienceYears: lawyerSchema.shape.experienceYears.nullable()
 })
 
 export type LawyerSearchInput = z.infer<typeof lawyerSearchSchema>
 export type LawyerRecommendationInput = z.infer<typeof lawyerRecommendationSchema>
+export type LawyerInput = z.infer<typeof lawyerSchema>
+export type LawyerUpdateInput = z.infer<typeof lawyerUpdateSchema>
@@ -5,13 +5,14 @@ import { validateFirebaseToken } from '@/lib/shared/utils/token-validation';
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
   
-  // Allow all API routes to pass through without authentication
+  // API routes authenticate themselves (admin routes via withAdminAuth)
   if (pathname.startsWith('/api/')) {
     return NextResponse.next();
   }
   
   // Define public routes that don't require authentication
-  const publicRoutes = ['/login', '/signup', '/verify-otp', '/error'];
+  // Lawyers answer consultation requests from an emailed link, without an account
+  const publicRoutes = ['/login', '/signup', '/verify-otp', '/error', '/consultations/respond'];
   const isPublicRoute = publicRoutes.some(route => pathname.startsWith(route));
   
   // If it's a public route, allow access
@@ -42,7 +43,7 @@ export async function middleware(request: NextRequest) {
   
   // For protected pages, check if user is authenticated
   try {
-    // Use the token validation utility
+    // Verifies signature, issuer, audience and expiry against Google's keys
     const isValidToken = await validateFirebaseToken(firebaseToken);
     
     if (isValidToken) {
@@ -52,7 +53,10 @@ export async function middleware(request: NextRequest) {
       console.log('Token validation failed, redirecting to login');
       const loginUrl = new URL('/login', request.url);
       loginUrl.searchParams.set('redirect', pathname);
-      return NextResponse.redirect(loginUrl);
+      const response = NextResponse.redirect(loginUrl);
+      // Drop the rejected cookie so it isn't re-validated on every request
+      response.cookies.delete('firebase_token');
+      return response;
     }
   } catch (error) {
     console.error('Token validation error:', error);
@@ -0,0 +1,29 @@
+import { createTestFirebaseToken } from '../lib/shared/utils/token-validation'
+
+// Mints an ID token for test mode (FIREBASE_AUTH_TEST_SIGNING_KEY set, NODE_ENV not production):
+//   npm run token:test -- <uid> [email] [--admin]
+// Send it as "Authorization: Bearer <token>" or store it in the firebase_token cookie. It is valid for an hour.
+
+async function createTestToken() {
+  const args = process.argv.slice(2)
+  const admin = args.includes('--admin')
+  const [uid, email] = args.filter(arg => !arg.startsWith('--'))
+
+  if (!uid) {
+    console.error('Usage: npm run token:test -- <uid> [email] [--admin]')
+    process.exit(1)
+  }
+
+  const token = await createTestFirebaseToken({
+    sub: uid,
+    user_id: uid,
+    ...(email && { email, email_verified: true }),
+    ...(admin && { admin: true })
+  })
+  console.log(token)
+}
+
+createTestToken().catch((error) => {
+  console.error('❌ Failed to create test token:', error)
+  process.exit(1)
+})
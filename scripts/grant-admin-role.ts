@@ -0,0 +1,40 @@
+import { adminAuth } from '../lib/shared/core/admin-config'
+
+// Grants (or with --revoke removes) the admin custom claim:
+//   npm run admin:grant -- user@example.com
+//   npm run admin:grant -- <uid> --revoke
+// Users pick up the new claim the next time their ID token is refreshed.
+
+async function grantAdminRole() {
+  const args = process.argv.slice(2)
+  const revoke = args.includes('--revoke')
+  const target = args.find(arg => !arg.startsWith('--'))
+
+  if (!target) {
+    console.error('Usage: npm run admin:grant -- <email|uid> [--revoke]')
+    process.exit(1)
+  }
+  if (!adminAuth) {
+    console.error('Firebase Admin is not initialized; set FIREBASE_SERVICE_ACCOUNT_KEY')
+    process.exit(1)
+  }
+
+  const user = target.includes('@')
+    ? await adminAuth.getUserByEmail(target)
+    : await adminAuth.getUser(target)
+
+  const claims = { ...(user.customClaims || {}) }
+  if (revoke) {
+    delete claims.admin
+  } else {
+    claims.admin = true
+  }
+  await adminAuth.setCustomUserClaims(user.uid, claims)
+
+  console.log(`${revoke ? 'Revoked' : 'Granted'} admin role for ${user.email || user.uid} (${user.uid})`)
+}
+
+grantAdminRole().catch((error) => {
+  console.error('❌ Failed to update admin role:', error)
+  process.exit(1)
+})
@@ -1,5 +1,4 @@
 import { SwissLegalService } from '../lib/features/chat/data/services/swiss-legal-service'
-import { join } from 'path'
 
 // Environment variables should be provided by the shell or process manager
 
@@ -8,34 +7,42 @@ async function ingestDocuments() {
   
   // Debug environment variables
   console.log('Environment variables:')
+  console.log('VECTOR_STORE:', process.env.VECTOR_STORE || 'pinecone')
   console.log('PINECONE_API_KEY:', process.env.PINECONE_API_KEY ? 'Set' : 'Not set')
+  console.log('LLM_PROVIDER:', process.env.LLM_PROVIDER || 'openai')
+  console.log('EMBEDDING_PROVIDER:', process.env.EMBEDDING_PROVIDER || process.env.LLM_PROVIDER || 'openai')
   console.log('OPENAI_API_KEY:', process.env.OPENAI_API_KEY ? 'Set' : 'Not set.')
 
   // Initialize the Swiss Legal Service
   const legalService = new SwissLegalService({
-    llmModel: process.env.OPENAI_LLM_MODEL || 'gpt-4o-mini',
-    embedModel: process.env.OPENAI_EMBED_MODEL || 'text-embedding-3-small',
+    llmModel: process.env.LLM_MODEL || process.env.OPENAI_LLM_MODEL || 'gpt-4o-mini',
+    embedModel: process.env.EMBED_MODEL || process.env.OPENAI_EMBED_MODEL || 'text-embedding-3-small',
     pineconeApiKey: process.env.PINECONE_API_KEY || '',
     indexName: process.env.PINECONE_INDEX || 'swiss-legal-openai-1536',
     domainKeywords: [],
     domainName: 'Swiss Legal System',
-    documentPath: './public/docs/swiss_legal.pdf',
     chunkSize: 1200,
     chunkOverlap: 300
   })
 
   try {
-    // Check if the PDF file exists
-    const pdfPath = join(process.cwd(), 'public/docs/swiss_legal.pdf')
+    // Optionally restrict to some registry entries by id, e.g. the ZGB and the OR: npm run ingest -- zgb or
+    // Pass --force to re-embed chunks whose content hasn't changed
+    const args = process.argv.slice(2)
+    const force = args.includes('--force')
+    const documentIds = args.filter(arg => !arg.startsWith('--'))
+    console.log('Documents:', documentIds.length > 0 ? documentIds.join(', ') : 'all registered')
     
-    console.log('Looking for PDF at:', pdfPath)
-    
-    // Process the actual PDF document
-    const pdfResult = await legalService.processDocument()
+    // Process the registered PDF documents
+    const pdfResult = await legalService.processDocument(undefined, {
+      documentIds: documentIds.length > 0 ? documentIds : undefined,
+      force
+    })
     
     if (pdfResult.success) {
       console.log('✅ Document processing completed successfully!')
-      console.log(`📊 Stats: ${pdfResult.stats.totalChunks} chunks, ${pdfResult.stats.totalPages} pages`)
+      console.log(`📊 Stats: ${pdfResult.stats.totalDocuments} documents, ${pdfResult.stats.totalChunks} chunks, ${pdfResult.stats.totalPages} pages`)
+      console.log(`🔄 Changes: ${pdfResult.stats.added} added, ${pdfResult.stats.updated} updated, ${pdfResult.stats.deleted} deleted, ${pdfResult.stats.unchanged} unchanged`)
       console.log(`⏱️ Processing time: ${pdfResult.stats.processingTime}ms`)
     } else {
       console.error('❌ Document processing failed:', pdfResult.message)
@@ -146,6 +153,7 @@ Swiss family law emphasizes the best interests of the child in all custody and s
       console.log('✅ Document ingestion completed successfully!')
       console.log(`📊 Statistics:`)
       console.log(`   - Total chunks: ${result.stats.totalChunks}`)
+      console.log(`   - Added/updated/deleted: ${result.stats.added}/${result.stats.updated}/${result.stats.deleted}`)
       console.log(`   - Total pages: ${result.stats.totalPages}`)
       console.log(`   - Processing time: ${result.stats.processingTime}ms`)
     } else {
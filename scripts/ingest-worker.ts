@@ -0,0 +1,40 @@
+import { IngestionJobService } from '../lib/shared/data/services/ingestion-job-service'
+import { runIngestionJob } from '../lib/features/chat/data/services/ingestion-runner'
+
+// Runs the jobs queued by POST /api/admin/ingest outside the web server, so they have no time limit.
+// Start it next to the app: npm run ingest:worker
+// Pass --once to run the jobs queued now and exit, e.g. from cron
+const POLL_INTERVAL_MS = 5000
+
+async function runWorker() {
+  const once = process.argv.includes('--once')
+  const jobService = new IngestionJobService()
+  console.log(once ? 'Running queued ingestion jobs...' : 'Waiting for ingestion jobs...')
+
+  while (true) {
+    const job = await jobService.claimNextJob()
+    if (job) {
+      console.log(`Running ingestion job ${job.id} (${job.request.mode}, index ${job.indexName})`)
+      await runIngestionJob(jobService, job)
+      const finished = await jobService.getJob(job.id!)
+      console.log(`Ingestion job ${job.id} ${finished?.status ?? 'finished'}`)
+      continue
+    }
+    if (once) return
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+  }
+}
+
+if (require.main === module) {
+  runWorker()
+    .then(() => {
+      console.log('Ingestion worker completed.')
+      process.exit(0)
+    })
+    .catch((error) => {
+      console.error('Ingestion worker failed:', error)
+      process.exit(1)
+    })
+}
+
+export { runWorker }